@@ -0,0 +1,175 @@
+// __tests__/DataStore.test.ts
+// Saved data that cannot be loaded must survive until the user decides what happens to it,
+// and user slots follow the commands the device confirms
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type DataStore from '../app/utils/DataStore';
+import type { LogEntry } from '../app/utils/LogManager';
+import v5 from './fixtures/appData/v5.json';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const UNREADABLE = '{"schemaVersion":5,"devices":[{"id":"dev-front"';
+
+describe('DataStore load failure', () => {
+  let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+  let dataStore: DataStore;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    await AsyncStorage.multiSet([
+      ['app_data', UNREADABLE],
+      ['activity_logs_dev-front', JSON.stringify([{ id: 'log-1', timestamp: new Date().toISOString(), action: 'Gate Open', details: '', success: true, category: 'relay', deviceId: 'dev-front' }])],
+    ]);
+    dataStore = require('../app/utils/DataStore').default.getInstance();
+    await dataStore.initialize();
+  });
+
+  it('keeps a copy of the unreadable document and reports it as dropped', async () => {
+    const failure = dataStore.getLoadFailure();
+    expect(failure).toEqual(expect.objectContaining({ raw: UNREADABLE, backupKey: expect.any(String) }));
+    expect(await AsyncStorage.getItem(failure.backupKey)).toBe(UNREADABLE);
+    expect(dataStore.getRepairReport().dropped).toEqual([
+      expect.objectContaining({ path: 'app_data' }),
+    ]);
+  });
+
+  it('saves nothing until the user decides', async () => {
+    await dataStore.addDevice({ name: 'Back Gate', unitNumber: '0412000000', password: '1234', type: 'Phonic4v' });
+    await dataStore.addLog({ deviceId: 'dev-front', action: 'Gate Open', details: '', success: true, category: 'relay' });
+
+    expect(await AsyncStorage.getItem('app_data')).toBe(UNREADABLE);
+    expect(JSON.parse(await AsyncStorage.getItem('activity_logs_dev-front'))).toHaveLength(1);
+  });
+
+  it('starts fresh on request and keeps the copy', async () => {
+    const { backupKey } = dataStore.getLoadFailure();
+    await dataStore.discardUnreadableData();
+    await dataStore.addDevice({ name: 'Back Gate', unitNumber: '0412000000', password: '1234', type: 'Phonic4v' });
+
+    expect(dataStore.getLoadFailure()).toBeNull();
+    expect(JSON.parse(await AsyncStorage.getItem('app_data')).devices).toEqual([
+      expect.objectContaining({ name: 'Back Gate' }),
+    ]);
+    expect(await AsyncStorage.getItem(backupKey)).toBe(UNREADABLE);
+  });
+});
+
+describe('DataStore log loading', () => {
+  let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+  let dataStore: DataStore;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+  });
+
+  it('drops stored log entries that cannot be shown, reports them and writes the bucket back', async () => {
+    const good: LogEntry = { id: 'log-1', timestamp: new Date().toISOString(), action: 'Gate Open', details: '', success: true, category: 'relay', deviceId: 'dev-front' };
+    await AsyncStorage.setItem('activity_logs_dev-front', JSON.stringify([good, { id: 'log-2', action: 'Gate Open' }]));
+    dataStore = require('../app/utils/DataStore').default.getInstance();
+    await dataStore.initialize();
+
+    expect(dataStore.getRepairReport().dropped).toEqual([
+      expect.objectContaining({ path: 'activity_logs_dev-front[1]' }),
+    ]);
+    expect(JSON.parse(await AsyncStorage.getItem('activity_logs_dev-front'))).toEqual([good]);
+  });
+});
+
+describe('DataStore backup restore', () => {
+  let dataStore: DataStore;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    const AsyncStorage: typeof import('@react-native-async-storage/async-storage').default = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    dataStore = require('../app/utils/DataStore').default.getInstance();
+    await dataStore.initialize();
+  });
+
+  it('pauses a batch the backup caught in the middle of sending, as loading does', async () => {
+    const backup = JSON.parse(JSON.stringify(v5));
+    backup.batches[0].items[0].state = 'sending';
+
+    await dataStore.restoreFromBackup(JSON.stringify(backup));
+
+    const [batch] = dataStore.getStore().batches;
+    expect(batch.paused).toBe(true);
+    expect(batch.items.map(item => item.state)).toEqual(['queued']);
+  });
+});
+
+describe('DataStore slot confirmation', () => {
+  let dataStore: DataStore;
+  let CommandLedger: typeof import('../app/utils/commandLedger').default;
+  let deviceId: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    const AsyncStorage: typeof import('@react-native-async-storage/async-storage').default = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    dataStore = require('../app/utils/DataStore').default.getInstance();
+    CommandLedger = require('../app/utils/commandLedger').default;
+    await dataStore.initialize();
+    deviceId = (await dataStore.addDevice({ name: 'Front Gate', unitNumber: '0412000000', password: '1234', type: 'Phonic4v' })).id;
+    userId = (await dataStore.addUser({ name: 'Alice', phoneNumber: '0412345678' })).id;
+  });
+
+  // What the context does with a reply: apply it, resolve the ledger, then settle the slot
+  const receive = async (body: string) => {
+    const reply = await dataStore.applyDeviceReply(deviceId, body);
+    const { command } = await CommandLedger.resolveReply(deviceId, reply);
+    if (command?.state === 'confirmed') {
+      await dataStore.confirmSlotCommand(deviceId, command.kind, command.serial);
+    }
+  };
+
+  const slotStatus = () => dataStore.getDeviceUsers(deviceId).find(u => u.serialNumber === '005')?.status;
+
+  it('activates a slot when a generic reply confirms its ADD_USER', async () => {
+    await dataStore.assignSlot(deviceId, userId, { serialNumber: '005' });
+    await CommandLedger.record(deviceId, '1234A005#0412345678###', 'sent');
+
+    await receive('OK');
+
+    expect(slotStatus()).toBe('active');
+  });
+
+  it('frees a slot when a generic reply confirms its DELETE_USER', async () => {
+    await dataStore.assignSlot(deviceId, userId, { serialNumber: '005', status: 'removing' });
+    await CommandLedger.record(deviceId, '1234A005##', 'sent');
+
+    await receive('Done');
+
+    expect(slotStatus()).toBeUndefined();
+  });
+
+  it('leaves the slot pending when the device reports an error', async () => {
+    await dataStore.assignSlot(deviceId, userId, { serialNumber: '005' });
+    await CommandLedger.record(deviceId, '1234A005#0412345678###', 'sent');
+
+    await receive('Error');
+
+    expect(slotStatus()).toBe('pending');
+  });
+
+  it('settles only the slot a reply names when several adds are pending', async () => {
+    const otherId = (await dataStore.addUser({ name: 'Bob', phoneNumber: '0412999888' })).id;
+    await dataStore.assignSlot(deviceId, userId, { serialNumber: '005' });
+    await dataStore.assignSlot(deviceId, otherId, { serialNumber: '007' });
+    await CommandLedger.record(deviceId, '1234A005#0412345678###', 'sent');
+    await CommandLedger.record(deviceId, '1234A007#0412999888###', 'sent');
+
+    await receive('User 005 set success');
+
+    const statuses = Object.fromEntries(dataStore.getDeviceUsers(deviceId).map(u => [u.serialNumber, u.status]));
+    expect(statuses).toEqual({ '005': 'active', '007': 'pending' });
+    expect((await CommandLedger.getOpenCommands(deviceId)).map(e => e.serial)).toEqual(['007']);
+  });
+});
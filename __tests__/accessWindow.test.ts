@@ -0,0 +1,77 @@
+// __tests__/accessWindow.test.ts
+// Access windows go to the device as local YYMMDDHHmm pairs; a window may run overnight
+// or over the new year, but never end before it starts
+import { describe, expect, it } from '@jest/globals';
+import {
+  decodeAccessWindow,
+  decodeDeviceTime,
+  encodeAccessWindow,
+  formatAccessWindow,
+  validateAccessWindow,
+} from '../app/utils/accessWindow';
+
+const LIMITS = { model: 'Connect4v', supportsTimeWindows: true };
+const NOW = new Date(2024, 0, 1, 12, 0);
+
+const windowOf = (startTime: string, endTime: string) => decodeAccessWindow(startTime, endTime)!;
+
+describe('decodeDeviceTime', () => {
+  it.each([
+    ['2401010800', new Date(2024, 0, 1, 8, 0)],
+    ['2402291230', new Date(2024, 1, 29, 12, 30)],
+    ['2302290800', null], // Not a leap year
+    ['2413010800', null],
+    ['24010108', null],
+    [undefined, null],
+  ])('reads %s', (stamp, expected) => {
+    expect(decodeDeviceTime(stamp)).toEqual(expected);
+  });
+});
+
+describe('access window round trip', () => {
+  it.each([
+    ['2401010800', '2401011700'],
+    ['2401012200', '2401020600'], // Overnight
+    ['2412312200', '2501010600'], // Over the new year
+  ])('encodes %s - %s back to the same strings', (startTime, endTime) => {
+    expect(encodeAccessWindow(windowOf(startTime, endTime))).toEqual({ startTime, endTime });
+  });
+
+  it('has no window unless both ends decode', () => {
+    expect(decodeAccessWindow('2401010800', undefined)).toBeNull();
+    expect(decodeAccessWindow('2401010800', '2402300800')).toBeNull();
+    expect(encodeAccessWindow(null)).toEqual({});
+  });
+});
+
+describe('validateAccessWindow', () => {
+  it.each([
+    ['2401012200', '2401020600', []],
+    ['2412312200', '2501010600', []],
+    ['2401020600', '2401012200', ['End time must be after start time']],
+    ['2401020600', '2401020600', ['End time must be after start time']],
+    ['2312310800', '2401010800', ['End time is already in the past']],
+  ])('checks %s - %s', (startTime, endTime, errors) => {
+    expect(validateAccessWindow(windowOf(startTime, endTime), LIMITS, NOW)).toEqual(errors);
+  });
+
+  it('refuses any window on a model without them', () => {
+    expect(validateAccessWindow(windowOf('2401012200', '2401020600'), { model: 'Phonic4v', supportsTimeWindows: false }, NOW))
+      .toEqual(['Phonic4v does not support access windows']);
+  });
+
+  it('accepts no window at all', () => {
+    expect(validateAccessWindow(null, LIMITS, NOW)).toEqual([]);
+  });
+});
+
+describe('formatAccessWindow', () => {
+  it.each([
+    [undefined, undefined, 'Unlimited (No time restrictions)'],
+    ['2401012200', '2401020600', 'Jan 1, 2024 22:00 - Jan 2, 2024 06:00'],
+    ['2401012200', undefined, 'Jan 1, 2024 22:00 - …'],
+    ['garbage', '2401020600', 'garbage - Jan 2, 2024 06:00'],
+  ])('shows %s - %s', (startTime, endTime, text) => {
+    expect(formatAccessWindow(startTime, endTime)).toBe(text);
+  });
+});
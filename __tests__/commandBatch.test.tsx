@@ -0,0 +1,57 @@
+// __tests__/commandBatch.test.tsx
+// Queued commands pass the same send checks as commands sent one at a time
+import React from 'react';
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { Linking } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DataStore from '../app/utils/DataStore';
+import { DataStoreProvider, useDataStore } from '../app/contexts/DataStoreContext';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const appData = {
+  schemaVersion: 5,
+  devices: [{
+    id: 'dev-front',
+    name: 'Front Gate',
+    unitNumber: '0412000000',
+    password: '1234',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    type: 'Connect4v',
+  }],
+  users: [],
+  slots: [],
+  batches: [],
+  globalSettings: { adminNumber: '', activeDeviceId: 'dev-front', completedSteps: [], smsTransport: 'linking' },
+};
+
+describe('runCommandBatch', () => {
+  beforeAll(async () => {
+    await AsyncStorage.setItem('app_data', JSON.stringify(appData));
+  });
+
+  it('does not send an undocumented command to a real gate', async () => {
+    const openURL = jest.spyOn(Linking, 'openURL');
+    const { result } = renderHook(() => useDataStore(), {
+      wrapper: ({ children }) => <DataStoreProvider>{children}</DataStoreProvider>,
+    });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      const batch = await result.current.enqueueCommands('dev-front', 'List users', [
+        { label: 'List users', command: { type: 'LIST_USERS', password: '1234', from: '001', to: '200' } },
+      ]);
+      await result.current.runCommandBatch(batch!.id);
+    });
+
+    expect(openURL).not.toHaveBeenCalled();
+    const [batch] = DataStore.getInstance().getStore().batches;
+    expect(batch.items).toEqual([
+      expect.objectContaining({ state: 'failed', error: expect.stringContaining('not in the gate manual') }),
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+// __tests__/commandLedger.test.ts
+// Ledger updates started together must all land in command_ledger
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { LedgerEntry } from '../app/utils/commandLedger';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('CommandLedger', () => {
+  let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+  let CommandLedger: typeof import('../app/utils/commandLedger').default;
+
+  const stored = async (): Promise<LedgerEntry[]> => JSON.parse(await AsyncStorage.getItem('command_ledger'));
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    CommandLedger = require('../app/utils/commandLedger').default;
+  });
+
+  it('keeps every command recorded at the same time', async () => {
+    await Promise.all([
+      CommandLedger.record('dev-front', '1234CC', 'sent'),
+      CommandLedger.record('dev-front', '1234DD', 'sent'),
+      CommandLedger.record('dev-back', '1234EE', 'sent'),
+    ]);
+
+    expect((await stored()).map(e => e.kind).sort()).toEqual(['CLOSE', 'OPEN', 'STATUS']);
+  });
+
+  it('keeps every transition made at the same time', async () => {
+    const open = await CommandLedger.record('dev-front', '1234CC', 'sent');
+    const close = await CommandLedger.record('dev-front', '1234DD', 'sent');
+
+    await Promise.all([
+      CommandLedger.transition(open.id, 'confirmed', { reply: 'Relay ON' }),
+      CommandLedger.transition(close.id, 'failed', { reply: 'Error' }),
+      CommandLedger.expireOverdue(new Date(Date.now() + 60 * 60 * 1000)),
+    ]);
+
+    const states = Object.fromEntries((await stored()).map(e => [e.id, e.state]));
+    expect(states).toEqual({ [open.id]: 'confirmed', [close.id]: 'failed' });
+  });
+
+  it('times out every overdue command in one pass', async () => {
+    await CommandLedger.record('dev-front', '1234CC', 'sent');
+    await CommandLedger.record('dev-front', '1234EE', 'sent');
+
+    const entries = await CommandLedger.expireOverdue(new Date(Date.now() + 60 * 60 * 1000));
+
+    expect(entries.map(e => e.state)).toEqual(['timed_out', 'timed_out']);
+    expect((await stored()).map(e => e.state)).toEqual(['timed_out', 'timed_out']);
+  });
+});
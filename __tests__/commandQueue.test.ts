@@ -0,0 +1,97 @@
+// __tests__/commandQueue.test.ts
+// Which queued commands make up the next SMS, and what a batch looks like after the app
+// was killed halfway through sending it
+import { describe, expect, it } from '@jest/globals';
+import type { GateCommand } from '../app/utils/gateCommands';
+import { getCapabilities } from '../app/utils/deviceModels';
+import {
+  CommandBatch,
+  getBatchProgress,
+  getQueuedSerials,
+  planNextMessage,
+  QueuedCommand,
+  QueuedCommandState,
+  recoverInterruptedBatch,
+} from '../app/utils/commandQueue';
+
+const UPDATED = '2024-05-01T08:00:00.000Z';
+
+const add = (serial: string, phone = '0412345678'): GateCommand =>
+  ({ type: 'ADD_USER', password: '1234', serial, phone });
+
+const item = (id: string, state: QueuedCommandState, command: GateCommand = add(id)): QueuedCommand =>
+  ({ id, command, label: id, state, attempts: 0, updatedAt: UPDATED });
+
+const batchOf = (items: QueuedCommand[], paused = false): CommandBatch => ({
+  id: 'batch-1',
+  deviceId: 'dev-front',
+  title: 'Import',
+  items,
+  paused,
+  createdAt: UPDATED,
+  updatedAt: UPDATED,
+});
+
+const CONNECT4V = getCapabilities('Connect4v');
+const JOINING = { ...CONNECT4V, maxCommandsPerSms: 3 };
+
+describe('planNextMessage', () => {
+  it.each([
+    ['one command per SMS', CONNECT4V, [item('001', 'sent'), item('002', 'queued'), item('003', 'queued')], ['1234A002#0412345678###']],
+    ['joined up to the model limit', JOINING, ['001', '002', '003', '004'].map(id => item(id, 'queued')),
+      ['1234A001#0412345678###', '1234A002#0412345678###', '1234A003#0412345678###']],
+    ['skipping failed and sent items', JOINING, [item('001', 'failed'), item('002', 'sent'), item('003', 'queued')],
+      ['1234A003#0412345678###']],
+    ['stopping before an SMS would get too long', { ...JOINING, maxCommandsPerSms: 10 },
+      ['001', '002', '003', '004', '005', '006', '007', '008'].map(id => item(id, 'queued', add(id, '0061412345678901'))),
+      ['001', '002', '003', '004', '005'].map(id => `1234A${id}#0061412345678901###`)],
+  ])('sends %s', (_name, capabilities, items, parts) => {
+    expect(planNextMessage(batchOf(items), capabilities)?.parts).toEqual(parts);
+  });
+
+  it('has nothing to send once no item is queued', () => {
+    expect(planNextMessage(batchOf([item('001', 'sent'), item('002', 'failed')]), JOINING)).toBeNull();
+  });
+
+  it('reports an item the model cannot take on its own', () => {
+    const tooHigh = item('201', 'queued');
+    expect(planNextMessage(batchOf([tooHigh, item('002', 'queued')]), JOINING)).toEqual({
+      items: [tooHigh],
+      parts: [],
+      error: expect.stringContaining('between'),
+    });
+  });
+
+  it('sends the items before an invalid one first', () => {
+    const message = planNextMessage(batchOf([item('001', 'queued'), item('201', 'queued')]), JOINING);
+    expect(message).toEqual(expect.objectContaining({ parts: ['1234A001#0412345678###'] }));
+    expect(message?.error).toBeUndefined();
+  });
+});
+
+describe('recoverInterruptedBatch', () => {
+  it('queues an item caught mid-send again and pauses the batch', () => {
+    const recovered = recoverInterruptedBatch(batchOf([item('001', 'sent'), item('002', 'sending'), item('003', 'queued')]));
+    expect(recovered.paused).toBe(true);
+    expect(recovered.items.map(i => i.state)).toEqual(['sent', 'queued', 'queued']);
+    expect(getBatchProgress(recovered)).toEqual({ total: 3, sent: 1, failed: 0, remaining: 2 });
+  });
+
+  it('leaves a batch that was not sending as it was', () => {
+    const batch = batchOf([item('001', 'sent'), item('002', 'queued')]);
+    expect(recoverInterruptedBatch(batch)).toBe(batch);
+  });
+});
+
+describe('getQueuedSerials', () => {
+  it('lists slots with a command still to go for the device', () => {
+    const batch = batchOf([
+      item('001', 'sent'),
+      item('002', 'failed'),
+      item('003', 'queued', { type: 'DELETE_USER', password: '1234', serial: '003' }),
+      item('open', 'queued', { type: 'OPEN', password: '1234' }),
+    ]);
+    expect(getQueuedSerials([batch, { ...batchOf([item('009', 'queued')]), deviceId: 'dev-back' }], 'dev-front'))
+      .toEqual(['002', '003']);
+  });
+});
@@ -0,0 +1,91 @@
+// __tests__/gateAnalytics.test.ts
+// Usage figures for one gate, counted in local days and Monday-based weeks
+import { describe, expect, it, jest } from '@jest/globals';
+import type { LogEntry } from '../app/utils/LogManager';
+import { computeGateStats, formatSuccessRate } from '../app/utils/gateAnalytics';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Wednesday 15 May 2024, local time
+const NOW = new Date(2024, 4, 15, 12, 0);
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 4, day, hour, minute).toISOString();
+
+let nextId = 0;
+const log = (timestamp: string, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  id: `log-${++nextId}`,
+  timestamp,
+  action: 'Gate Open',
+  details: '****GON',
+  success: true,
+  category: 'relay',
+  deviceId: 'dev-front',
+  commandKind: 'OPEN',
+  ...overrides,
+});
+
+const entries: LogEntry[] = [
+  log(at(15, 8)),
+  log(at(15, 9, 30), { confirmation: 'failed' }),
+  log(at(14, 22), { commandKind: undefined }), // Logged before commands carried their kind
+  log(at(5, 10)),                              // Before the first weekly bucket
+  log(at(15, 9, 31), { action: 'Device Reply', details: 'Relay ON', commandKind: undefined }),
+  log(at(15, 11), { action: 'Status Check', commandKind: 'STATUS' }),
+  log(at(14, 10), { action: 'Relay Timing', commandKind: 'SET_LATCH' }),
+  log(at(13, 10), { action: 'User Management', details: 'Removed Bob (#002)', category: 'relay', commandKind: undefined }),
+  log(at(12, 10), { action: 'Device Renamed', category: 'settings', commandKind: undefined }),
+];
+
+describe('computeGateStats', () => {
+  const stats = computeGateStats(entries, { now: NOW, days: 3, weeks: 2 });
+
+  it('totals the commands sent since the first weekly bucket', () => {
+    expect(stats.since).toBe(new Date(2024, 4, 6).toISOString());
+    expect(stats).toEqual(expect.objectContaining({ commands: 6, failed: 1, openings: 3 }));
+    expect(stats.successRate).toBeCloseTo(5 / 6);
+  });
+
+  // Each bucket as [day of May, total, failed]
+  it.each<['openingsPerDay' | 'openingsPerWeek', number[][]]>([
+    ['openingsPerDay', [[13, 0, 0], [14, 1, 0], [15, 2, 1]]],
+    ['openingsPerWeek', [[6, 0, 0], [13, 3, 1]]],
+  ])('counts %s in local periods, oldest first', (key, buckets) => {
+    expect(stats[key]).toEqual(buckets.map(([day, total, failed]) => ({
+      start: new Date(2024, 4, day).toISOString(),
+      total,
+      failed,
+    })));
+  });
+
+  it('counts openings by local hour', () => {
+    const hours = stats.openingsByHour.flatMap((count, hour) => (count > 0 ? [[hour, count]] : []));
+    expect(hours).toEqual([[8, 1], [9, 1], [22, 1]]);
+  });
+
+  it('groups commands by kind, reading older entries by their action', () => {
+    expect(stats.byType[0]).toEqual({ kind: 'OPEN', label: 'Open', total: 3, failed: 1 });
+    expect(stats.byType.map(type => type.kind).sort()).toEqual(['DELETE_USER', 'OPEN', 'SET_LATCH', 'STATUS']);
+  });
+
+  it('lists configuration changes newest first', () => {
+    expect(stats.recentChanges.map(e => e.action)).toEqual(['Relay Timing', 'Device Renamed']);
+  });
+
+  it('has no success rate when nothing was sent', () => {
+    const empty = computeGateStats([], { now: NOW, days: 3, weeks: 2 });
+    expect(empty).toEqual(expect.objectContaining({ commands: 0, successRate: null }));
+    expect(empty.openingsPerDay.map(bucket => bucket.total)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('formatSuccessRate', () => {
+  it.each([
+    [null, '–'],
+    [1, '100%'],
+    [5 / 6, '83%'],
+    [0, '0%'],
+  ])('shows %p as %s', (rate, text) => {
+    expect(formatSuccessRate(rate)).toBe(text);
+  });
+});
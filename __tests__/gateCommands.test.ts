@@ -0,0 +1,150 @@
+// __tests__/gateCommands.test.ts
+// decodeCommand is meant to be the exact inverse of encodeCommand for every valid command,
+// and redacting a body hides its password but never the command it carries
+import { describe, expect, it } from '@jest/globals';
+import fc from 'fast-check';
+import {
+  AccessType,
+  decodeCommand,
+  encodeCommand,
+  GateCommand,
+  isValidTimeStamp,
+  MAX_SERIAL,
+  parseCommand,
+  redactCommand,
+} from '../app/utils/gateCommands';
+
+const digits = (min: number, max: number) =>
+  fc.array(fc.constantFrom(...'0123456789'.split('')), { minLength: min, maxLength: max }).map(d => d.join(''));
+
+const password = digits(4, 4);
+const serial = fc.integer({ min: 1, max: MAX_SERIAL }).map(n => String(n).padStart(3, '0'));
+const phone = digits(6, 20);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toTimeStamp = (date: Date) =>
+  `${pad(date.getUTCFullYear() % 100)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}`;
+
+// Start and end of an access window, end strictly after start
+const timeWindow = fc
+  .tuple(
+    fc.integer({ min: Date.UTC(2000, 0, 1), max: Date.UTC(2098, 11, 31) }),
+    fc.integer({ min: 1, max: 60 * 24 * 400 })
+  )
+  .map(([start, minutes]) => {
+    const startDate = new Date(start);
+    return {
+      startTime: toTimeStamp(startDate),
+      endTime: toTimeStamp(new Date(startDate.getTime() + minutes * 60 * 1000)),
+    };
+  })
+  .filter(({ startTime, endTime }) => endTime > startTime);
+
+const serialRange = fc.tuple(serial, serial).map(([a, b]) => (a <= b ? { from: a, to: b } : { from: b, to: a }));
+
+const command: fc.Arbitrary<GateCommand> = fc.oneof(
+  password.map(p => ({ type: 'OPEN' as const, password: p })),
+  password.map(p => ({ type: 'CLOSE' as const, password: p })),
+  password.map(p => ({ type: 'STATUS' as const, password: p })),
+  fc.record({ password, serial, phone, window: fc.option(timeWindow, { nil: undefined }) }).map(
+    ({ password: p, serial: s, phone: n, window }) => ({ type: 'ADD_USER' as const, password: p, serial: s, phone: n, ...window })
+  ),
+  fc.record({ password, serial }).map(c => ({ type: 'DELETE_USER' as const, ...c })),
+  fc.record({ password, range: serialRange }).map(c => ({ type: 'LIST_USERS' as const, password: c.password, ...c.range })),
+  fc.record({ password, accessType: fc.constantFrom<AccessType>('AUT', 'ALL') }).map(c => ({ type: 'SET_ACCESS' as const, ...c })),
+  fc.record({ password, latchTime: fc.integer({ min: 0, max: 999 }).map(String) }).map(c => ({ type: 'SET_LATCH' as const, ...c })),
+  fc.record({ password, adminNumber: phone }).map(c => ({ type: 'REGISTER_ADMIN' as const, ...c })),
+  fc.record({ password, newPassword: password }).map(c => ({ type: 'CHANGE_PASSWORD' as const, ...c }))
+);
+
+const encode = (c: GateCommand): string => {
+  const result = encodeCommand(c);
+  if (result.ok === false) throw new Error(`Valid command rejected: ${JSON.stringify(result.errors)}`);
+  return result.body;
+};
+
+describe('gate command round trip', () => {
+  it('encode → decode → encode gives the same body', () => {
+    fc.assert(
+      fc.property(command, c => {
+        const body = encode(c);
+        const decoded = decodeCommand(body);
+        expect(decoded).not.toBeNull();
+        expect(decoded!.type).toBe(c.type);
+        expect(encode(decoded!)).toBe(body);
+      })
+    );
+  });
+
+  it('decodes to the kind and password that were encoded', () => {
+    fc.assert(
+      fc.property(command, c => {
+        const parsed = parseCommand(encode(c));
+        expect(parsed).toEqual(expect.objectContaining({ kind: c.type, password: c.password }));
+      })
+    );
+  });
+
+  it('re-encodes any body it accepts to that same body', () => {
+    const body = fc.oneof(
+      fc.string(),
+      command.map(encode).chain(b => fc.integer({ min: 0, max: b.length }).map(i => b.slice(0, i) + b.slice(i + 1)))
+    );
+    fc.assert(
+      fc.property(body, b => {
+        const decoded = decodeCommand(b);
+        if (!decoded) return;
+        const result = encodeCommand(decoded);
+        if (result.ok) expect(result.body).toBe(b.trim());
+      })
+    );
+  });
+
+  it('rejects admin numbers the encoder would never produce', () => {
+    expect(parseCommand('1234TEL12345#')).toBeNull();
+    expect(parseCommand(`1234TEL${'1'.repeat(21)}#`)).toBeNull();
+    expect(parseCommand('1234TEL123456#')).toEqual(expect.objectContaining({ kind: 'REGISTER_ADMIN' }));
+  });
+});
+
+describe('isValidTimeStamp', () => {
+  it('accepts every real minute', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: Date.UTC(2000, 0, 1), max: Date.UTC(2099, 11, 31, 23, 59) }), time => {
+        expect(isValidTimeStamp(toTimeStamp(new Date(time)))).toBe(true);
+      })
+    );
+  });
+
+  it('rejects days the month does not have', () => {
+    expect(isValidTimeStamp('2402310800')).toBe(false); // 31 February
+    expect(isValidTimeStamp('2302290800')).toBe(false); // 29 February, not a leap year
+    expect(isValidTimeStamp('2402290800')).toBe(true);
+    expect(isValidTimeStamp('2404310800')).toBe(false); // 31 April
+    expect(isValidTimeStamp('2412312359')).toBe(true);
+  });
+
+  it('rejects out of range fields', () => {
+    ['2400010800', '2413010800', '2401002400', '2401012400', '2401010060'].forEach(stamp => {
+      expect(isValidTimeStamp(stamp)).toBe(false);
+    });
+  });
+});
+
+describe('redactCommand', () => {
+  it.each([
+    ['1234GON', '****GON'],
+    ['1234ZZ5678X', '****ZZ****X'],
+    ['1234AL001#', '****AL001#'],
+    ['hello 1234', 'hello 1234'],
+  ])('masks only the password of the unparseable body %s', (body, expected) => {
+    expect(parseCommand(body)).toBeNull();
+    expect(redactCommand(body)).toBe(expected);
+  });
+
+  it('keeps the command of a body it understands', () => {
+    expect(redactCommand('1234A005##')).toBe('****A005##');
+    expect(redactCommand('1234P5678')).toBe('****P****');
+  });
+});
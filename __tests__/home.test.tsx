@@ -0,0 +1,95 @@
+// __tests__/home.test.tsx
+// The home screen driven end to end through the in-memory transport: a button press must
+// hand the command to the transport, and the gate's reply must show up on the screen.
+import React from 'react';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DataStoreProvider } from '../app/contexts/DataStoreContext';
+import HomePage from '../app/(tabs)/home';
+import { memoryTransport } from '../app/utils/smsTransport';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: jest.fn(), back: jest.fn(), replace: jest.fn() }),
+}));
+jest.mock('@react-navigation/native', () => ({
+  ...(jest.requireActual('@react-navigation/native') as object),
+  useFocusEffect: (effect: () => void) => require('react').useEffect(effect, [effect]),
+}));
+// Fonts are not needed to drive the screen: the logo's font lives in assets/, and the jest-expo
+// stub of the native font loader gives icon sets no list of loaded fonts
+jest.mock('../app/components/Logo', () => ({ Logo: () => null }));
+jest.mock('expo-font', () => ({
+  ...(jest.requireActual('expo-font') as object),
+  isLoaded: () => true,
+  loadAsync: () => Promise.resolve(),
+}));
+
+const GATE_NUMBER = '0412000000';
+
+const appData = {
+  schemaVersion: 5,
+  devices: [{
+    id: 'dev-front',
+    name: 'Front Gate',
+    unitNumber: GATE_NUMBER,
+    password: '1234',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    type: 'Connect4v',
+  }],
+  users: [],
+  slots: [],
+  batches: [],
+  globalSettings: {
+    adminNumber: '',
+    activeDeviceId: 'dev-front',
+    completedSteps: ['step1', 'step2', 'step3', 'step4'],
+    smsTransport: 'memory',
+  },
+};
+
+describe('HomePage with the memory transport', () => {
+  // The store loads once, when the provider first mounts
+  beforeAll(async () => {
+    await AsyncStorage.setItem('app_data', JSON.stringify(appData));
+  });
+
+  beforeEach(() => {
+    memoryTransport.clear();
+  });
+
+  const renderHome = () => render(<DataStoreProvider><HomePage /></DataStoreProvider>);
+
+  it('sends the open command and shows the confirmation from the gate', async () => {
+    renderHome();
+    fireEvent.press(await screen.findByText('Open'));
+
+    await screen.findByText('Waiting for device to confirm Gate Open…');
+    expect(memoryTransport.sent).toEqual([
+      expect.objectContaining({ phoneNumber: GATE_NUMBER, body: '1234CC' }),
+    ]);
+
+    await act(async () => {
+      memoryTransport.receive(GATE_NUMBER, 'Relay ON');
+    });
+
+    expect(await screen.findByText(/^Gate Open confirmed by device/)).toBeTruthy();
+    expect(await screen.findByText('Relay ON')).toBeTruthy();
+  });
+
+  it('shows a failure the gate reports', async () => {
+    renderHome();
+    fireEvent.press(await screen.findByText('Status'));
+    await screen.findByText(/^Waiting for device to confirm/);
+
+    await act(async () => {
+      memoryTransport.receive(GATE_NUMBER, 'Password error');
+    });
+
+    expect(await screen.findByText(/failed: Password error$/)).toBeTruthy();
+  });
+});
@@ -0,0 +1,40 @@
+// __tests__/logExport.test.ts
+// Exported CSVs are opened in spreadsheet apps, so no cell may start a formula
+import { describe, expect, it } from '@jest/globals';
+import { LogExportRow, toLogCsv } from '../app/utils/logExport';
+
+const row = (details: string): LogExportRow => ({
+  timestamp: '2024-05-01 08:00:00',
+  device: 'Front Gate',
+  action: 'Device Reply',
+  details,
+  result: 'Succeeded',
+});
+
+const dataLine = (csv: string): string => csv.replace(/^﻿/, '').split('\r\n')[1];
+
+describe('toLogCsv', () => {
+  it.each([
+    ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`],
+    ['+61412345678', "'+61412345678"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\tcmd', "'\tcmd"],
+  ])('keeps %j from being read as a formula', (details, cell) => {
+    expect(dataLine(toLogCsv([row(details)]))).toBe(
+      `2024-05-01 08:00:00,Front Gate,Device Reply,${cell},Succeeded`
+    );
+  });
+
+  it('quotes cells with separators after guarding them', () => {
+    expect(dataLine(toLogCsv([row('=1,"2"')]))).toBe(
+      `2024-05-01 08:00:00,Front Gate,Device Reply,"'=1,""2""",Succeeded`
+    );
+  });
+
+  it('leaves ordinary text as it is', () => {
+    expect(dataLine(toLogCsv([row('Opened by 0412345678')]))).toBe(
+      '2024-05-01 08:00:00,Front Gate,Device Reply,Opened by 0412345678,Succeeded'
+    );
+  });
+});
@@ -0,0 +1,95 @@
+// __tests__/logQuery.test.ts
+// Paging through the log must show every matching entry exactly once, in order, even when
+// several share a timestamp or new ones are logged between pages
+import { describe, expect, it } from '@jest/globals';
+import type { LogEntry } from '../app/utils/LogManager';
+import { LogQuery, matchesLogQuery, queryLogs } from '../app/utils/logQuery';
+
+const entry = (id: string, timestamp: string, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  id,
+  timestamp,
+  action: 'Gate Open',
+  details: '',
+  success: true,
+  category: 'relay',
+  deviceId: 'dev-front',
+  ...overrides,
+});
+
+const T1 = '2024-05-01T08:00:00.000Z';
+const T2 = '2024-05-01T09:00:00.000Z';
+const T3 = '2024-05-01T10:00:00.000Z';
+
+// Five entries, three of them logged in the same millisecond
+const entries = [entry('a', T1), entry('b', T2), entry('c', T2), entry('d', T2), entry('e', T3)];
+
+const pageIds = (all: LogEntry[], limit: number, query: LogQuery = {}): string[][] => {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = queryLogs(all, query, { cursor, limit });
+    pages.push(page.entries.map(e => e.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+};
+
+describe('queryLogs paging', () => {
+  it.each([
+    [1, [['e'], ['d'], ['c'], ['b'], ['a']]],
+    [2, [['e', 'd'], ['c', 'b'], ['a']]],
+    [3, [['e', 'd', 'c'], ['b', 'a']]],
+    [5, [['e', 'd', 'c', 'b', 'a']]],
+    [50, [['e', 'd', 'c', 'b', 'a']]],
+  ])('pages of %i split equal timestamps without repeating or skipping', (limit, pages) => {
+    expect(pageIds(entries, limit)).toEqual(pages);
+  });
+
+  it('ignores entries logged after the first page when fetching the next', () => {
+    const first = queryLogs(entries, {}, { limit: 2 });
+    const newer = [entry('f', '2024-05-01T11:00:00.000Z'), entry('g', T2), ...entries];
+    const second = queryLogs(newer, {}, { cursor: first.nextCursor, limit: 2 });
+
+    expect(second.entries.map(e => e.id)).toEqual(['c', 'b']);
+    expect(second.total).toBe(7);
+  });
+
+  it('carries on from the right place when the entry the cursor names has been deleted', () => {
+    const first = queryLogs(entries, {}, { limit: 2 });
+    const second = queryLogs(entries.filter(e => e.id !== 'd'), {}, { cursor: first.nextCursor, limit: 2 });
+    expect(second.entries.map(e => e.id)).toEqual(['c', 'b']);
+  });
+
+  it.each([
+    ['2024-05-01T07:00:00.000Z|z', []], // Past the oldest entry
+    ['not a cursor', ['e', 'd']],        // Unreadable, starts over
+  ])('handles the cursor %j', (cursor, ids) => {
+    expect(queryLogs(entries, {}, { cursor, limit: 2 }).entries.map(e => e.id)).toEqual(ids);
+  });
+
+  it('gives no next cursor on the last page', () => {
+    expect(queryLogs(entries, {}, { limit: 5 })).toEqual(expect.objectContaining({ nextCursor: null, total: 5 }));
+    expect(queryLogs([], {})).toEqual({ entries: [], nextCursor: null, total: 0 });
+  });
+});
+
+describe('matchesLogQuery', () => {
+  const failed = entry('x', T2, { success: false, category: 'user', action: 'User Management', details: 'Added Alice' });
+
+  it.each<[LogQuery, boolean]>([
+    [{}, true],
+    [{ categories: [] }, true],
+    [{ categories: ['user'] }, true],
+    [{ categories: ['relay', 'settings'] }, false],
+    [{ result: 'failure' }, true],
+    [{ result: 'success' }, false],
+    [{ from: T2, to: T2 }, true],
+    [{ from: T3 }, false],
+    [{ to: T1 }, false],
+    [{ search: '  alice ' }, true],
+    [{ search: 'user man' }, true],
+    [{ search: 'bob' }, false],
+  ])('%j matches: %s', (query, matches) => {
+    expect(matchesLogQuery(failed, query)).toBe(matches);
+  });
+});
@@ -0,0 +1,61 @@
+// __tests__/logRetention.test.ts
+// Retention limits, the ceiling behind "No limit", and the count shown before a tighter policy is applied
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { LogEntry } from '../app/utils/LogManager';
+import { applyRetention, LogRetentionPolicy, MAX_ENTRIES_CAP } from '../app/utils/logRetention';
+import { LogStorage } from '../app/utils/logStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Newest first, one a day
+const entries = (count: number, deviceId = 'dev-front'): LogEntry[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `${deviceId}-${i}`,
+    timestamp: new Date(NOW.getTime() - i * DAY_MS).toISOString(),
+    action: 'Gate Open',
+    details: '',
+    success: true,
+    deviceId,
+    category: 'relay',
+  }));
+
+const NO_LIMIT: LogRetentionPolicy = { maxEntries: null, maxAgeDays: null };
+
+describe('applyRetention', () => {
+  it('keeps everything under no limit up to the ceiling', () => {
+    expect(applyRetention(entries(50), NO_LIMIT, NOW)).toHaveLength(50);
+    const kept = applyRetention(entries(MAX_ENTRIES_CAP + 5), NO_LIMIT, NOW);
+    expect(kept).toHaveLength(MAX_ENTRIES_CAP);
+    expect(kept[0].id).toBe('dev-front-0');
+  });
+
+  it('applies both the entry and the age limit', () => {
+    expect(applyRetention(entries(50), { maxEntries: 20, maxAgeDays: null }, NOW)).toHaveLength(20);
+    expect(applyRetention(entries(50), { maxEntries: null, maxAgeDays: 30 }, NOW)).toHaveLength(31);
+  });
+});
+
+describe('LogStorage.countRemovedBy', () => {
+  let storage: LogStorage;
+
+  beforeEach(async () => {
+    storage = new LogStorage();
+    storage.setPolicy(NO_LIMIT);
+    await storage.merge({ 'dev-front': entries(40), 'dev-back': entries(10, 'dev-back') });
+  });
+
+  it('counts across every gate without removing anything', () => {
+    expect(storage.countRemovedBy({ maxEntries: 20, maxAgeDays: null }, NOW)).toBe(20);
+    expect(storage.countRemovedBy({ maxEntries: null, maxAgeDays: 5 }, NOW)).toBe(34 + 4);
+    expect(storage.getEntries()).toHaveLength(50);
+  });
+
+  it('counts nothing for a looser policy', () => {
+    expect(storage.countRemovedBy({ maxEntries: 1000, maxAgeDays: null }, NOW)).toBe(0);
+  });
+});
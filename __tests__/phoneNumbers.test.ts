@@ -0,0 +1,87 @@
+// __tests__/phoneNumbers.test.ts
+// However a number is typed, the device, the SMS composer and duplicate checks must all see the same one
+import { afterEach, describe, expect, it } from '@jest/globals';
+import {
+  formatPhoneForDisplay,
+  isSamePhoneNumber,
+  parsePhoneNumber,
+  phoneMatchKey,
+  setDefaultPhoneCountry,
+  toDevicePhoneNumber,
+  toSmsAddress,
+  validatePhoneNumber,
+} from '../app/utils/phoneNumbers';
+
+afterEach(() => setDefaultPhoneCountry('AU'));
+
+describe('one Australian mobile in every form', () => {
+  it.each([
+    '0412345678',
+    '0412 345 678',
+    '(04) 1234-5678',
+    '+61412345678',
+    '+61 412 345 678',
+    '0061412345678',
+    '0011 61 412 345 678',
+    '61412345678',
+  ])('%s', raw => {
+    expect(parsePhoneNumber(raw)).toEqual({ international: '61412345678', country: 'AU', national: '412345678' });
+    expect(toDevicePhoneNumber(raw)).toBe('0061412345678');
+    expect(toSmsAddress(raw)).toBe('+61412345678');
+    expect(formatPhoneForDisplay(raw)).toBe('0412 345 678');
+    expect(phoneMatchKey(raw)).toBe('61412345678');
+  });
+});
+
+describe('parsePhoneNumber', () => {
+  it.each([
+    ['', null],
+    ['04123 456', null],            // Too short for Australia
+    ['04123456789', null],          // Too long
+    ['0412-345-67a', null],
+    ['+1 415 555 0100', { international: '14155550100', country: 'US', national: '4155550100' }],
+    ['+49 30 1234567', { international: '49301234567', national: '' }], // Country not in the table
+    ['+123', null],
+  ])('reads %j', (raw, parsed) => {
+    expect(parsePhoneNumber(raw)).toEqual(parsed);
+  });
+
+  it('reads local numbers in the default country', () => {
+    setDefaultPhoneCountry('NZ');
+    expect(toDevicePhoneNumber('021 123 4567')).toBe('0064211234567');
+    expect(formatPhoneForDisplay('+64211234567')).toBe('021 123 4567');
+    expect(formatPhoneForDisplay('+61412345678')).toBe('+61 412 345 678');
+  });
+});
+
+describe('validatePhoneNumber', () => {
+  it.each([
+    ['0412345678', null],
+    ['  ', 'Please enter a phone number'],
+    ['12345', 'Not a valid Australia number. Numbers from other countries need their country code, e.g. +61'],
+  ])('checks %j', (raw, error) => {
+    expect(validatePhoneNumber(raw)).toBe(error);
+  });
+});
+
+describe('isSamePhoneNumber', () => {
+  it.each([
+    ['0412345678', '+61 412 345 678', true],
+    ['0061412345678', '61412345678', true],
+    ['0412345678', '0412345679', false],
+    ['', '', false],
+    ['abc', 'abc', false],
+  ])('%j and %j', (a, b, same) => {
+    expect(isSamePhoneNumber(a, b)).toBe(same);
+  });
+});
+
+describe('formatPhoneForDisplay', () => {
+  it.each([
+    ['0298765432', '02 9876 5432'],
+    ['+14155550100', '+1 415 555 0100'],
+    ['not a number', 'not a number'],
+  ])('shows %j as %j', (raw, text) => {
+    expect(formatPhoneForDisplay(raw)).toBe(text);
+  });
+});
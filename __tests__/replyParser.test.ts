@@ -0,0 +1,74 @@
+// __tests__/replyParser.test.ts
+// What each kind of reply a unit sends back says about the command it answers and the unit's state
+import { describe, expect, it } from '@jest/globals';
+import { mergeDeviceStatus, parseReply, parseUserList } from '../app/utils/replyParser';
+
+describe('parseReply', () => {
+  it.each([
+    ['Relay ON', { kind: 'ack', confirms: ['OPEN'], status: { relayOn: true } }],
+    ['Relay1 is off', { kind: 'ack', confirms: ['CLOSE'], status: { relayOn: false } }],
+    ['User 005 set success', { kind: 'ack', confirms: ['ADD_USER'], serial: '005' }],
+    ['user007 deleted', { kind: 'ack', confirms: ['DELETE_USER'], serial: '007' }],
+    ['Access ALL set success', { kind: 'ack', confirms: ['SET_ACCESS'], status: { accessMode: 'ALL' } }],
+    ['GOT 5 success', { kind: 'ack', confirms: ['SET_LATCH'], status: { latchTime: '005' } }],
+    ['TEL 0412345678 set success', { kind: 'ack', confirms: ['REGISTER_ADMIN'] }],
+    ['Password set success', { kind: 'ack', confirms: ['CHANGE_PASSWORD'] }],
+    ['OK', { kind: 'ack', confirms: [] }],
+    ['Done.', { kind: 'ack', confirms: [] }],
+    ['Password error', { kind: 'error', confirms: [] }],
+    ['Command failed', { kind: 'error', confirms: [] }],
+    ['Hello from your carrier', { kind: 'unknown', confirms: [] }],
+    ['   ', { kind: 'unknown', confirms: [] }],
+  ])('reads %j', (body, expected) => {
+    expect(parseReply(body)).toEqual(expect.objectContaining(expected));
+  });
+
+  it('reads a status report in any layout', () => {
+    const expected = { relayOn: false, accessMode: 'AUT', latchTime: '010', signal: 21, userCount: 4, firmware: '2.1' };
+    const layouts = [
+      'Relay: OFF\nAccess: AUT\nGOT: 10\nCSQ: 21\nUsers: 4\nVer: 2.1',
+      'relay=off, mode=aut, latch time=010, signal=21, user count=4, firmware=2.1',
+    ];
+    layouts.forEach(body => {
+      expect(parseReply(body)).toEqual(expect.objectContaining({ kind: 'status', confirms: ['STATUS'], status: expected }));
+    });
+  });
+
+  it('reads a user list, or the reply for an empty one', () => {
+    expect(parseReply('001:0400111222\n002:0400333444')).toEqual(
+      expect.objectContaining({ kind: 'ack', confirms: ['LIST_USERS'], summary: '2 users listed by device' })
+    );
+    expect(parseReply('No users')).toEqual(
+      expect.objectContaining({ kind: 'ack', confirms: ['LIST_USERS'], users: [] })
+    );
+  });
+});
+
+describe('parseUserList', () => {
+  it.each([
+    ['001:0400111222', [{ serialNumber: '001', phoneNumber: '0400111222' }]],
+    ['002=0400333444:2401010800:2412312359', [
+      { serialNumber: '002', phoneNumber: '0400333444', startTime: '2401010800', endTime: '2412312359' },
+    ]],
+    ['001:0400111222;003#0061400555666', [
+      { serialNumber: '001', phoneNumber: '0400111222' },
+      { serialNumber: '003', phoneNumber: '0061400555666' },
+    ]],
+    ['Users:\n 004 : 0400777888 \nEnd', [{ serialNumber: '004', phoneNumber: '0400777888' }]],
+    ['01:0400111222', []],
+    ['001:04001', []],
+  ])('reads %j', (body, entries) => {
+    expect(parseUserList(body)).toEqual(entries);
+  });
+});
+
+describe('mergeDeviceStatus', () => {
+  it('keeps what an earlier reply reported that this one does not mention', () => {
+    const previous = { relayOn: true, signal: 18, confirmedAt: '2024-05-01T08:00:00.000Z' };
+    expect(mergeDeviceStatus(previous, parseReply('Relay OFF'), '2024-05-01T09:00:00.000Z')).toEqual({
+      relayOn: false,
+      signal: 18,
+      confirmedAt: '2024-05-01T09:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,175 @@
+// __tests__/schemaMigrations.test.ts
+// Every shape app_data has ever been stored in, and the keys the first builds used, must load
+// as the current schema without anything being repaired or dropped.
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CURRENT_SCHEMA_VERSION, migrateAppData } from '../app/utils/schemaMigrations';
+import { hasRepairs, summarizeRepairReport, validateAppData } from '../app/utils/dataValidation';
+import { GATE_MODELS } from '../app/utils/deviceModels';
+import type DataStoreClass from '../app/utils/DataStore';
+import type { AppData } from '../app/utils/DataStore';
+import type { LogEntry } from '../app/utils/LogManager';
+import v0 from './fixtures/appData/v0.json';
+import v1 from './fixtures/appData/v1.json';
+import v2 from './fixtures/appData/v2.json';
+import v3 from './fixtures/appData/v3.json';
+import v4 from './fixtures/appData/v4.json';
+import v5 from './fixtures/appData/v5.json';
+import legacyKeys from './fixtures/appData/legacyKeys.json';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const FIXTURES: [string, unknown][] = [['v0', v0], ['v1', v1], ['v2', v2], ['v3', v3], ['v4', v4], ['v5', v5]];
+
+const load = (fixture: unknown) => {
+  const migrated = migrateAppData(JSON.parse(JSON.stringify(fixture)));
+  return { migrated, ...validateAppData(migrated.data) };
+};
+
+// What every migrated document must look like, whatever it started as
+const expectCurrentShape = (data: AppData) => {
+  expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  expect(Array.isArray(data.batches)).toBe(true);
+  expect(data).not.toHaveProperty('logs');
+  data.devices.forEach(device => {
+    expect(GATE_MODELS).toContain(device.type);
+    expect(device.relaySettings).toEqual(expect.objectContaining({ accessControl: expect.any(String) }));
+    expect(device).not.toHaveProperty('authorizedUsers');
+  });
+  data.users.forEach(user => {
+    expect(Object.keys(user).sort()).toEqual(['id', 'name', 'phoneNumber']);
+  });
+  data.slots.forEach(slot => {
+    expect(slot.serialNumber).toMatch(/^\d{3}$/);
+    expect(data.devices.map(d => d.id)).toContain(slot.deviceId);
+    expect(data.users.map(u => u.id)).toContain(slot.userId);
+  });
+  expect(typeof data.globalSettings.adminNumber).toBe('string');
+  expect(Array.isArray(data.globalSettings.completedSteps)).toBe(true);
+};
+
+const slotOf = (data: AppData, deviceId: string, userId: string) =>
+  data.slots.find(slot => slot.deviceId === deviceId && slot.userId === userId);
+
+describe('app_data migrations', () => {
+  it.each(FIXTURES)('migrates %s to the current schema without repairs', (_name, fixture) => {
+    const { migrated, data, report } = load(fixture);
+    expect(migrated.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(hasRepairs(report) ? summarizeRepairReport(report) : null).toBeNull();
+    expectCurrentShape(data);
+  });
+
+  it('v0: versionless documents get defaults and per-device slots', () => {
+    const { migrated, data } = load(v0);
+    expect(migrated.fromVersion).toBe(0);
+    expect(migrated.applied).toHaveLength(CURRENT_SCHEMA_VERSION);
+    expect(data.globalSettings).toEqual(expect.objectContaining({ activeDeviceId: null, completedSteps: [] }));
+    expect(data.devices[0]).toEqual(expect.objectContaining({ type: 'Connect4v', relaySettings: { accessControl: 'AUT', latchTime: '000' } }));
+    expect(slotOf(data, 'dev-front', 'user-alice')).toEqual(expect.objectContaining({ serialNumber: '001', status: 'active' }));
+    expect(slotOf(data, 'dev-front', 'user-alice')).not.toHaveProperty('startTime');
+    expect(slotOf(data, 'dev-front', 'user-bob')).toEqual(expect.objectContaining({ serialNumber: '002', status: 'active' }));
+  });
+
+  it('v1: keeps known models and defaults the rest', () => {
+    const { data } = load(v1);
+    expect(data.devices.map(d => d.type)).toEqual(['Phonic4v', 'Connect4v']);
+    expect(slotOf(data, 'dev-back', 'user-alice')).toEqual(expect.objectContaining({ serialNumber: '005', status: 'active' }));
+    expect(slotOf(data, 'dev-front', 'user-alice')).toBeUndefined();
+  });
+
+  it('v2: pads numeric serials, names unnamed users and keeps access windows and logs', () => {
+    const { data, logs } = load(v2);
+    expect(data.users.find(u => u.id === 'user-carol')!.name).toBe('Unnamed User');
+    expect(slotOf(data, 'dev-front', 'user-carol')).toEqual(
+      expect.objectContaining({ serialNumber: '012', startTime: '2401010800', endTime: '2412312000', status: 'active' })
+    );
+    expect(data.devices[0].relaySettings).toEqual({ accessControl: 'ALL', latchTime: '005' });
+    expect(logs['dev-front'].map(log => log.id)).toEqual(['log-1']);
+  });
+
+  it('v3: moves a user whose global serial is taken on one gate and marks it pending', () => {
+    const { data } = load(v3);
+    expect(slotOf(data, 'dev-front', 'user-alice')).toEqual(expect.objectContaining({ serialNumber: '003', status: 'active' }));
+    expect(slotOf(data, 'dev-front', 'user-bob')).toEqual(expect.objectContaining({ serialNumber: '001', status: 'pending' }));
+    expect(slotOf(data, 'dev-back', 'user-bob')).toEqual(
+      expect.objectContaining({ serialNumber: '003', status: 'active', startTime: '2401010800' })
+    );
+    expect(data.slots.some(slot => slot.userId === 'user-missing')).toBe(false);
+  });
+
+  it('v4: adds an empty command queue and leaves slots alone', () => {
+    const { migrated, data } = load(v4);
+    expect(migrated.applied).toEqual(['Add the command queue']);
+    expect(data.batches).toEqual([]);
+    expect(data.slots).toEqual(v4.slots);
+  });
+
+  it('v5: loads unchanged and hands its inline logs over to log storage', () => {
+    const { migrated, data, logs } = load(v5);
+    expect(migrated.applied).toEqual([]);
+    expect(data.batches).toHaveLength(1);
+    expect(Object.keys(logs).sort()).toEqual(['dev-front', 'system']);
+  });
+
+  it('leaves documents from a newer app untouched', () => {
+    const newer = { ...v5, schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    const migrated = migrateAppData(newer);
+    expect(migrated.applied).toEqual([]);
+    expect(migrated.data).toBe(newer);
+  });
+});
+
+describe('legacy keys', () => {
+  let AsyncStorage: typeof import('@react-native-async-storage/async-storage').default;
+  let DataStore: typeof DataStoreClass;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    await AsyncStorage.clear();
+    DataStore = require('../app/utils/DataStore').default;
+  });
+
+  it('builds a current document from the keys written before app_data existed', async () => {
+    // Dated today so the default retention keeps it
+    const legacyLogs = (JSON.parse(legacyKeys.app_logs) as LogEntry[]).map(log => ({ ...log, timestamp: new Date().toISOString() }));
+    await AsyncStorage.multiSet(Object.entries({ ...legacyKeys, app_logs: JSON.stringify(legacyLogs) }));
+    const dataStore = DataStore.getInstance();
+    await dataStore.initialize();
+
+    const store: AppData = dataStore.getStore();
+    expectCurrentShape(store);
+    expect(store.devices).toHaveLength(1);
+    const [device] = store.devices;
+    expect(device).toEqual(expect.objectContaining({ unitNumber: '0412345678', password: '5678' }));
+    expect(store.globalSettings).toEqual(
+      expect.objectContaining({ activeDeviceId: device.id, adminNumber: '0400000009', completedSteps: ['step1', 'step2', 'step3'] })
+    );
+    expect(store.users.map(u => u.name)).toEqual(['Alice', 'Bob']);
+    const bob = store.users.find(u => u.name === 'Bob')!;
+    expect(slotOf(store, device.id, bob.id)).toEqual(
+      expect.objectContaining({ serialNumber: '002', status: 'active', startTime: '2401010800', endTime: '2412312000' })
+    );
+    expect(dataStore.getLogs(device.id).map(log => log.id)).toContain('legacy-log-1');
+
+    // The saved document loads again as-is
+    const saved = JSON.parse(await AsyncStorage.getItem('app_data'));
+    const { report } = load(saved);
+    expect(hasRepairs(report)).toBe(false);
+  });
+
+  it('drops legacy log entries that cannot be shown and reports them', async () => {
+    const legacyLogs = [
+      ...(JSON.parse(legacyKeys.app_logs) as LogEntry[]).map(log => ({ ...log, timestamp: new Date().toISOString() })),
+      { id: 'legacy-log-broken', action: 'Gate Open' },
+    ];
+    await AsyncStorage.multiSet(Object.entries({ ...legacyKeys, app_logs: JSON.stringify(legacyLogs) }));
+    const dataStore = DataStore.getInstance();
+    await dataStore.initialize();
+
+    const [device] = dataStore.getStore().devices;
+    expect(dataStore.getLogs(device.id).map(log => log.id)).not.toContain('legacy-log-broken');
+    expect(dataStore.getRepairReport().dropped).toEqual([expect.objectContaining({ path: 'app_logs[1]' })]);
+  });
+});
@@ -0,0 +1,60 @@
+// __tests__/useAddUsers.test.tsx
+// The shared add flow behind CSV imports and contact selections
+import React from 'react';
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DataStore from '../app/utils/DataStore';
+import { DataStoreProvider, useDataStore } from '../app/contexts/DataStoreContext';
+import { useAddUsers } from '../app/hooks/useAddUsers';
+import { memoryTransport } from '../app/utils/smsTransport';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const appData = {
+  schemaVersion: 5,
+  devices: [{
+    id: 'dev-front',
+    name: 'Front Gate',
+    unitNumber: '0412000000',
+    password: '1234',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    type: 'Connect4v',
+  }],
+  users: [],
+  slots: [],
+  batches: [],
+  globalSettings: { adminNumber: '', activeDeviceId: 'dev-front', completedSteps: [], smsTransport: 'memory' },
+};
+
+describe('useAddUsers', () => {
+  beforeAll(async () => {
+    await AsyncStorage.setItem('app_data', JSON.stringify(appData));
+  });
+
+  it('gives a number picked twice one position and sends one command for it', async () => {
+    const { result } = renderHook(() => ({ ...useAddUsers(), ...useDataStore() }), {
+      wrapper: ({ children }) => <DataStoreProvider>{children}</DataStoreProvider>,
+    });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let outcome: any;
+    await act(async () => {
+      outcome = await result.current.addUsers(result.current.getDeviceById('dev-front')!, [
+        { name: 'Alice', phoneNumber: '0412345678' },
+        { name: 'Alice (work)', phoneNumber: '0061412345678' },
+        { name: 'Bob', phoneNumber: '0412555666' },
+      ], { title: 'Add from contacts', logAction: 'Users Added', logDetails: 'from contacts' });
+    });
+
+    expect(outcome).toEqual(expect.objectContaining({ queued: 2, duplicates: 1 }));
+    expect(DataStore.getInstance().getDeviceUsers('dev-front').map(user => [user.name, user.serialNumber])).toEqual([
+      ['Alice', '001'],
+      ['Bob', '002'],
+    ]);
+    expect(memoryTransport.sent.map(message => message.body).join(' ')).toMatch(/^1234A001#\d+###.*1234A002#\d+###$/);
+  });
+});
@@ -0,0 +1,90 @@
+// __tests__/userImport.test.ts
+// Resident CSVs come from spreadsheets: quoted fields, either line ending, with or without
+// a header, and numbers in whatever form they were typed
+import { describe, expect, it, jest } from '@jest/globals';
+import type { DeviceUser } from '../app/utils/DataStore';
+import { parseCsv, planUserImport } from '../app/utils/userImport';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const LIMITS = { model: 'Connect4v', maxUsers: 200, supportsTimeWindows: true };
+const NOW = new Date(2024, 0, 1, 12, 0);
+
+const existing: DeviceUser[] = [
+  { id: 'user-alice', name: 'Alice', phoneNumber: '0061412000001', serialNumber: '001', status: 'active' },
+];
+
+const plan = (text: string, users: DeviceUser[] = existing) => planUserImport(text, users, LIMITS, NOW);
+
+describe('parseCsv', () => {
+  it.each([
+    ['a,b\nc,d', [['a', 'b'], ['c', 'd']]],
+    ['a,b\r\nc,d\r\n', [['a', 'b'], ['c', 'd']]],
+    ['"Smith, Jo",0412345678', [['Smith, Jo', '0412345678']]],
+    ['"Jo ""JJ"" Smith",1', [['Jo "JJ" Smith', '1']]],
+    ['"two\nlines",x', [['two\nlines', 'x']]],
+    [' padded , cells ', [['padded', 'cells']]],
+    ['a,,c', [['a', '', 'c']]],
+    ['', []],
+  ])('reads %j', (text, rows) => {
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
+
+describe('planUserImport', () => {
+  it('reads columns by header name in any order', () => {
+    const { ready } = plan('Mobile,Resident,Slot\n0412 345 678,"Smith, Jo",7');
+    expect(ready).toEqual([
+      expect.objectContaining({ line: 2, name: 'Smith, Jo', phoneNumber: '0061412345678', serialNumber: '007' }),
+    ]);
+  });
+
+  it('reads files without a header in the default column order', () => {
+    const { ready } = plan('Bob,+61 412 000 002');
+    expect(ready).toEqual([expect.objectContaining({ line: 1, name: 'Bob', phoneNumber: '0061412000002', serialNumber: '002' })]);
+  });
+
+  it.each([
+    ['+61412000001', 'Already on this device as Alice (slot 001)'],
+    ['0412 000 001', 'Already on this device as Alice (slot 001)'],
+    ['61412000001', 'Already on this device as Alice (slot 001)'],
+  ])('skips %s, which is a number the device already has', (phone, message) => {
+    const [row] = plan(`name,phone\nAl,${phone}`).rows;
+    expect(row).toEqual(expect.objectContaining({ status: 'skipped', messages: [message] }));
+  });
+
+  it('skips a number repeated later in the file, whatever its form', () => {
+    const { rows } = plan('name,phone\nBob,0412000002\nRob,+61412000002');
+    expect(rows.map(row => row.status)).toEqual(['ready', 'skipped']);
+    expect(rows[1].messages).toEqual(['Same number appears earlier in the file']);
+  });
+
+  it('moves a requested slot that is taken to the next free one', () => {
+    const { ready } = plan('name,phone,slot\nBob,0412000002,1\nCat,0412000003,');
+    expect(ready.map(row => [row.name, row.serialNumber])).toEqual([['Bob', '002'], ['Cat', '003']]);
+    expect(ready[0].messages).toEqual(['Slot 001 is taken, a free slot was used instead']);
+  });
+
+  it.each([
+    ['name,phone,slot\nBob,0412000002,201', 'Slot must be between 001 and 200'],
+    ['name,phone\nBob,12345', 'Not a valid Australia number. Numbers from other countries need their country code, e.g. +61'],
+    ['name,phone,start,end\nBob,0412000002,2024-01-02 08:00,', 'Start and end must both be valid times (YYMMDDHHmm or YYYY-MM-DD HH:mm)'],
+    ['name,phone,start,end\nBob,0412000002,2401020600,2401012200', 'End time must be after start time'],
+  ])('marks %j invalid', (text, message) => {
+    const [row] = plan(text).rows;
+    expect(row.status).toBe('invalid');
+    expect(row.messages).toContain(message);
+  });
+
+  it('accepts overnight windows in either time format', () => {
+    const [row] = plan('name,phone,start,end\nBob,0412000002,2024-01-02 22:00,2401030600').ready;
+    expect(row).toEqual(expect.objectContaining({ startTime: '2401022200', endTime: '2401030600' }));
+  });
+
+  it('runs out of slots rather than going past the model limit', () => {
+    const { rows } = planUserImport('Bob,0412000002\nCat,0412000003', [], { ...LIMITS, maxUsers: 1 }, NOW);
+    expect(rows.map(row => [row.status, row.serialNumber])).toEqual([['ready', '001'], ['invalid', '']]);
+  });
+});
@@ -0,0 +1,55 @@
+// __tests__/userReconcile.test.ts
+// Which positions a user list reply answers for, and what comparing it with the app suggests
+import { describe, expect, it, jest } from '@jest/globals';
+import type { DeviceUser } from '../app/utils/DataStore';
+import { coveredRange, diffUserTable, requestedRange } from '../app/utils/userReconcile';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const FULL = { from: '001', to: '200' };
+
+const slot = (serialNumber: string, phoneNumber: string, status: DeviceUser['status'] = 'active'): DeviceUser => ({
+  id: `user-${serialNumber}`,
+  name: `User ${serialNumber}`,
+  phoneNumber,
+  serialNumber,
+  status,
+});
+
+describe('requestedRange', () => {
+  it('reads the positions from a redacted list body', () => {
+    expect(requestedRange('****AL001#050#')).toEqual({ from: '001', to: '050' });
+    expect(requestedRange('****GOT005#')).toBeNull();
+  });
+});
+
+describe('coveredRange', () => {
+  it('covers the whole request when the device has no users', () => {
+    expect(coveredRange([], FULL)).toEqual(FULL);
+  });
+
+  it('stops at the last position listed', () => {
+    const listed = [{ serialNumber: '001', phoneNumber: '0400111222' }, { serialNumber: '004', phoneNumber: '0400333444' }];
+    expect(coveredRange(listed, FULL)).toEqual({ from: '001', to: '004' });
+  });
+});
+
+describe('diffUserTable', () => {
+  const listed = [{ serialNumber: '001', phoneNumber: '0400111222' }, { serialNumber: '003', phoneNumber: '0400333444' }];
+
+  it('only reports app users missing within the covered positions', () => {
+    const app = [slot('001', '0400111222'), slot('002', '0400222333'), slot('003', '0400333444'), slot('007', '0400777888')];
+    const result = diffUserTable(listed, app, coveredRange(listed, FULL), 200);
+
+    expect(result.confirmed.map(u => u.serialNumber)).toEqual(['001', '003']);
+    expect(result.rows.map(row => [row.serialNumber, row.kind])).toEqual([['002', 'missing_on_device']]);
+    expect(result.unchecked.map(u => u.serialNumber)).toEqual(['007']);
+  });
+
+  it('suggests resending rather than removing a user the device did not list', () => {
+    const result = diffUserTable([], [slot('002', '0400222333', 'active')], FULL, 200);
+    expect(result.rows[0]).toMatchObject({ kind: 'missing_on_device', suggested: 'app' });
+  });
+});
@@ -7,32 +7,35 @@ import { Card } from '../components/Card';
 import { Button } from '../components/Button';
 import { colors, spacing, shadows, borderRadius } from '../styles/theme';
 import { StandardHeader } from '../components/StandardHeader';
+import { CommandStatusBanner } from '../components/CommandStatusBanner';
 import { useRouter } from 'expo-router';
 import { useDataStore } from '../contexts/DataStoreContext';
-import { formatSMSCommand, sendSMSCommand } from '../../utils/smsUtils';
+import { sendGateCommand } from '../utils/smsUtils';
+import { supportsCommand } from '../utils/deviceModels';
+import { formatPhoneForDisplay } from '../utils/phoneNumbers';
 import { useFocusEffect } from '@react-navigation/native';
 
 export default function HomePage() {
     const router = useRouter();
-    const { store, getDeviceLogs, refreshStore } = useDataStore(); // Use the consolidated context and required functions.
+    const { store, getLatestLog, refreshStore, getExpiringAccess } = useDataStore(); // Use the consolidated context and required functions.
     const [isSendingSms, setIsSendingSms] = useState(false);
     const [lastAction, setLastAction] = useState<{ action: string; timestamp: Date } | null>(null);
 
     // Get the active device from the store
     const activeDevice = store.devices.find(d => d.id === store.globalSettings.activeDeviceId);
 
+    // Temporary users across all devices whose access ends within a week
+    const expiringAccess = getExpiringAccess(7 * 24 * 60 * 60 * 1000);
+    const expiredCount = expiringAccess.filter(entry => entry.expired).length;
+
     // Fetch the most recent log whenever we focus the page or after actions
     useFocusEffect(
         useCallback(() => {
             const fetchMostRecentLog = async () => {
                 if (!activeDevice?.id) return;  // Ensure activeDevice and its ID exist
                 try {
-                    const logs = await getDeviceLogs(activeDevice.id);
-                    const sortedLogs = logs.sort(
-                        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-                    );
-                    if (sortedLogs.length > 0) {
-                        const latest = sortedLogs[0];
+                    const latest = await getLatestLog(activeDevice.id);
+                    if (latest) {
                         setLastAction({
                             action: latest.action,
                             timestamp: new Date(latest.timestamp),
@@ -46,23 +49,23 @@ export default function HomePage() {
             if (activeDevice?.id) { // Ensure activeDevice and ID exist
                 fetchMostRecentLog();
             }
-        }, [activeDevice?.id, getDeviceLogs]) // Correct dependencies
+        }, [activeDevice?.id, getLatestLog]) // Correct dependencies
     );
 
     // Simplified SMS sending functions, using the utility
     const handleOpenGate = async () => {
         if (!activeDevice) return;
-        await sendSMSCommand({ phoneNumber: activeDevice.unitNumber, command: formatSMSCommand(activeDevice.password, 'OPEN'), deviceId: activeDevice.id, setLoading: setIsSendingSms });
+        await sendGateCommand({ phoneNumber: activeDevice.unitNumber, command: { type: 'OPEN', password: activeDevice.password }, deviceId: activeDevice.id, model: activeDevice.type, setLoading: setIsSendingSms });
     };
 
     const handleCloseGate = async () => {
         if (!activeDevice) return;
-        await sendSMSCommand({ phoneNumber: activeDevice.unitNumber, command: formatSMSCommand(activeDevice.password, 'CLOSE'), deviceId: activeDevice.id, setLoading: setIsSendingSms });
+        await sendGateCommand({ phoneNumber: activeDevice.unitNumber, command: { type: 'CLOSE', password: activeDevice.password }, deviceId: activeDevice.id, model: activeDevice.type, setLoading: setIsSendingSms });
     };
 
     const handleCheckStatus = async () => {
         if (!activeDevice) return;
-        await sendSMSCommand({ phoneNumber: activeDevice.unitNumber, command: formatSMSCommand(activeDevice.password, 'STATUS'), deviceId: activeDevice.id, setLoading: setIsSendingSms });
+        await sendGateCommand({ phoneNumber: activeDevice.unitNumber, command: { type: 'STATUS', password: activeDevice.password }, deviceId: activeDevice.id, model: activeDevice.type, setLoading: setIsSendingSms });
     };
     
     const goToDeviceManagement = () => {
@@ -116,7 +119,34 @@ export default function HomePage() {
                                     )}
                                 </View>
                             </Text>
-                            <Text style={styles.devicePhone}> • {activeDevice.unitNumber}</Text>
+                            <Text style={styles.devicePhone}> • {formatPhoneForDisplay(activeDevice.unitNumber)}</Text>
+
+                            {activeDevice.status && (
+                                <View style={styles.deviceStatus}>
+                                    <View style={styles.deviceStatusRow}>
+                                        {activeDevice.status.relayOn !== undefined && (
+                                            <Text style={styles.deviceStatusItem}>Relay {activeDevice.status.relayOn ? 'ON' : 'OFF'}</Text>
+                                        )}
+                                        {activeDevice.status.accessMode && (
+                                            <Text style={styles.deviceStatusItem}>Access {activeDevice.status.accessMode}</Text>
+                                        )}
+                                        {activeDevice.status.latchTime && (
+                                            <Text style={styles.deviceStatusItem}>Latch {activeDevice.status.latchTime}</Text>
+                                        )}
+                                        {activeDevice.status.signal !== undefined && (
+                                            <Text style={styles.deviceStatusItem}>Signal {activeDevice.status.signal}/31</Text>
+                                        )}
+                                    </View>
+                                    {activeDevice.status.firmware && (
+                                        <Text style={styles.deviceStatusMeta}>Firmware {activeDevice.status.firmware}</Text>
+                                    )}
+                                    <Text style={styles.deviceStatusMeta}>
+                                        Last confirmed at {new Date(activeDevice.status.confirmedAt).toLocaleString()}
+                                    </Text>
+                                </View>
+                            )}
+
+                            <CommandStatusBanner deviceId={activeDevice.id} />
 
                             <View style={styles.actionGrid}>
                                 <TouchableOpacity style={styles.actionButton} onPress={handleOpenGate} disabled={isSendingSms}>
@@ -126,12 +156,14 @@ export default function HomePage() {
                                     <Text style={styles.actionText}>Open</Text>
                                 </TouchableOpacity>
 
+                                {supportsCommand(activeDevice.type, 'CLOSE') && (
                                 <TouchableOpacity style={styles.actionButton} onPress={handleCloseGate} disabled={isSendingSms}>
                                   <View style={[styles.iconContainer, { backgroundColor: colors.error }]}>
                                     <Ionicons name="lock-closed" size={28} color="white" />
                                   </View>
                                   <Text style={styles.actionText}>Close</Text>
                                 </TouchableOpacity>
+                                )}
 
                                 <TouchableOpacity style={styles.actionButton} onPress={handleCheckStatus} disabled={isSendingSms}>
                                   <View style={[styles.iconContainer, { backgroundColor: colors.warning }]}>
@@ -164,6 +196,20 @@ export default function HomePage() {
                                     : 'No recent activity'}
                             </Text>
                         </View>
+                        <TouchableOpacity
+                            style={styles.viewLogsButton}
+                            onPress={() => router.push({ pathname: '/reply-inbox', params: { deviceId: activeDevice.id } })}
+                        >
+                            <Text style={styles.viewLogsText}>Paste Device Reply</Text>
+                            <Ionicons name="chatbox-ellipses-outline" size={16} color={colors.primary} />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={styles.viewLogsButton}
+                            onPress={() => router.push({ pathname: '/gate-stats', params: { deviceId: activeDevice.id } })}
+                        >
+                            <Text style={styles.viewLogsText}>Usage Statistics</Text>
+                            <Ionicons name="stats-chart-outline" size={16} color={colors.primary} />
+                        </TouchableOpacity>
                         <TouchableOpacity
                             style={styles.viewLogsButton}
                             onPress={() => router.push('/(tabs)/logs')}
@@ -174,6 +220,26 @@ export default function HomePage() {
                     </Card>
                 )}
 
+                {expiringAccess.length > 0 && (
+                    <Card title="Temporary Access">
+                        <View style={styles.statusRow}>
+                            <Ionicons name="hourglass-outline" size={20} color={expiredCount > 0 ? colors.error : colors.warning} />
+                            <Text style={styles.statusValue}>
+                                {expiredCount > 0
+                                    ? `${expiredCount} user${expiredCount === 1 ? '' : 's'} past their access window`
+                                    : `${expiringAccess.length} user${expiringAccess.length === 1 ? '' : 's'} expire within 7 days`}
+                            </Text>
+                        </View>
+                        <TouchableOpacity
+                            style={styles.viewLogsButton}
+                            onPress={() => router.push('/expiring-access')}
+                        >
+                            <Text style={styles.viewLogsText}>Review Access</Text>
+                            <Ionicons name="chevron-forward" size={16} color={colors.primary} />
+                        </TouchableOpacity>
+                    </Card>
+                )}
+
                 {activeDevice && (
                     <Card title="Help & Support">
                         <View style={styles.supportSection}>
@@ -231,6 +297,28 @@ const styles = StyleSheet.create({
         fontSize: 16,
         color: colors.text.secondary,
     },
+    deviceStatus: {
+        marginTop: spacing.sm,
+        marginBottom: spacing.md,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.surfaceVariant,
+    },
+    deviceStatusRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginBottom: spacing.xs,
+    },
+    deviceStatusItem: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: colors.text.primary,
+        marginRight: spacing.md,
+    },
+    deviceStatusMeta: {
+        fontSize: 12,
+        color: colors.text.secondary,
+    },
     actionGrid: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -1,31 +1,105 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { StyleSheet, View, Text, FlatList, RefreshControl, Alert } from 'react-native';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { StyleSheet, View, Text, FlatList, RefreshControl, Alert, ScrollView, TextInput, TouchableOpacity } from 'react-native';
 import { useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Button } from '../components/Button';
 import { colors, spacing, borderRadius } from '../styles/theme';
 import { StandardHeader } from '../components/StandardHeader';
 import { useDataStore } from '../contexts/DataStoreContext'; // Consolidated context
-import { LogEntry } from '../../utils/DataStore'; // Import from DataStore
+import { CommandConfirmation, LogCategory, LogEntry } from '../utils/LogManager';
+import { LogQuery, LogResultFilter } from '../utils/logQuery';
+import { LogExportFormat } from '../utils/logExport';
+
+const CONFIRMATION_LABELS: Record<CommandConfirmation, string> = {
+  pending: 'Waiting for device…',
+  confirmed: 'Confirmed by device',
+  failed: 'Device reported failure',
+  timed_out: 'No reply from device',
+};
+
+const CATEGORY_FILTERS: { value: LogCategory; label: string }[] = [
+  { value: 'relay', label: 'Gate' },
+  { value: 'user', label: 'Users' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'system', label: 'System' },
+];
+
+const RESULT_FILTERS: { value: LogResultFilter; label: string }[] = [
+  { value: 'success', label: 'Succeeded' },
+  { value: 'failure', label: 'Failed' },
+];
+
+type DateRange = 'all' | 'today' | 'week' | 'month';
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the range as an ISO timestamp, undefined for all time
+const rangeStart = (range: DateRange): string | undefined => {
+  const now = new Date();
+  switch (range) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+    case 'week':
+      return new Date(now.getTime() - 7 * DAY_MS).toISOString();
+    case 'month':
+      return new Date(now.getTime() - 30 * DAY_MS).toISOString();
+    default:
+      return undefined;
+  }
+};
 
 export default function LogsPage() {
     const [logs, setLogs] = useState<LogEntry[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [total, setTotal] = useState(0);
     const [refreshing, setRefreshing] = useState(false);
-    const { store, getDeviceLogs, clearDeviceLogs } = useDataStore();
+    const [showAllDevices, setShowAllDevices] = useState(false);
+    const [search, setSearch] = useState('');
+    const [categories, setCategories] = useState<LogCategory[]>([]);
+    const [result, setResult] = useState<LogResultFilter>('all');
+    const [dateRange, setDateRange] = useState<DateRange>('all');
+    const [exporting, setExporting] = useState(false);
+    const { store, queryLogs, clearLogs, exportLogs } = useDataStore();
     const activeDevice = store.devices.find(d => d.id === store.globalSettings.activeDeviceId);
+    const allDevices = showAllDevices || !activeDevice;
 
-     const loadLogs = useCallback(async () => {
-        if (!activeDevice) return;
+    const query = useMemo<LogQuery>(() => ({
+        deviceId: allDevices ? undefined : activeDevice?.id,
+        categories,
+        result,
+        from: rangeStart(dateRange),
+        search,
+    }), [allDevices, activeDevice?.id, categories, result, dateRange, search]);
 
+    // Load the first page again whenever the query changes
+    const loadLogs = useCallback(async () => {
         try {
-            const deviceLogs = await getDeviceLogs(activeDevice.id);
-            setLogs(deviceLogs.sort((a, b) =>
-                new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-            ));
+            const page = await queryLogs(query);
+            setLogs(page.entries);
+            setNextCursor(page.nextCursor);
+            setTotal(page.total);
         } catch (error) {
             console.error('Failed to load logs:', error);
         }
-    }, [activeDevice?.id, getDeviceLogs]);
+    }, [query, queryLogs]);
+
+    const loadMore = useCallback(async () => {
+        if (!nextCursor) return;
+        try {
+            const page = await queryLogs(query, { cursor: nextCursor });
+            setLogs(prev => [...prev, ...page.entries]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            console.error('Failed to load more logs:', error);
+        }
+    }, [query, queryLogs, nextCursor]);
 
   // Refresh logs when the screen comes into focus
   useFocusEffect(
@@ -34,6 +108,12 @@ export default function LogsPage() {
     }, [loadLogs])
   );
 
+  const toggleCategory = (category: LogCategory) => {
+    setCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await loadLogs();
@@ -41,25 +121,57 @@ export default function LogsPage() {
   }, [loadLogs]);
 
   const handleClearLogs = () => {
-    if (!activeDevice) return;
-
     Alert.alert(
       'Clear Logs',
-      `Are you sure you want to clear all logs for ${activeDevice.name}?`,
+      allDevices
+        ? 'Are you sure you want to clear the logs of every gate?'
+        : `Are you sure you want to clear all logs for ${activeDevice?.name}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Clear',
           style: 'destructive',
           onPress: async () => {
-            await clearDeviceLogs(activeDevice.id);
-            setLogs([]);
+            await clearLogs(allDevices ? undefined : activeDevice?.id);
+            await loadLogs();
           }
         }
       ]
     );
   };
 
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // Every entry matching the current filters goes into the export, not just the loaded pages
+  const runExport = async (format: LogExportFormat) => {
+    setExporting(true);
+    await exportLogs(format, query);
+    setExporting(false);
+  };
+
+  const handleExportLogs = () => {
+    Alert.alert(
+      'Export Logs',
+      `Share the ${total} ${total === 1 ? 'entry' : 'entries'} matching the current filters. Passwords are always redacted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Spreadsheet (CSV)', onPress: () => runExport('csv') },
+        { text: 'Printable Report', onPress: () => runExport('html') },
+      ]
+    );
+  };
+
+  const deviceName = (deviceId?: string) =>
+    deviceId ? store.devices.find(d => d.id === deviceId)?.name || 'Removed gate' : 'System';
+
     const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString();
@@ -74,12 +186,15 @@ export default function LogsPage() {
           iconName = item.action.toLowerCase().includes('open') ? "lock-open-outline" : "lock-closed-outline";
           iconColor = item.success ? colors.success : colors.error;
           borderColor = item.success ? colors.success : colors.error;
+          if (item.confirmation === 'pending' || item.confirmation === 'timed_out') {
+            borderColor = colors.warning; // Sent, but the device has not confirmed it
+          }
           break;
-      case 'User Management':
+      case 'user':
         iconName = "people-outline";
         iconColor = colors.primary;
         break;
-      case 'Device Management':
+      case 'settings':
         iconName = "settings-outline";
         iconColor = colors.warning;
         break;
@@ -91,9 +206,16 @@ export default function LogsPage() {
             <Ionicons name={iconName} size={24} color={iconColor} />
             <View style={styles.logHeader}>
                 <Text style={styles.logAction}>{item.action}</Text>
-                <Text style={styles.logTime}>{formatDate(item.timestamp)}</Text>
+                <Text style={styles.logTime}>
+                  {allDevices ? `${deviceName(item.deviceId)} • ` : ''}{formatDate(item.timestamp)}
+                </Text>
             </View>
             {item.details && <Text style={styles.logDetails}>{item.details}</Text>}
+            {item.confirmation && (
+              <Text style={styles.logDetails}>
+                {CONFIRMATION_LABELS[item.confirmation]}
+              </Text>
+            )}
         </View>
       </View>
     );
@@ -103,19 +225,47 @@ export default function LogsPage() {
     <View style={styles.container}>
       <StandardHeader title="Activity Logs" />
 
-      {activeDevice && (
-        <View style={styles.deviceBanner}>
-          <Text style={styles.deviceInfoText}>
-            Showing logs for: {activeDevice.name}
-          </Text>
-        </View>
-      )}
+      <View style={styles.deviceBanner}>
+        <Text style={styles.deviceInfoText}>
+          {allDevices ? 'Showing logs for: all gates' : `Showing logs for: ${activeDevice?.name}`}
+          {total > 0 ? ` (${total})` : ''}
+        </Text>
+      </View>
+
+      <View style={styles.filters}>
+        <TextInput
+          style={styles.searchInput}
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Search actions and details"
+          placeholderTextColor={colors.text.disabled}
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {activeDevice && renderChip('This gate', !allDevices, () => setShowAllDevices(false))}
+          {renderChip('All gates', allDevices, () => setShowAllDevices(true))}
+          <View style={styles.chipDivider} />
+          {DATE_RANGES.map(range => renderChip(range.label, dateRange === range.value, () => setDateRange(range.value)))}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {CATEGORY_FILTERS.map(filter =>
+            renderChip(filter.label, categories.includes(filter.value), () => toggleCategory(filter.value))
+          )}
+          <View style={styles.chipDivider} />
+          {RESULT_FILTERS.map(filter =>
+            renderChip(filter.label, result === filter.value, () => setResult(result === filter.value ? 'all' : filter.value))
+          )}
+        </ScrollView>
+      </View>
 
       <FlatList
         data={logs}
         renderItem={renderLogItem}
-        keyExtractor={(item, index) => `${item.timestamp}-${index}`}
+        keyExtractor={item => item.id}
         contentContainerStyle={styles.logList}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Ionicons name="list-outline" size={64} color={colors.text.disabled} />
@@ -128,12 +278,22 @@ export default function LogsPage() {
       />
 
       {logs.length > 0 && (
-        <View style={styles.footer}>
+        <View style={[styles.footer, styles.footerActions]}>
+          <Button
+            title="Export"
+            onPress={handleExportLogs}
+            variant="secondary"
+            icon="share-outline"
+            loading={exporting}
+            disabled={exporting}
+            style={styles.footerButton}
+          />
           <Button
             title="Clear Logs"
             onPress={handleClearLogs}
             variant="secondary"
             icon="trash-outline"
+            style={styles.footerButton}
           />
         </View>
       )}
@@ -158,6 +318,52 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  filters: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  searchInput: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    fontSize: 14,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    alignItems: 'center',
+    paddingBottom: spacing.sm,
+  },
+  chip: {
+    backgroundColor: colors.surfaceVariant,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.pill,
+    marginRight: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: `${colors.primary}10`,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.primary,
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: colors.primary,
+  },
+  chipDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: colors.border,
+    marginRight: spacing.sm,
+  },
   logList: {
     padding: spacing.md,
     paddingBottom: 80, // Space for footer
@@ -214,6 +420,14 @@ const styles = StyleSheet.create({
     borderTopColor: colors.border,
     alignItems: 'center',
   },
+  footerActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing.sm,
+  },
+  footerButton: {
+    flex: 1,
+  },
   viewLogsButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,280 @@
+// app/(tabs)/settings.tsx
+import React from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Card } from '../components/Card';
+import { StandardHeader } from '../components/StandardHeader';
+import { colors, spacing, borderRadius } from '../styles/theme';
+import { useDataStore } from '../contexts/DataStoreContext';
+import { getAvailableSmsTransports, SmsTransportId } from '../utils/smsTransport';
+import { PHONE_COUNTRIES, PhoneCountryId } from '../utils/phoneNumbers';
+import type { LogCategory } from '../utils/LogManager';
+import {
+    DEFAULT_LOG_RETENTION,
+    formatMaxAge,
+    formatMaxEntries,
+    LogRetentionPolicy,
+    MAX_AGE_OPTIONS,
+    MAX_ENTRY_OPTIONS,
+} from '../utils/logRetention';
+
+const RETENTION_CATEGORIES: { value: LogCategory; label: string }[] = [
+    { value: 'relay', label: 'Gate' },
+    { value: 'user', label: 'Users' },
+    { value: 'settings', label: 'Settings' },
+    { value: 'system', label: 'System' },
+];
+
+export default function SettingsPage() {
+    const { store, updateGlobalSettings, countLogsRemovedBy } = useDataStore();
+    const activeTransportId: SmsTransportId = store.globalSettings.smsTransport || 'linking';
+
+    const selectTransport = async (id: SmsTransportId) => {
+        if (id === activeTransportId) return;
+        await updateGlobalSettings({ smsTransport: id });
+    };
+
+    const activeCountryId: PhoneCountryId = store.globalSettings.phoneCountry || 'AU';
+
+    const selectCountry = async (id: PhoneCountryId) => {
+        if (id === activeCountryId) return;
+        await updateGlobalSettings({ phoneCountry: id });
+    };
+
+    const retention: LogRetentionPolicy = store.globalSettings.logRetention || DEFAULT_LOG_RETENTION;
+
+    // Entries past the new limits are deleted as soon as it is saved, so say how many first
+    const updateRetention = async (changes: Partial<LogRetentionPolicy>) => {
+        const logRetention = { ...retention, ...changes };
+        const removed = await countLogsRemovedBy(logRetention);
+        if (removed === 0) {
+            await updateGlobalSettings({ logRetention });
+            return;
+        }
+        Alert.alert(
+            'Delete Log Entries',
+            `${removed.toLocaleString()} log entr${removed === 1 ? 'y is' : 'ies are'} outside the new limits and will be permanently deleted.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => updateGlobalSettings({ logRetention }) },
+            ]
+        );
+    };
+
+    // undefined falls back to the shared max age
+    const setCategoryMaxAge = async (category: LogCategory, maxAgeDays: number | null | undefined) => {
+        const { maxAgeDays: _previous, ...rule } = retention.categories?.[category] || {};
+        const categories = { ...retention.categories };
+        if (maxAgeDays !== undefined) categories[category] = { ...rule, maxAgeDays };
+        else if (Object.keys(rule).length > 0) categories[category] = rule;
+        else delete categories[category];
+        await updateRetention({ categories });
+    };
+
+    const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={isSelected ? undefined : onPress}
+        >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Settings" />
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                <Card title="SMS Delivery" elevated>
+                    <Text style={styles.sectionDescription}>
+                        Choose how commands are delivered to your gate
+                    </Text>
+
+                    <View style={styles.optionsContainer}>
+                        {getAvailableSmsTransports().map(transport => {
+                            const isSelected = transport.id === activeTransportId;
+                            return (
+                                <TouchableOpacity
+                                    key={transport.id}
+                                    style={[styles.optionButton, isSelected && styles.optionButtonSelected]}
+                                    onPress={() => selectTransport(transport.id)}
+                                >
+                                    <View style={styles.optionHeader}>
+                                        <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                                            {transport.name}
+                                        </Text>
+                                        {isSelected && (
+                                            <Ionicons name="checkmark-circle" size={20} color={colors.primary} />
+                                        )}
+                                    </View>
+                                    <Text style={styles.optionDescription}>{transport.description}</Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </Card>
+
+                <Card title="Phone Numbers" elevated>
+                    <Text style={styles.sectionDescription}>
+                        Numbers entered without a country code are read as belonging to this country
+                    </Text>
+
+                    <View style={styles.optionsContainer}>
+                        {Object.values(PHONE_COUNTRIES).map(country => {
+                            const isSelected = country.id === activeCountryId;
+                            return (
+                                <TouchableOpacity
+                                    key={country.id}
+                                    style={[styles.optionButton, isSelected && styles.optionButtonSelected]}
+                                    onPress={() => selectCountry(country.id)}
+                                >
+                                    <View style={styles.optionHeader}>
+                                        <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                                            {country.name}
+                                        </Text>
+                                        {isSelected && (
+                                            <Ionicons name="checkmark-circle" size={20} color={colors.primary} />
+                                        )}
+                                    </View>
+                                    <Text style={styles.optionDescription}>+{country.dialCode}</Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </Card>
+
+                <Card title="Log Retention" elevated>
+                    <Text style={styles.sectionDescription}>
+                        Older entries are removed from each gate's activity log once these limits are reached
+                    </Text>
+
+                    <Text style={styles.retentionLabel}>Entries kept per gate</Text>
+                    <View style={styles.chipRow}>
+                        {MAX_ENTRY_OPTIONS.map(value => renderChip(
+                            `entries-${value}`,
+                            formatMaxEntries(value),
+                            retention.maxEntries === value,
+                            () => updateRetention({ maxEntries: value })
+                        ))}
+                    </View>
+
+                    <Text style={styles.retentionLabel}>Keep entries for</Text>
+                    <View style={styles.chipRow}>
+                        {MAX_AGE_OPTIONS.map(value => renderChip(
+                            `age-${value}`,
+                            formatMaxAge(value),
+                            retention.maxAgeDays === value,
+                            () => updateRetention({ maxAgeDays: value })
+                        ))}
+                    </View>
+
+                    {RETENTION_CATEGORIES.map(({ value: category, label }) => {
+                        const override = retention.categories?.[category]?.maxAgeDays;
+                        return (
+                            <View key={category}>
+                                <Text style={styles.retentionLabel}>{label} entries</Text>
+                                <View style={styles.chipRow}>
+                                    {renderChip(
+                                        `${category}-default`,
+                                        'Default',
+                                        override === undefined,
+                                        () => setCategoryMaxAge(category, undefined)
+                                    )}
+                                    {MAX_AGE_OPTIONS.map(value => renderChip(
+                                        `${category}-${value}`,
+                                        formatMaxAge(value),
+                                        override === value,
+                                        () => setCategoryMaxAge(category, value)
+                                    ))}
+                                </View>
+                            </View>
+                        );
+                    })}
+                </Card>
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    sectionDescription: {
+        fontSize: 14,
+        color: colors.text.secondary,
+        marginBottom: spacing.md,
+    },
+    optionsContainer: {
+        flexDirection: 'column',
+        gap: spacing.md,
+    },
+    optionButton: {
+        borderWidth: 1,
+        borderColor: colors.border,
+        borderRadius: borderRadius.md,
+        padding: spacing.md,
+    },
+    optionButtonSelected: {
+        borderColor: colors.primary,
+        backgroundColor: `${colors.primary}10`,
+    },
+    optionHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.xs,
+    },
+    optionText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: colors.text.primary,
+    },
+    optionTextSelected: {
+        color: colors.primary,
+    },
+    optionDescription: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+    retentionLabel: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text.primary,
+        marginTop: spacing.sm,
+        marginBottom: spacing.xs,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    chip: {
+        backgroundColor: colors.surfaceVariant,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.pill,
+        borderWidth: 1,
+        borderColor: colors.border,
+    },
+    chipSelected: {
+        borderColor: colors.primary,
+        backgroundColor: `${colors.primary}10`,
+    },
+    chipText: {
+        fontSize: 13,
+        color: colors.text.primary,
+        fontWeight: '500',
+    },
+    chipTextSelected: {
+        color: colors.primary,
+    },
+});
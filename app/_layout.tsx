@@ -46,6 +46,48 @@ export default function RootLayout() {
                                     headerShown: false,
                                 }}
                             />
+                            <Stack.Screen
+                                name="reply-inbox"
+                                options={{
+                                    title: 'Device Reply',
+                                    headerShown: false,
+                                }}
+                            />
+                            <Stack.Screen
+                                name="user-edit"
+                                options={{
+                                    title: 'Edit User',
+                                    headerShown: false,
+                                }}
+                            />
+                            <Stack.Screen
+                                name="expiring-access"
+                                options={{
+                                    title: 'Temporary Access',
+                                    headerShown: false,
+                                }}
+                            />
+                            <Stack.Screen
+                                name="user-import"
+                                options={{
+                                    title: 'Import Users',
+                                    headerShown: false,
+                                }}
+                            />
+                            <Stack.Screen
+                                name="user-reconcile"
+                                options={{
+                                    title: 'Check Users on Device',
+                                    headerShown: false,
+                                }}
+                            />
+                            <Stack.Screen
+                                name="gate-stats"
+                                options={{
+                                    title: 'Usage Statistics',
+                                    headerShown: false,
+                                }}
+                            />
                         </Stack>
                         <StatusBar style="auto" />
                     </View>
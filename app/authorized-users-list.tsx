@@ -1,18 +1,25 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
 import { useFocusEffect, useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { StandardHeader } from './components/StandardHeader';
 import { useDataStore } from './contexts/DataStoreContext'; // Consolidated context
 import { colors, spacing, borderRadius } from './styles/theme';
 import { useAuthorizedUsers } from './hooks/useAuthorizedUsers';
-import { User } from './utils/DataStore'; // Import User from DataStore
+import { DeviceUser } from './utils/DataStore'; // Import DeviceUser from DataStore
+import { sendGateCommand } from './utils/smsUtils';
+import { getSlotSyncState } from './utils/userSlots';
+import { getQueuedSerials } from './utils/commandQueue';
+import { CommandQueueCard } from './components/CommandQueueCard';
+import { formatAccessWindow } from './utils/accessWindow';
+import { formatPhoneForDisplay } from './utils/phoneNumbers';
 
 export default function AuthorizedUsersList() {
     const router = useRouter();
     const params = useLocalSearchParams();
-    const { store, getDeviceById } = useDataStore();
+    const { store, getDeviceById, getDeviceCommands, updateSlot, freeSlot } = useDataStore();
     const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+    const [busySerial, setBusySerial] = useState<string | null>(null);
     const { users: authorizedUsers, isLoading, loadUsers } = useAuthorizedUsers(deviceId);
 
     useEffect(() => {
@@ -23,28 +30,131 @@ export default function AuthorizedUsersList() {
         }
     }, [params.deviceId, store.globalSettings.activeDeviceId]);
 
-    // Helper function to format date/time
-    const formatAccessTime = (timeString) => {
-        if (!timeString || timeString.length !== 10) return timeString;
+    const deviceCommands = deviceId ? getDeviceCommands(deviceId) : [];
+    const queuedSerials = deviceId ? getQueuedSerials(store.batches, deviceId) : [];
 
+    // Send DELETE_USER; the slot is only freed once the device confirms the deletion
+    const sendDeleteUser = async (user: DeviceUser) => {
+        const device = deviceId ? getDeviceById(deviceId) : undefined;
+        if (!device) return;
+
+        setBusySerial(user.serialNumber);
+        try {
+            // Mark first so a fast reply finds the slot waiting to be freed
+            await updateSlot(device.id, user.serialNumber, { status: 'removing' });
+            const sent = await sendGateCommand({
+                phoneNumber: device.unitNumber,
+                command: { type: 'DELETE_USER', password: device.password, serial: user.serialNumber },
+                deviceId: device.id,
+                model: device.type,
+            });
+            if (!sent) {
+                await updateSlot(device.id, user.serialNumber, { status: user.status });
+            }
+        } finally {
+            setBusySerial(null);
+        }
+    };
+
+    // Provision the slot again after an add the device never confirmed
+    const resendAddUser = async (user: DeviceUser) => {
+        const device = deviceId ? getDeviceById(deviceId) : undefined;
+        if (!device) return;
+
+        setBusySerial(user.serialNumber);
         try {
-            const year = `20${timeString.slice(0, 2)}`;
-            const month = timeString.slice(2, 4);
-            const day = timeString.slice(4, 6);
-            const hour = timeString.slice(6, 8);
-            const minute = timeString.slice(8, 10);
+            await sendGateCommand({
+                phoneNumber: device.unitNumber,
+                command: {
+                    type: 'ADD_USER',
+                    password: device.password,
+                    serial: user.serialNumber,
+                    phone: user.phoneNumber,
+                    startTime: user.startTime,
+                    endTime: user.endTime,
+                },
+                deviceId: device.id,
+                model: device.type,
+            });
+        } finally {
+            setBusySerial(null);
+        }
+    };
 
-            const months = [
-                'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-                'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-            ];
+    const handleRemoveUser = (user: DeviceUser) => {
+        if (!deviceId) return;
+        const name = user.name || user.phoneNumber;
 
-            const monthName = months[parseInt(month) - 1] || month;
+        if (user.status === 'removing' && getSlotSyncState(user, deviceCommands, queuedSerials) === 'out_of_sync') {
+            Alert.alert(
+                'Removal Not Confirmed',
+                `The device never confirmed that ${name} was removed from position ${user.serialNumber}. They may still be able to open the gate.`,
+                [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Remove From App Only', style: 'destructive', onPress: () => freeSlot(deviceId, user.serialNumber) },
+                    { text: 'Send Again', onPress: () => sendDeleteUser(user) },
+                ]
+            );
+            return;
+        }
 
-            return `${monthName} ${parseInt(day)}, ${year} ${hour}:${minute}`;
-        } catch (error) {
-            return timeString;
+        Alert.alert(
+            'Remove User',
+            `Send a command to remove ${name} from position ${user.serialNumber}? They stay listed until the device confirms.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Remove', style: 'destructive', onPress: () => sendDeleteUser(user) },
+            ]
+        );
+    };
+
+    const handleOutOfSync = (user: DeviceUser) => {
+        if (user.status === 'removing') {
+            handleRemoveUser(user);
+            return;
+        }
+        Alert.alert(
+            'Not Confirmed by Device',
+            `The device never confirmed ${user.name || user.phoneNumber} at position ${user.serialNumber}. Send the user to the device again?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Send Again', onPress: () => resendAddUser(user) },
+            ]
+        );
+    };
+
+    const renderSyncBadge = (user: DeviceUser) => {
+        const syncState = getSlotSyncState(user, deviceCommands, queuedSerials);
+        if (syncState === 'synced') return null;
+
+        if (syncState === 'queued') {
+            return (
+                <View style={[styles.syncBadge, { backgroundColor: `${colors.primary}15` }]}>
+                    <Ionicons name="layers-outline" size={12} color={colors.primary} />
+                    <Text style={[styles.syncBadgeText, { color: colors.primary }]}>Queued</Text>
+                </View>
+            );
+        }
+
+        if (syncState === 'awaiting') {
+            return (
+                <View style={[styles.syncBadge, { backgroundColor: `${colors.warning}20` }]}>
+                    <Ionicons name="hourglass-outline" size={12} color={colors.warning} />
+                    <Text style={[styles.syncBadgeText, { color: colors.warning }]}>
+                        {user.status === 'removing' ? 'Removing…' : 'Adding…'}
+                    </Text>
+                </View>
+            );
         }
+        return (
+            <TouchableOpacity
+                style={[styles.syncBadge, { backgroundColor: `${colors.error}15` }]}
+                onPress={() => handleOutOfSync(user)}
+            >
+                <Ionicons name="sync-outline" size={12} color={colors.error} />
+                <Text style={[styles.syncBadgeText, { color: colors.error }]}>Out of sync</Text>
+            </TouchableOpacity>
+        );
     };
 
     // Go back to the user management page (step3)
@@ -88,6 +198,8 @@ export default function AuthorizedUsersList() {
                 </View>
             ) : (
                 <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                    <CommandQueueCard deviceId={deviceId} />
+
                     <View style={styles.infoCard}>
                         <Ionicons name="information-circle-outline" size={24} color={colors.primary} style={styles.infoIcon} />
                         <Text style={styles.infoText}>
@@ -108,30 +220,45 @@ export default function AuthorizedUsersList() {
                             >
                                 <View style={styles.userHeader}>
                                     <Text style={styles.userName}>{user.name || `User ${index + 1}`}</Text>
-                                    <Text style={styles.userSerial}>#{user.serialNumber || (index + 1).toString().padStart(3, '0')}</Text>
+                                    <View style={styles.userHeaderRight}>
+                                        <Text style={styles.userSerial}>#{user.serialNumber || (index + 1).toString().padStart(3, '0')}</Text>
+                                        {busySerial === user.serialNumber ? (
+                                            <ActivityIndicator size="small" color={colors.error} style={styles.removeButton} />
+                                        ) : (
+                                            <>
+                                                <TouchableOpacity
+                                                    style={styles.removeButton}
+                                                    onPress={() => router.push({
+                                                        pathname: '/user-edit',
+                                                        params: { deviceId, userId: user.id }
+                                                    })}
+                                                    disabled={busySerial !== null || user.status === 'removing'}
+                                                >
+                                                    <Ionicons name="create-outline" size={20} color={colors.primary} />
+                                                </TouchableOpacity>
+                                                <TouchableOpacity
+                                                    style={styles.removeButton}
+                                                    onPress={() => handleRemoveUser(user)}
+                                                    disabled={busySerial !== null}
+                                                >
+                                                    <Ionicons name="trash-outline" size={20} color={colors.error} />
+                                                </TouchableOpacity>
+                                            </>
+                                        )}
+                                    </View>
                                 </View>
+                                {renderSyncBadge(user)}
 
                                 <View style={styles.userDetails}>
                                     <View style={styles.detailRow}>
                                         <Text style={styles.detailLabel}>Phone:</Text>
-                                        <Text style={styles.detailValue}>{user.phoneNumber || 'N/A'}</Text>
+                                        <Text style={styles.detailValue}>{user.phoneNumber ? formatPhoneForDisplay(user.phoneNumber) : 'N/A'}</Text>
                                     </View>
 
-                                    {(user.startTime && user.endTime) ? (
-                                        <View style={styles.detailRow}>
-                                            <Text style={styles.detailLabel}>Access:</Text>
-                                            <View style={styles.accessTimes}>
-                                                <Text style={styles.detailValue}>
-                                                    {formatAccessTime(user.startTime)} - {formatAccessTime(user.endTime)}
-                                                </Text>
-                                            </View>
-                                        </View>
-                                    ) : (
-                                        <View style={styles.detailRow}>
-                                            <Text style={styles.detailLabel}>Access:</Text>
-                                            <Text style={styles.detailValue}>Unlimited (No time restrictions)</Text>
-                                        </View>
-                                    )}
+                                    <View style={styles.detailRow}>
+                                        <Text style={styles.detailLabel}>Access:</Text>
+                                        <Text style={styles.detailValue}>{formatAccessWindow(user.startTime, user.endTime)}</Text>
+                                    </View>
                                 </View>
                             </View>
                         ))
@@ -217,6 +344,28 @@ const styles = StyleSheet.create({
       alignItems: 'center',
       marginBottom: spacing.sm,
     },
+    userHeaderRight: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    removeButton: {
+      marginLeft: spacing.sm,
+      padding: 4,
+    },
+    syncBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 12,
+      marginBottom: spacing.sm,
+    },
+    syncBadgeText: {
+      fontSize: 12,
+      fontWeight: '500',
+      marginLeft: 4,
+    },
     userName: {
       fontSize: 16,
       fontWeight: '600',
@@ -248,9 +397,6 @@ const styles = StyleSheet.create({
       flex: 1,
       color: colors.text.primary,
     },
-    accessTimes: {
-      flex: 1,
-    },
     timeFormat: {
       fontSize: 12,
       color: colors.text.disabled,
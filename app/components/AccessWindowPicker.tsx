@@ -0,0 +1,163 @@
+// app/components/AccessWindowPicker.tsx
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, borderRadius } from '../styles/theme';
+import { useTheme } from '../contexts/ThemeContext';
+import { CommandLimits } from '../utils/gateCommands';
+import {
+  AccessWindow,
+  createDefaultWindow,
+  formatDateTime,
+  validateAccessWindow,
+} from '../utils/accessWindow';
+
+interface AccessWindowPickerProps {
+  value: AccessWindow | null; // null means unlimited access
+  onChange: (window: AccessWindow | null) => void;
+  limits: Pick<CommandLimits, 'model' | 'supportsTimeWindows'>;
+  disabled?: boolean;
+}
+
+type Edge = 'start' | 'end';
+
+// Picks both ends of a user's access window. Android has no combined date and time
+// picker, so the date is chosen first and the time straight after.
+export function AccessWindowPicker({ value, onChange, limits, disabled }: AccessWindowPickerProps) {
+  const { colors } = useTheme();
+  const [editing, setEditing] = useState<{ edge: Edge; mode: 'date' | 'time' | 'datetime' } | null>(null);
+
+  if (!limits.supportsTimeWindows) return null;
+
+  const errors = validateAccessWindow(value, limits);
+
+  const openPicker = (edge: Edge) => {
+    setEditing({ edge, mode: Platform.OS === 'android' ? 'date' : 'datetime' });
+  };
+
+  const handlePicked = (event: DateTimePickerEvent, date?: Date) => {
+    if (!editing || !value) return;
+    if (event.type === 'dismissed' || !date) {
+      setEditing(null);
+      return;
+    }
+
+    onChange({ ...value, [editing.edge]: date });
+    if (Platform.OS === 'android') {
+      setEditing(editing.mode === 'date' ? { ...editing, mode: 'time' } : null);
+    }
+  };
+
+  if (!value) {
+    return (
+      <TouchableOpacity
+        style={[styles.addButton, { backgroundColor: `${colors.primary}10` }]}
+        onPress={() => onChange(createDefaultWindow())}
+        disabled={disabled}
+      >
+        <Ionicons name="time-outline" size={18} color={colors.primary} />
+        <Text style={[styles.addButtonText, { color: colors.primary }]}>Add Time Restrictions</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const renderEdge = (edge: Edge, label: string) => (
+    <TouchableOpacity
+      style={[
+        styles.edgeRow,
+        { borderColor: editing?.edge === edge ? colors.primary : colors.border, backgroundColor: colors.surface },
+      ]}
+      onPress={() => openPicker(edge)}
+      disabled={disabled}
+    >
+      <Text style={[styles.edgeLabel, { color: colors.text.secondary }]}>{label}</Text>
+      <Text style={[styles.edgeValue, { color: colors.text.primary }]}>{formatDateTime(value[edge])}</Text>
+      <Ionicons name="calendar-outline" size={18} color={colors.primary} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {renderEdge('start', 'Start')}
+      {renderEdge('end', 'End')}
+
+      {editing && (
+        <DateTimePicker
+          value={value[editing.edge]}
+          mode={editing.mode}
+          display={Platform.OS === 'ios' ? 'inline' : 'default'}
+          minimumDate={editing.edge === 'end' ? value.start : undefined}
+          onChange={handlePicked}
+        />
+      )}
+      {editing && Platform.OS === 'ios' && (
+        <TouchableOpacity style={styles.doneButton} onPress={() => setEditing(null)}>
+          <Text style={[styles.linkText, { color: colors.primary }]}>Done</Text>
+        </TouchableOpacity>
+      )}
+
+      {errors.map(error => (
+        <Text key={error} style={[styles.errorText, { color: colors.error }]}>{error}</Text>
+      ))}
+
+      <TouchableOpacity
+        onPress={() => {
+          setEditing(null);
+          onChange(null);
+        }}
+        disabled={disabled}
+      >
+        <Text style={[styles.linkText, { color: colors.error }]}>Remove Time Restrictions</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.md,
+  },
+  addButtonText: {
+    fontWeight: '500',
+    marginLeft: spacing.xs,
+  },
+  edgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  edgeLabel: {
+    width: 48,
+    fontSize: 14,
+  },
+  edgeValue: {
+    flex: 1,
+    fontSize: 16,
+  },
+  doneButton: {
+    alignItems: 'flex-end',
+    marginBottom: spacing.sm,
+  },
+  errorText: {
+    fontSize: 12,
+    marginBottom: spacing.xs,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+});
@@ -0,0 +1,97 @@
+// app/components/BarChart.tsx
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Svg, Rect, Line, Text as SvgText } from 'react-native-svg';
+import { useTheme } from '../contexts/ThemeContext';
+
+export interface BarChartDatum {
+  label: string;
+  value: number;
+  highlight?: number; // Part of the value drawn in the highlight colour, e.g. failures
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  height?: number;
+  labelEvery?: number; // Show every nth label when bars are too narrow for all of them
+  showValues?: boolean;
+}
+
+const LABEL_HEIGHT = 16;
+const VALUE_HEIGHT = 14;
+const BAR_GAP = 0.25; // Share of each slot left empty
+
+// Vertical bars scaled to the largest value, sized to the width the chart is given
+export function BarChart({ data, height = 140, labelEvery = 1, showValues = false }: BarChartProps) {
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const max = Math.max(1, ...data.map(datum => datum.value));
+  const plotHeight = height - LABEL_HEIGHT - (showValues ? VALUE_HEIGHT : 0);
+  const plotTop = height - LABEL_HEIGHT - plotHeight;
+  const slot = data.length > 0 ? width / data.length : 0;
+  const barWidth = Math.max(1, slot * (1 - BAR_GAP));
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={onLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {data.map((datum, index) => {
+            const x = index * slot + (slot - barWidth) / 2;
+            const barHeight = (datum.value / max) * plotHeight;
+            const highlightHeight = ((datum.highlight || 0) / max) * plotHeight;
+            const baseline = plotTop + plotHeight;
+            return (
+              <React.Fragment key={`${datum.label}-${index}`}>
+                {barHeight > 0 && (
+                  <Rect x={x} y={baseline - barHeight} width={barWidth} height={barHeight} rx={2} fill={colors.primary} />
+                )}
+                {highlightHeight > 0 && (
+                  <Rect x={x} y={baseline - highlightHeight} width={barWidth} height={highlightHeight} rx={2} fill={colors.error} />
+                )}
+                {showValues && datum.value > 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={baseline - barHeight - 3}
+                    fontSize={10}
+                    fill={colors.text.secondary}
+                    textAnchor="middle"
+                  >
+                    {datum.value}
+                  </SvgText>
+                )}
+                {index % labelEvery === 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={height - 3}
+                    fontSize={10}
+                    fill={colors.text.secondary}
+                    textAnchor="middle"
+                  >
+                    {datum.label}
+                  </SvgText>
+                )}
+              </React.Fragment>
+            );
+          })}
+          <Line
+            x1={0}
+            y1={plotTop + plotHeight}
+            x2={width}
+            y2={plotTop + plotHeight}
+            stroke={colors.border}
+            strokeWidth={1}
+          />
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
@@ -1,41 +1,47 @@
-// app/components/CustomIcons.tsx
+// app/components/Card.tsx
 import React from 'react';
-import { Svg, Path } from 'react-native-svg';
-import { Ionicons } from '@expo/vector-icons';
-import { mapIoniconName } from '../utils/iconMapping';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { spacing, borderRadius, shadows } from '../styles/theme';
+import { useTheme } from '../contexts/ThemeContext';
 
-interface IconProps {
-  color?: string;
-  size?: number;
-  strokeWidth?: number;
+interface CardProps {
+  title?: string;
+  elevated?: boolean; // Raised with a shadow to mark the main section of a screen
+  style?: StyleProp<ViewStyle>;
+  children?: React.ReactNode;
 }
 
-export function Gate({ color = 'currentColor', size = 24, strokeWidth = 2 }: IconProps) {
+// A titled section of a screen
+export function Card({ title, elevated = false, style, children }: CardProps) {
+  const { colors } = useTheme();
+
   return (
-    <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
-      <Path d="M3 21V7h18v14" />
-      <Path d="M21 11H3" />
-      <Path d="M7 11v10" />
-      <Path d="M17 11v10" />
-      <Path d="M11 11v6" />
-      <Path d="M13 11v6" />
-      <Path d="M12 3v4" />
-      <Path d="M10 5h4" />
-    </Svg>
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+        elevated ? shadows.md : shadows.sm,
+        style,
+      ]}
+    >
+      {title ? <Text style={[styles.title, { color: colors.text.primary }]}>{title}</Text> : null}
+      {children}
+    </View>
   );
 }
 
-interface CustomIconProps {
-    name: string;
-    size?: number;
-    color?: string;
-}
-
-// A wrapper around Ionicons with name mapping
-export function CustomIcon({ name, size = 24, color = 'black' }: CustomIconProps) {
-    const mappedName = mapIoniconName(name);
-    return <Ionicons name={mappedName as any} size={size} color={color} />;
-}
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+});
 
-// Export as default for expo-router compatibility
-export default CustomIcon;
\ No newline at end of file
+export default Card;
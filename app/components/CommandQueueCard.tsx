@@ -0,0 +1,175 @@
+// app/components/CommandQueueCard.tsx
+import React from 'react';
+import { View, Text, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, borderRadius } from '../styles/theme';
+import { useTheme } from '../contexts/ThemeContext';
+import { useDataStore } from '../contexts/DataStoreContext';
+import { Button } from './Button';
+import { CommandBatch, getBatchProgress } from '../utils/commandQueue';
+
+interface CommandQueueCardProps {
+  deviceId?: string; // Every device's batches when omitted
+}
+
+// Progress and controls for queued command batches that have not finished sending
+export function CommandQueueCard({ deviceId }: CommandQueueCardProps) {
+  const { colors } = useTheme();
+  const {
+    getDeviceById,
+    getCommandBatches,
+    runCommandBatch,
+    pauseCommandBatch,
+    retryCommandBatch,
+    removeCommandBatch,
+    runningBatchId,
+  } = useDataStore();
+
+  const batches = getCommandBatches(deviceId);
+  if (batches.length === 0) return null;
+
+  // Unsent adds and deletes leave their slots out of sync with the device
+  const confirmDiscard = (batch: CommandBatch) => {
+    const { remaining, failed } = getBatchProgress(batch);
+    Alert.alert(
+      'Discard Queue',
+      `${remaining + failed} command${remaining + failed === 1 ? '' : 's'} will not be sent. Users they were for will show as out of sync.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => removeCommandBatch(batch.id) },
+      ]
+    );
+  };
+
+  const renderBatch = (batch: CommandBatch) => {
+    const progress = getBatchProgress(batch);
+    const isRunning = runningBatchId === batch.id;
+    const device = deviceId ? undefined : getDeviceById(batch.deviceId);
+    const failedItems = batch.items.filter(item => item.state === 'failed');
+
+    let status = `${progress.sent} of ${progress.total} sent`;
+    if (progress.failed > 0) status += ` • ${progress.failed} failed`;
+    if (isRunning) status += ' • Sending…';
+    else if (batch.paused && progress.remaining > 0) status += ' • Paused';
+
+    return (
+      <View key={batch.id} style={[styles.batch, { borderColor: colors.border, backgroundColor: colors.surface }]}>
+        <View style={styles.titleRow}>
+          {isRunning ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="layers-outline" size={18} color={colors.primary} />
+          )}
+          <Text style={[styles.title, { color: colors.text.primary }]}>
+            {batch.title}{device ? ` • ${device.name}` : ''}
+          </Text>
+        </View>
+
+        <View style={[styles.progressTrack, { backgroundColor: colors.surfaceVariant }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { backgroundColor: colors.success, width: `${(progress.sent / progress.total) * 100}%` },
+            ]}
+          />
+        </View>
+        <Text style={[styles.status, { color: colors.text.secondary }]}>{status}</Text>
+
+        {failedItems.slice(0, 3).map(item => (
+          <Text key={item.id} style={[styles.failure, { color: colors.error }]}>
+            {item.label}: {item.error || 'Not sent'}
+          </Text>
+        ))}
+        {failedItems.length > 3 && (
+          <Text style={[styles.failure, { color: colors.error }]}>and {failedItems.length - 3} more</Text>
+        )}
+
+        <View style={styles.actions}>
+          {isRunning ? (
+            <Button title="Pause" size="sm" variant="outline" icon="pause" onPress={() => pauseCommandBatch(batch.id)} />
+          ) : (
+            <>
+              {progress.remaining > 0 && (
+                <Button
+                  title="Resume"
+                  size="sm"
+                  icon="play"
+                  disabled={!!runningBatchId}
+                  onPress={() => runCommandBatch(batch.id)}
+                  style={styles.action}
+                />
+              )}
+              {progress.failed > 0 && (
+                <Button
+                  title={`Retry Failed (${progress.failed})`}
+                  size="sm"
+                  variant="outline"
+                  icon="refresh"
+                  disabled={!!runningBatchId}
+                  onPress={() => retryCommandBatch(batch.id)}
+                  style={styles.action}
+                />
+              )}
+              <Button
+                title="Discard"
+                size="sm"
+                variant="ghost"
+                onPress={() => confirmDiscard(batch)}
+                style={styles.action}
+              />
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return <View style={styles.container}>{batches.map(renderBatch)}</View>;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+  },
+  batch: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: spacing.sm,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: borderRadius.pill,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: spacing.xs,
+  },
+  failure: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: spacing.sm,
+  },
+  action: {
+    marginRight: spacing.sm,
+  },
+});
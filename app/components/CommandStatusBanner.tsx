@@ -0,0 +1,79 @@
+// app/components/CommandStatusBanner.tsx
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, borderRadius } from '../styles/theme';
+import { useTheme } from '../contexts/ThemeContext';
+import { useDataStore } from '../contexts/DataStoreContext';
+
+interface CommandStatusBannerProps {
+  deviceId?: string;
+}
+
+// Shows where the most recent command to a device is in its lifecycle
+export function CommandStatusBanner({ deviceId }: CommandStatusBannerProps) {
+  const { colors } = useTheme();
+  const { getDeviceCommands } = useDataStore();
+  if (!deviceId) return null;
+
+  const latest = getDeviceCommands(deviceId)[0];
+  if (!latest) return null;
+
+  const time = new Date(latest.updatedAt).toLocaleTimeString();
+  let message: string;
+  let color: string;
+  let icon: 'checkmark-circle' | 'alert-circle' | 'time-outline' | null = null;
+
+  switch (latest.state) {
+    case 'sent':
+      message = `${latest.action} sent, waiting for device…`;
+      color = colors.warning;
+      break;
+    case 'awaiting':
+      message = `Waiting for device to confirm ${latest.action}…`;
+      color = colors.warning;
+      break;
+    case 'confirmed':
+      message = `${latest.action} confirmed by device at ${time}`;
+      color = colors.success;
+      icon = 'checkmark-circle';
+      break;
+    case 'failed':
+      message = `Device reported ${latest.action} failed${latest.reply ? `: ${latest.reply}` : ''}`;
+      color = colors.error;
+      icon = 'alert-circle';
+      break;
+    case 'timed_out':
+      message = `No reply to ${latest.action} since ${new Date(latest.createdAt).toLocaleTimeString()}. Check the gate before retrying.`;
+      color = colors.error;
+      icon = 'time-outline';
+      break;
+  }
+
+  return (
+    <View style={[styles.container, { borderColor: color, backgroundColor: `${color}15` }]}>
+      {icon ? (
+        <Ionicons name={icon} size={18} color={color} />
+      ) : (
+        <ActivityIndicator size="small" color={color} />
+      )}
+      <Text style={[styles.text, { color: colors.text.primary }]}>{message}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  text: {
+    fontSize: 14,
+    marginLeft: spacing.sm,
+    flex: 1,
+  },
+});
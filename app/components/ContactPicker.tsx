@@ -0,0 +1,273 @@
+// app/components/ContactPicker.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import * as Contacts from 'expo-contacts';
+import { Ionicons } from '@expo/vector-icons';
+import { spacing, borderRadius } from '../styles/theme';
+import { useTheme } from '../contexts/ThemeContext';
+import { Button } from './Button';
+import { DeviceUser } from '../utils/DataStore';
+import { formatPhoneForDisplay, phoneMatchKey, toDevicePhoneNumber } from '../utils/phoneNumbers';
+
+export interface PickedContact {
+  key: string;          // Contact id plus number, one per phone number
+  name: string;
+  phoneNumber: string;  // Digits as the device expects them
+  label?: string;       // "mobile", "home", ...
+}
+
+interface ContactPickerProps {
+  visible: boolean;
+  multiple?: boolean;
+  existingUsers: DeviceUser[]; // Users already on the device, shown but not selectable
+  onClose: () => void;
+  onSelect: (contacts: PickedContact[]) => void;
+}
+
+type PermissionState = 'loading' | 'granted' | 'denied';
+
+// Every number of every contact becomes its own row, since a resident's mobile and
+// landline are separate slots on the device
+const toPickedContacts = (contacts: Contacts.Contact[]): PickedContact[] =>
+  contacts.flatMap(contact =>
+    (contact.phoneNumbers || [])
+      .map((phone, index) => ({
+        key: `${contact.id}_${index}`,
+        name: contact.name || 'Unnamed User',
+        phoneNumber: toDevicePhoneNumber(phone.number || '') || '',
+        label: phone.label,
+      }))
+      .filter(picked => picked.phoneNumber)
+  );
+
+export function ContactPicker({ visible, multiple, existingUsers, onClose, onSelect }: ContactPickerProps) {
+  const { colors } = useTheme();
+  const [permission, setPermission] = useState<PermissionState>('loading');
+  const [contacts, setContacts] = useState<PickedContact[]>([]);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]); // phoneMatchKey of each chosen number
+
+  useEffect(() => {
+    if (!visible) return;
+    setSearch('');
+    setSelected([]);
+
+    const loadContacts = async () => {
+      setPermission('loading');
+      try {
+        const { status } = await Contacts.requestPermissionsAsync();
+        if (status !== 'granted') {
+          setPermission('denied');
+          return;
+        }
+        const { data } = await Contacts.getContactsAsync({
+          fields: [Contacts.Fields.Name, Contacts.Fields.PhoneNumbers],
+          sort: Contacts.SortTypes.FirstName,
+        });
+        setContacts(toPickedContacts(data));
+        setPermission('granted');
+      } catch (error) {
+        console.error('Failed to load contacts:', error);
+        setPermission('denied');
+      }
+    };
+    loadContacts();
+  }, [visible]);
+
+  // Matched on the parsed number so 04xx and 00614xx are the same person
+  const existingByPhone = useMemo(
+    () => new Map(existingUsers.map(user => [phoneMatchKey(user.phoneNumber), user])),
+    [existingUsers]
+  );
+  const findExisting = (contact: PickedContact) => existingByPhone.get(phoneMatchKey(contact.phoneNumber));
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return contacts;
+    const digits = query.replace(/\D/g, '');
+    // Typed digits may be in the local form (04xx) or the stored one (00614xx)
+    const matchesDigits = (contact: PickedContact) =>
+      contact.phoneNumber.includes(digits) || formatPhoneForDisplay(contact.phoneNumber).replace(/\D/g, '').includes(digits);
+    return contacts.filter(contact =>
+      contact.name.toLowerCase().includes(query) || (digits && matchesDigits(contact))
+    );
+  }, [contacts, search]);
+
+  const handlePress = (contact: PickedContact) => {
+    if (!multiple) {
+      onSelect([contact]);
+      return;
+    }
+    // Chosen by number, so a number saved under two contacts is only added once
+    const phoneKey = phoneMatchKey(contact.phoneNumber);
+    setSelected(prev =>
+      prev.includes(phoneKey) ? prev.filter(key => key !== phoneKey) : [...prev, phoneKey]
+    );
+  };
+
+  const renderContact = ({ item }: { item: PickedContact }) => {
+    const existing = findExisting(item);
+    const isSelected = selected.includes(phoneMatchKey(item.phoneNumber));
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, { borderBottomColor: colors.border }, existing && styles.rowDisabled]}
+        onPress={() => handlePress(item)}
+        disabled={!!existing}
+      >
+        {multiple && (
+          <Ionicons
+            name={isSelected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={existing ? colors.text.secondary : colors.primary}
+            style={styles.checkbox}
+          />
+        )}
+        <View style={styles.rowText}>
+          <Text style={[styles.name, { color: colors.text.primary }]}>{item.name}</Text>
+          <Text style={[styles.details, { color: colors.text.secondary }]}>
+            {item.label ? `${item.label} • ` : ''}{formatPhoneForDisplay(item.phoneNumber)}
+          </Text>
+          {existing && (
+            <Text style={[styles.details, { color: colors.warning }]}>
+              Already on this device as {existing.name} (#{existing.serialNumber})
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderBody = () => {
+    if (permission === 'loading') {
+      return <ActivityIndicator style={styles.centered} size="large" color={colors.primary} />;
+    }
+    if (permission === 'denied') {
+      return (
+        <Text style={[styles.emptyText, { color: colors.text.secondary }]}>
+          Contacts permission is needed to pick users. You can allow it in your phone's settings.
+        </Text>
+      );
+    }
+    return (
+      <FlatList
+        data={filtered}
+        keyExtractor={item => item.key}
+        renderItem={renderContact}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: colors.text.secondary }]}>No contacts with a phone number found</Text>
+        }
+      />
+    );
+  };
+
+  // The first contact listed for each chosen number
+  const selectedContacts = selected
+    .map(phoneKey => contacts.find(contact => phoneMatchKey(contact.phoneNumber) === phoneKey))
+    .filter((contact): contact is PickedContact => !!contact);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.text.primary }]}>
+            {multiple ? 'Choose Contacts' : 'Choose a Contact'}
+          </Text>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={24} color={colors.text.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {permission === 'granted' && (
+          <TextInput
+            style={[styles.search, { backgroundColor: colors.surfaceVariant, color: colors.text.primary }]}
+            value={search}
+            onChangeText={setSearch}
+            placeholder="Search name or number"
+            placeholderTextColor={colors.text.secondary}
+            autoCorrect={false}
+          />
+        )}
+
+        <View style={styles.list}>{renderBody()}</View>
+
+        {multiple && permission === 'granted' && (
+          <Button
+            title={`Add ${selectedContacts.length} Contact${selectedContacts.length === 1 ? '' : 's'}`}
+            onPress={() => onSelect(selectedContacts)}
+            disabled={selectedContacts.length === 0}
+            icon="people-outline"
+            fullWidth
+          />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  search: {
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    fontSize: 16,
+    marginBottom: spacing.sm,
+  },
+  list: {
+    flex: 1,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+  },
+  rowDisabled: {
+    opacity: 0.6,
+  },
+  checkbox: {
+    marginRight: spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  details: {
+    fontSize: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: spacing.lg,
+  },
+  centered: {
+    marginTop: spacing.lg,
+  },
+});
@@ -12,7 +12,6 @@ export const DataStoreSyncMonitor: React.FC = () => {
       console.log("DataStore Monitor: Store updated", {
         devices: store.devices.length,
         users: store.users.length,
-        logs: store.logs,
         globalSettings: store.globalSettings,
       });
     }
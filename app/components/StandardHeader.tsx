@@ -50,7 +50,7 @@ export const StandardHeader: React.FC<StandardHeaderProps> = ({
             backgroundColor: colors.surface,
             borderBottomColor: colors.border,
           },
-            ...shadows.md,
+          shadows.md,
         ]}
       >
         {showBack ? (
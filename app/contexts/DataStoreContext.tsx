@@ -1,37 +1,102 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
-import DataStore from '../../utils/DataStore';
-import { safeExecute } from '../../utils/errorUtils';
-import LogManager from '../../utils/LogManager';
-import { Device, GlobalSettings, LogEntry, User } from '../../types';
+import { Alert, AppState } from 'react-native';
+import DataStore, { Device, DeviceSlot, DeviceUser, ExpiringAccess, GlobalSettings, User } from '../utils/DataStore';
+import { safeExecute } from '../utils/errorUtils';
+import LogManager, { LogEntry } from '../utils/LogManager';
+import { LogPage, LogPageRequest, LogQuery } from '../utils/logQuery';
+import { LogExportFormat, shareLogExport } from '../utils/logExport';
+import type { LogRetentionPolicy } from '../utils/logRetention';
+import CommandLedger, { isOpenCommand, LedgerEntry } from '../utils/commandLedger';
+import { getSmsTransport, setActiveSmsTransport } from '../utils/smsTransport';
+import { setDefaultPhoneCountry } from '../utils/phoneNumbers';
+import { ParsedReply } from '../utils/replyParser';
+import { hasRepairs } from '../utils/dataValidation';
+import { getCapabilities } from '../utils/deviceModels';
+import { getSendBlockReason, sendSMSCommand } from '../utils/smsUtils';
+import {
+  BatchProgress,
+  CommandBatch,
+  QueuedCommandInput,
+  getBatchProgress,
+  isBatchFinished,
+  planNextMessage,
+} from '../utils/commandQueue';
 
 // Define context interface
 interface DataStoreContextProps {
   store: {
     devices: Device[];
     users: User[];
-    logs: Record<string, LogEntry[]>;
+    slots: DeviceSlot[];
+    batches: CommandBatch[];
     globalSettings: GlobalSettings;
   };
   isLoading: boolean;
   refreshStore: () => Promise<void>;
   getDeviceById: (deviceId: string) => Device | undefined;
+  findDeviceByPhone: (phoneNumber: string) => Device | undefined;
   addDevice: (device: Omit<Device, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Device>;
   updateDevice: (deviceId: string, updates: Partial<Device>) => Promise<Device | null>;
   deleteDevice: (deviceId: string) => Promise<boolean>;
   setActiveDevice: (deviceId: string) => Promise<boolean>;
-  getDeviceUsers: (deviceId: string) => User[];
+  getDeviceUsers: (deviceId: string) => DeviceUser[];
+  findUserByPhone: (phoneNumber: string) => User | undefined;
   addUser: (user: Omit<User, 'id'>) => Promise<User>;
-  updateUser: (userId: string, updates: Partial<User>) => Promise<User | null>;
+  updateUser: (userId: string, updates: Partial<Omit<User, 'id'>>) => Promise<User | null>;
   deleteUser: (userId: string) => Promise<boolean>;
-  authorizeUserForDevice: (deviceId: string, userId: string) => Promise<boolean>;
-  deauthorizeUserForDevice: (deviceId: string, userId: string) => Promise<boolean>;
+  getNextFreeSlot: (deviceId: string) => string | null;
+  assignSlot: (deviceId: string, userId: string, options?: Partial<Pick<DeviceSlot, 'serialNumber' | 'startTime' | 'endTime' | 'status'>>) => Promise<DeviceSlot | null>;
+  updateSlot: (deviceId: string, serialNumber: string, updates: Partial<Pick<DeviceSlot, 'startTime' | 'endTime' | 'status'>>) => Promise<DeviceSlot | null>;
+  moveSlot: (deviceId: string, fromSerial: string, toSerial: string) => Promise<DeviceSlot | null>;
+  freeSlot: (deviceId: string, serialNumber: string) => Promise<boolean>;
+  getExpiringAccess: (withinMs: number) => ExpiringAccess[];
+  getCommandBatches: (deviceId?: string) => CommandBatch[];
+  enqueueCommands: (deviceId: string, title: string, commands: QueuedCommandInput[]) => Promise<CommandBatch | null>;
+  runCommandBatch: (batchId: string) => Promise<BatchProgress | null>;
+  pauseCommandBatch: (batchId: string) => Promise<CommandBatch | null>;
+  retryCommandBatch: (batchId: string) => Promise<BatchProgress | null>;
+  removeCommandBatch: (batchId: string) => Promise<boolean>;
+  runningBatchId: string | null; // Batch currently being sent, if any
   addDeviceLog: (deviceId: string, action: string, details: string, success?: boolean, category?: 'relay' | 'settings' | 'user' | 'system') => Promise<LogEntry>;
-  getDeviceLogs: (deviceId: string) => Promise<LogEntry[]>;
-  clearDeviceLogs: (deviceId: string) => Promise<boolean>;
+  getLogs: (deviceId?: string) => Promise<LogEntry[]>;
+  getLatestLog: (deviceId?: string) => Promise<LogEntry | null>;
+  queryLogs: (query: LogQuery, page?: LogPageRequest) => Promise<LogPage>;
+  clearLogs: (deviceId?: string) => Promise<boolean>;
+  countLogsRemovedBy: (policy: LogRetentionPolicy) => Promise<number>; // Entries a retention change would delete
+  exportLogs: (format: LogExportFormat, query: LogQuery) => Promise<number | null>; // Entries shared, null on failure
   logSMSOperation: (deviceId: string, command: string, success?: boolean) => Promise<LogEntry>;
   updateGlobalSettings: (updates: Partial<GlobalSettings>) => Promise<GlobalSettings>;
+  commands: LedgerEntry[]; // Command ledger, newest first
+  getDeviceCommands: (deviceId: string) => LedgerEntry[];
+  applyDeviceReply: (deviceId: string, body: string, receivedAt?: string) => Promise<DeviceReplyResult | null>;
 }
 
+export interface DeviceReplyResult {
+  reply: ParsedReply;
+  replyLog: LogEntry;
+  command: LedgerEntry | null; // Command the reply resolved, if any
+}
+
+// Resolves once the user is back in the app after the messaging app was opened.
+// If the app never went to the background there is nothing to wait for.
+const waitForForeground = (): Promise<void> => new Promise(resolve => {
+  let leftApp = AppState.currentState !== 'active';
+  const subscription = AppState.addEventListener('change', state => {
+    if (state !== 'active') {
+      leftApp = true;
+    } else if (leftApp) {
+      subscription.remove();
+      resolve();
+    }
+  });
+  setTimeout(() => {
+    if (!leftApp) {
+      subscription.remove();
+      resolve();
+    }
+  }, 3000);
+});
+
 // Create the context
 const DataStoreContext = createContext<DataStoreContextProps | undefined>(undefined);
 
@@ -40,9 +105,44 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const dataStore = DataStore.getInstance();
   const [store, setStore] = useState(dataStore.getStore());
   const [isLoading, setIsLoading] = useState(true);
+  const [commands, setCommands] = useState<LedgerEntry[]>([]);
+  const [runningBatchId, setRunningBatchId] = useState<string | null>(null);
+  const runningBatch = useRef<string | null>(null);
   const isInitialized = useRef(false);
   const isRefreshing = useRef(false);
 
+  // Nothing is saved until the user picks one of these
+  const askAboutUnreadableData = () => {
+    const failure = dataStore.getLoadFailure();
+    if (!failure) return;
+
+    Alert.alert(
+      'Saved Data Could Not Be Loaded',
+      `Your gates and users could not be read (${failure.error}). ${failure.backupKey
+        ? 'A copy of the saved data has been kept.'
+        : 'The saved data has been left as it was.'} Changes will not be saved until you choose what to do.`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Try Again',
+          onPress: async () => {
+            await dataStore.forceReinitialization();
+            setStore(dataStore.getStore());
+            askAboutUnreadableData();
+          },
+        },
+        {
+          text: 'Start Fresh',
+          style: 'destructive',
+          onPress: async () => {
+            await dataStore.discardUnreadableData();
+            setStore(dataStore.getStore());
+          },
+        },
+      ]
+    );
+  };
+
   // Initialize the datastore when the component mounts
   useEffect(() => {
     // Prevent multiple initializations
@@ -54,6 +154,16 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           await dataStore.initialize();
           setStore(dataStore.getStore());
           isInitialized.current = true;
+
+          const report = dataStore.getRepairReport();
+          if (dataStore.getLoadFailure()) {
+            askAboutUnreadableData();
+          } else if (hasRepairs(report)) {
+            Alert.alert(
+              'Saved Data Repaired',
+              `Some saved data was damaged. ${report.dropped.length} record(s) could not be recovered and ${report.repaired.length} field(s) were fixed. Details are in the system log.`
+            );
+          }
         },
         {
           setLoading: setIsLoading,
@@ -66,6 +176,16 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     initializeDataStore();
   }, []);
 
+  // Keep the SMS transport in sync with the user's setting
+  useEffect(() => {
+    setActiveSmsTransport(store.globalSettings.smsTransport || 'linking');
+  }, [store.globalSettings.smsTransport]);
+
+  // Local numbers are read as belonging to the user's chosen country
+  useEffect(() => {
+    setDefaultPhoneCountry(store.globalSettings.phoneCountry || 'AU');
+  }, [store.globalSettings.phoneCountry]);
+
   // Refresh the store data - using useCallback to prevent recreation on each render
   const refreshStore = useCallback(async (): Promise<void> => {
     // Prevent concurrent refreshes
@@ -99,14 +219,165 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     );
   }, [store]);
 
+  // Store what a device reported and log it next to the command it answers
+  const applyDeviceReply = async (deviceId: string, body: string, receivedAt?: string): Promise<DeviceReplyResult | null> => {
+    return safeExecute(
+      async () => {
+        const reply = await dataStore.applyDeviceReply(deviceId, body, receivedAt);
+        if (!reply) return null;
+
+        const { replyLog, command } = await CommandLedger.resolveReply(deviceId, reply);
+        // Generic replies name no position, so the slot follows the command they answered
+        if (command?.state === 'confirmed') {
+          await dataStore.confirmSlotCommand(deviceId, command.kind, command.serial);
+        }
+        return { reply, replyLog, command };
+      },
+      {
+        onSuccess: refreshStore,
+        logAction: 'Apply Device Reply',
+        showAlert: false,
+      }
+    );
+  };
+
+  // Send a batch one message at a time until it is done, paused, or a send is cancelled.
+  // Progress is saved after every message so a killed app resumes where it stopped.
+  const runCommandBatch = async (batchId: string): Promise<BatchProgress | null> => {
+    if (runningBatch.current) {
+      Alert.alert('Queue Busy', 'Another batch of commands is being sent. Pause it or wait for it to finish.');
+      return null;
+    }
+    runningBatch.current = batchId;
+    setRunningBatchId(batchId);
+
+    try {
+      let batch = await dataStore.setCommandBatchPaused(batchId, false);
+      while (batch && !batch.paused) {
+        const device = dataStore.getDeviceById(batch.deviceId);
+        const message = device && planNextMessage(batch, getCapabilities(device.type));
+        if (!device || !message) break;
+
+        const itemIds = message.items.map(item => item.id);
+        if (message.error) {
+          batch = await dataStore.updateQueuedCommands(batchId, itemIds, { state: 'failed', error: message.error });
+          continue;
+        }
+        // Held back like a single command would be; the rest of the message goes out on the next pass
+        const blocked = message.items.filter(item => getSendBlockReason(item.command));
+        if (blocked.length > 0) {
+          batch = await dataStore.updateQueuedCommands(batchId, blocked.map(item => item.id), {
+            state: 'failed',
+            error: getSendBlockReason(blocked[0].command),
+          });
+          continue;
+        }
+
+        await dataStore.updateQueuedCommands(batchId, itemIds, { state: 'sending' });
+        await refreshStore();
+        const sent = await sendSMSCommand({
+          phoneNumber: device.unitNumber,
+          command: message.parts.join(''),
+          parts: message.parts,
+          deviceId: device.id,
+          model: device.type,
+        });
+        if (!sent) {
+          // A cancelled composer pauses the batch rather than skipping ahead
+          await dataStore.updateQueuedCommands(batchId, itemIds, { state: 'failed', error: 'Not sent' });
+          batch = await dataStore.setCommandBatchPaused(batchId, true);
+          break;
+        }
+
+        batch = await dataStore.updateQueuedCommands(batchId, itemIds, { state: 'sent' });
+        await refreshStore();
+        if (batch && !isBatchFinished(batch) && getSmsTransport().capabilities.opensComposer) {
+          await waitForForeground();
+          batch = dataStore.getCommandBatch(batchId) || null; // Picks up a pause made meanwhile
+        }
+      }
+
+      if (!batch) return null;
+      const progress = getBatchProgress(batch);
+      if (progress.remaining === 0 && progress.failed === 0) {
+        await dataStore.removeCommandBatch(batchId);
+      }
+      return progress;
+    } catch (error) {
+      console.error('Failed to run command batch:', error);
+      await dataStore.setCommandBatchPaused(batchId, true);
+      Alert.alert('Queue Error', 'Sending stopped. The remaining commands are still queued.');
+      return null;
+    } finally {
+      runningBatch.current = null;
+      setRunningBatchId(null);
+      await refreshStore();
+    }
+  };
+
+  // Mirror the command ledger into state so screens can show commands waiting for the device
+  useEffect(() => {
+    CommandLedger.getEntries().then(setCommands);
+    return CommandLedger.subscribe(entries => setCommands([...entries]));
+  }, []);
+
+  // While anything is waiting for a reply, check periodically for timeouts
+  const hasOpenCommands = commands.some(isOpenCommand);
+  useEffect(() => {
+    if (!hasOpenCommands) return;
+
+    const timer = setInterval(() => {
+      CommandLedger.expireOverdue();
+    }, 15 * 1000);
+    return () => clearInterval(timer);
+  }, [hasOpenCommands]);
+
+  // Apply replies from transports that can receive them to the sending device
+  useEffect(() => {
+    const transport = getSmsTransport();
+    if (!transport.onIncoming) return;
+
+    return transport.onIncoming(async (message) => {
+      // Messages from numbers that are not a known gate are none of the app's business
+      const device = dataStore.findDeviceByPhone(message.phoneNumber);
+      if (!device) return;
+      await applyDeviceReply(device.id, message.body, message.receivedAt);
+    });
+  }, [store.globalSettings.smsTransport]);
+
   // Define context value - memoize operations that don't directly depend on changing state
   const getDeviceById = useCallback((deviceId: string) => {
     return store.devices.find(d => d.id === deviceId);
   }, [store.devices]);
   
+  // Recreated when people or slots change so user lists reload
   const getDeviceUsers = useCallback((deviceId: string) => {
     return dataStore.getDeviceUsers(deviceId);
-  }, []);
+  }, [store.users, store.slots]);
+
+  const findUserByPhone = useCallback((phoneNumber: string) => {
+    return dataStore.findUserByPhone(phoneNumber);
+  }, [store.users]);
+
+  const findDeviceByPhone = useCallback((phoneNumber: string) => {
+    return dataStore.findDeviceByPhone(phoneNumber);
+  }, [store.devices]);
+
+  const getNextFreeSlot = useCallback((deviceId: string) => {
+    return dataStore.getNextFreeSlot(deviceId);
+  }, [store.slots]);
+
+  const getExpiringAccess = useCallback((withinMs: number) => {
+    return dataStore.getExpiringAccess(withinMs);
+  }, [store.users, store.slots]);
+
+  const getCommandBatches = useCallback((deviceId?: string) => {
+    return dataStore.getCommandBatches(deviceId);
+  }, [store.batches]);
+
+  const getDeviceCommands = useCallback((deviceId: string) => {
+    return commands.filter(c => c.deviceId === deviceId);
+  }, [commands]);
 
   // Define context value
   const contextValue: DataStoreContextProps = {
@@ -114,6 +385,7 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     isLoading,
     refreshStore,
     getDeviceById,
+    findDeviceByPhone,
     addDevice: async (device) => {
       return safeExecute(
         () => dataStore.addDevice(device),
@@ -151,6 +423,7 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       );
     },
     getDeviceUsers,
+    findUserByPhone,
     addUser: async (user) => {
       return safeExecute(
         () => dataStore.addUser(user),
@@ -178,36 +451,113 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }
       );
     },
-    authorizeUserForDevice: async (deviceId, userId) => {
+    getNextFreeSlot,
+    getExpiringAccess,
+    assignSlot: async (deviceId, userId, options) => {
+      return safeExecute(
+        () => dataStore.assignSlot(deviceId, userId, options),
+        {
+          onSuccess: refreshStore,
+          logAction: 'Assign User Slot',
+        }
+      );
+    },
+    updateSlot: async (deviceId, serialNumber, updates) => {
+      return safeExecute(
+        () => dataStore.updateSlot(deviceId, serialNumber, updates),
+        {
+          onSuccess: refreshStore,
+          logAction: 'Update User Slot',
+        }
+      );
+    },
+    moveSlot: async (deviceId, fromSerial, toSerial) => {
+      return safeExecute(
+        () => dataStore.moveSlot(deviceId, fromSerial, toSerial),
+        {
+          onSuccess: refreshStore,
+          logAction: 'Move User Slot',
+        }
+      );
+    },
+    freeSlot: async (deviceId, serialNumber) => {
+      return safeExecute(
+        () => dataStore.freeSlot(deviceId, serialNumber),
+        {
+          onSuccess: refreshStore,
+          logAction: 'Free User Slot',
+        }
+      );
+    },
+    getCommandBatches,
+    enqueueCommands: async (deviceId, title, commands) => {
+      return safeExecute(
+        () => dataStore.enqueueCommands(deviceId, title, commands),
+        {
+          onSuccess: refreshStore,
+          logAction: 'Queue Commands',
+        }
+      );
+    },
+    runCommandBatch,
+    pauseCommandBatch: async (batchId) => {
       return safeExecute(
-        () => dataStore.authorizeUserForDevice(deviceId, userId),
+        () => dataStore.setCommandBatchPaused(batchId, true),
         {
           onSuccess: refreshStore,
-          logAction: 'Authorize User',
+          logAction: 'Pause Command Queue',
         }
       );
     },
-    deauthorizeUserForDevice: async (deviceId, userId) => {
+    retryCommandBatch: async (batchId) => {
+      await dataStore.retryFailedCommands(batchId);
+      return runCommandBatch(batchId);
+    },
+    removeCommandBatch: async (batchId) => {
       return safeExecute(
-        () => dataStore.deauthorizeUserForDevice(deviceId, userId),
+        () => dataStore.removeCommandBatch(batchId),
         {
           onSuccess: refreshStore,
-          logAction: 'Deauthorize User',
+          logAction: 'Discard Command Queue',
         }
       );
     },
+    runningBatchId,
     addDeviceLog: async (deviceId, action, details, success = true, category = 'system') => {
       return LogManager.addLog(action, details, success, deviceId, category);
     },
-    getDeviceLogs: async (deviceId) => {
-      return LogManager.getDeviceLogs(deviceId);
+    getLogs: async (deviceId) => {
+      return LogManager.getLogs(deviceId);
+    },
+    getLatestLog: async (deviceId) => {
+      return LogManager.getLatestLog(deviceId);
+    },
+    queryLogs: async (query, page) => {
+      return LogManager.queryLogs(query, page);
     },
-    clearDeviceLogs: async (deviceId) => {
-      return LogManager.clearDeviceLogs(deviceId);
+    clearLogs: async (deviceId) => {
+      const cleared = await LogManager.clearLogs(deviceId);
+      await refreshStore();
+      return cleared;
+    },
+    countLogsRemovedBy: async (policy) => {
+      return LogManager.countRemovedBy(policy);
+    },
+    exportLogs: async (format, query) => {
+      return safeExecute(
+        async () => shareLogExport(format, await LogManager.getLogs(query.deviceId), query, store.devices),
+        {
+          errorTitle: 'Export Failed',
+          errorMessage: 'Could not export the activity log',
+          logAction: 'Export Logs',
+        }
+      );
     },
     logSMSOperation: async (deviceId, command, success = true) => {
       return LogManager.logSMSOperation(deviceId, command, success);
     },
+    commands,
+    getDeviceCommands,
     updateGlobalSettings: async (updates) => {
       return safeExecute(
         () => dataStore.updateGlobalSettings(updates),
@@ -217,6 +567,7 @@ export const DataStoreProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }
       );
     },
+    applyDeviceReply,
   };
 
   return (
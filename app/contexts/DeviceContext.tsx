@@ -1,7 +1,7 @@
 import React, { createContext, useState, useContext, useEffect, useCallback, useRef } from 'react';
 import { DeviceData } from '../../types/devices';
 import { useDataStore } from './DataStoreContext';
-import { Device, User } from '../../utils/DataStore';
+import { Device, DeviceUser, User } from '../../utils/DataStore';
 
 // Define type for user data - use the one from DataStore
 export { User } from '../../utils/DataStore'; // Fixed missing quote
@@ -12,10 +12,10 @@ const convertToDeviceData = (device: Device, isActive: boolean): DeviceData => (
   name: device.name,
   unitNumber: device.unitNumber,
   password: device.password,
-  type: 'Connect4v', // Default type
+  type: device.type || 'Connect4v', // Legacy devices predate model selection
   isActive: isActive,
   // Map relaySettings if available or provide defaults
-  relaySettings: device.settings || {
+  relaySettings: device.relaySettings || {
     accessControl: 'AUT',
     latchTime: '000'
   }
@@ -28,8 +28,8 @@ type DeviceContextType = {
   refreshDevices: () => Promise<void>;
   isLoading: boolean;
   deviceUsersKey: string | null;
-  getAuthorizedUsers: (deviceId?: string) => Promise<User[]>;
-  saveAuthorizedUsers: (users: User[], deviceId?: string) => Promise<void>;
+  getAuthorizedUsers: (deviceId?: string) => Promise<DeviceUser[]>;
+  saveAuthorizedUsers: (users: DeviceUser[], deviceId?: string) => Promise<void>;
 };
 
 const DeviceContext = createContext<DeviceContextType>({
@@ -60,7 +60,8 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setActiveDevice: setActiveDeviceInStore,
     addUser,
     updateUser,
-    authorizeUserForDevice,
+    assignSlot,
+    updateSlot,
     refreshStore
   } = useDataStore();
   
@@ -145,7 +146,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // Get authorized users for a specific device or active device
-  const getAuthorizedUsers = async (deviceId?: string): Promise<User[]> => {
+  const getAuthorizedUsers = async (deviceId?: string): Promise<DeviceUser[]> => {
     try {
       // Refresh store to get latest data
       await refreshStore();
@@ -165,7 +166,7 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // Save authorized users for a specific device
-  const saveAuthorizedUsers = async (users: User[], deviceId?: string): Promise<void> => {
+  const saveAuthorizedUsers = async (users: DeviceUser[], deviceId?: string): Promise<void> => {
     try {
       const targetDeviceId = deviceId || activeDevice?.id;
       
@@ -173,26 +174,26 @@ export const DeviceProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         throw new Error("Cannot save users: No device ID provided and no active device");
       }
       
-      // First, add any users that don't exist yet
+      const currentUsers = getDeviceUsers(targetDeviceId);
       for (const user of users) {
+        const window = { startTime: user.startTime, endTime: user.endTime };
         if (!user.id || user.id.startsWith('new_')) {
-          // This is a new user, add it to the store
+          // This is a new person, add them and give them their slot on this device
           const newUser = await addUser({
             name: user.name,
-            phoneNumber: user.phoneNumber,
-            serialNumber: user.serialNumber,
-            startTime: user.startTime,
-            endTime: user.endTime
+            phoneNumber: user.phoneNumber
           });
-          
-          // Authorize for this device
-          await authorizeUserForDevice(targetDeviceId, newUser.id);
+          await assignSlot(targetDeviceId, newUser.id, { serialNumber: user.serialNumber, ...window });
         } else {
-          // Existing user, update it
-          await updateUser(user.id, user);
+          // Existing person, update them
+          await updateUser(user.id, { name: user.name, phoneNumber: user.phoneNumber });
           
-          // Make sure it's authorized for this device
-          await authorizeUserForDevice(targetDeviceId, user.id);
+          // Make sure they hold a slot on this device
+          if (currentUsers.some(current => current.id === user.id)) {
+            await updateSlot(targetDeviceId, user.serialNumber, window);
+          } else {
+            await assignSlot(targetDeviceId, user.id, { serialNumber: user.serialNumber, ...window });
+          }
         }
       }
       
@@ -9,6 +9,7 @@ import { TextInputField } from './components/TextInputField';
 import { colors, spacing, borderRadius } from './styles/theme';
 import { useDataStore } from './contexts/DataStoreContext';
 import { Device } from './utils/DataStore';
+import { formatPhoneForDisplay, isSamePhoneNumber, toDevicePhoneNumber, validatePhoneNumber } from './utils/phoneNumbers';
 
 export default function EditDevicePage() {
     const router = useRouter();
@@ -19,7 +20,7 @@ export default function EditDevicePage() {
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
 
-    const { getDeviceById, updateDevice, deleteDevice, refreshStore } = useDataStore();
+    const { getDeviceById, findDeviceByPhone, updateDevice, deleteDevice, refreshStore } = useDataStore();
 
     // Load device data when deviceId changes
     const loadDevice = useCallback(async () => {
@@ -30,7 +31,7 @@ export default function EditDevicePage() {
                 if (foundDevice) {
                     setDevice(foundDevice);
                     setDeviceName(foundDevice.name);
-                    setUnitNumber(foundDevice.unitNumber);
+                    setUnitNumber(formatPhoneForDisplay(foundDevice.unitNumber));
                 } else {
                     Alert.alert('Error', 'Device not found');
                     router.back(); // Go back if device not found
@@ -54,8 +55,15 @@ export default function EditDevicePage() {
             return false;
         }
 
-        if (!unitNumber.trim()) {
-            Alert.alert('Error', 'Please enter the device phone number');
+        const phoneError = validatePhoneNumber(unitNumber);
+        if (phoneError) {
+            Alert.alert('Invalid Phone Number', phoneError);
+            return false;
+        }
+
+        const duplicate = findDeviceByPhone(unitNumber);
+        if (duplicate && duplicate.id !== device?.id) {
+            Alert.alert('Duplicate Number', `${duplicate.name} already uses this phone number`);
             return false;
         }
 
@@ -70,7 +78,10 @@ export default function EditDevicePage() {
         try {
             const updatedDevice = await updateDevice(device.id, {
                 name: deviceName,
-                unitNumber,
+                // Keep the stored form unless the number itself changed
+                unitNumber: isSamePhoneNumber(device.unitNumber, unitNumber)
+                    ? device.unitNumber
+                    : toDevicePhoneNumber(unitNumber)!,
             });
             if (updatedDevice) {
                 await refreshStore();
@@ -152,6 +163,7 @@ export default function EditDevicePage() {
                         label="Device Phone Number"
                         value={unitNumber}
                         onChangeText={setUnitNumber}
+                        onBlur={() => setUnitNumber(formatPhoneForDisplay(unitNumber))}
                         placeholder="Enter phone number"
                         keyboardType="phone-pad"
                         autoComplete="tel"
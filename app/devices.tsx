@@ -9,6 +9,7 @@ import { Card } from './components/Card';
 import { colors, spacing, shadows } from './styles/theme';
 import { useDataStore } from './contexts/DataStoreContext';
 import { Device } from './utils/DataStore';
+import { formatPhoneForDisplay } from './utils/phoneNumbers';
 
 export default function DevicesPage() {
   const router = useRouter();
@@ -121,7 +122,7 @@ const handleDeleteDevice = (device: Device) => {
                             <View style={styles.deviceInfo}>
                                 <View style={styles.deviceDetails}>
                                     <Text style={styles.deviceType}>{device.type}</Text>
-                                    <Text style={styles.devicePhone}>{device.unitNumber}</Text>
+                                    <Text style={styles.devicePhone}>{formatPhoneForDisplay(device.unitNumber)}</Text>
                                 </View>
 
                                 <View style={styles.deviceActions}>
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, Text, Alert } from 'react-native';
 import { Button } from '../components/Button';
-import { formatSMSCommand, sendSMSCommand } from '../utils/smsUtils';
+import { sendGateCommand } from '../utils/smsUtils';
 import { useDataStore } from '../contexts/DataStoreContext'; // Use consolidated context
 import { colors, spacing } from '../styles/theme';
 
@@ -18,11 +18,9 @@ const handleSMSCommand = async (commandType: 'OPEN' | 'CLOSE' | 'STATUS') => {
     return;
     }
 
-    const command = formatSMSCommand(activeDevice.password, commandType);
-
-    const success = await sendSMSCommand({
+    const success = await sendGateCommand({
         phoneNumber: activeDevice.unitNumber,
-        command,
+        command: { type: commandType, password: activeDevice.password },
         deviceId: activeDevice.id,
         setLoading: setIsLoading
     });
@@ -0,0 +1,240 @@
+// app/expiring-access.tsx
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Alert, ScrollView, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StandardHeader } from './components/StandardHeader';
+import { Button } from './components/Button';
+import { Card } from './components/Card';
+import { colors, spacing, borderRadius } from './styles/theme';
+import { useDataStore } from './contexts/DataStoreContext';
+import { ExpiringAccess } from './utils/DataStore';
+import { getSlotSyncState } from './utils/userSlots';
+import { getQueuedSerials } from './utils/commandQueue';
+import { CommandQueueCard } from './components/CommandQueueCard';
+import { formatDateTime } from './utils/accessWindow';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = [
+    { label: 'Today', ms: DAY_MS },
+    { label: '7 Days', ms: 7 * DAY_MS },
+    { label: '30 Days', ms: 30 * DAY_MS },
+];
+
+export default function ExpiringAccessPage() {
+    const router = useRouter();
+    const { store, getDeviceCommands, getExpiringAccess, updateSlot, enqueueCommands, runCommandBatch } = useDataStore();
+    const [periodMs, setPeriodMs] = useState(PERIODS[1].ms);
+    const [isRevoking, setIsRevoking] = useState(false);
+
+    const entries = getExpiringAccess(periodMs);
+
+    // Expired slots nobody has asked the device to remove yet
+    const isRevocable = (entry: ExpiringAccess) => {
+        if (!entry.expired) return false;
+        if (entry.user.status !== 'removing') return true;
+        const syncState = getSlotSyncState(
+            entry.user,
+            getDeviceCommands(entry.deviceId),
+            getQueuedSerials(store.batches, entry.deviceId)
+        );
+        return syncState === 'out_of_sync';
+    };
+    const revocable = entries.filter(isRevocable);
+
+    const byDevice = store.devices
+        .map(device => ({ device, entries: entries.filter(e => e.deviceId === device.id) }))
+        .filter(group => group.entries.length > 0);
+
+    // One queued batch of DELETE_USER commands per device, sent device by device.
+    // Slots are marked first so a fast reply finds them waiting to be freed.
+    const revokeExpired = async () => {
+        setIsRevoking(true);
+        let sent = 0;
+        try {
+            for (const { device } of byDevice) {
+                const deviceEntries = revocable.filter(e => e.deviceId === device.id);
+                if (deviceEntries.length === 0) continue;
+
+                for (const entry of deviceEntries) {
+                    await updateSlot(device.id, entry.user.serialNumber, { status: 'removing' });
+                }
+                const batch = await enqueueCommands(device.id, 'Revoke expired access', deviceEntries.map(entry => ({
+                    label: `Remove ${entry.user.name} (#${entry.user.serialNumber})`,
+                    command: { type: 'DELETE_USER' as const, password: device.password, serial: entry.user.serialNumber },
+                })));
+                const progress = batch && await runCommandBatch(batch.id);
+                sent += progress?.sent || 0;
+                if (!progress || progress.sent < progress.total) {
+                    Alert.alert(
+                        'Revoke Paused',
+                        `${sent} of ${revocable.length} removal command${revocable.length === 1 ? '' : 's'} sent. The rest stay queued and can be resumed.`
+                    );
+                    return;
+                }
+            }
+            Alert.alert(
+                'Removal Sent',
+                `${sent} removal command${sent === 1 ? '' : 's'} sent. Each slot is freed once its device confirms.`
+            );
+        } finally {
+            setIsRevoking(false);
+        }
+    };
+
+    const confirmRevoke = () => {
+        const deviceCount = new Set(revocable.map(e => e.deviceId)).size;
+        Alert.alert(
+            'Revoke Expired Access',
+            `Send ${revocable.length} removal command${revocable.length === 1 ? '' : 's'} to ${deviceCount} device${deviceCount === 1 ? '' : 's'}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Revoke', style: 'destructive', onPress: revokeExpired },
+            ]
+        );
+    };
+
+    const renderEntry = (entry: ExpiringAccess) => {
+        const endsAt = formatDateTime(new Date(entry.endsAt));
+        const awaitingRemoval = entry.user.status === 'removing' && !isRevocable(entry);
+        const color = entry.expired ? colors.error : colors.warning;
+
+        return (
+            <TouchableOpacity
+                key={`${entry.deviceId}_${entry.user.serialNumber}`}
+                style={styles.entryRow}
+                onPress={() => router.push({
+                    pathname: '/user-edit',
+                    params: { deviceId: entry.deviceId, userId: entry.user.id }
+                })}
+            >
+                <Ionicons name={entry.expired ? 'alert-circle' : 'time-outline'} size={20} color={color} />
+                <View style={styles.entryText}>
+                    <Text style={styles.entryName}>
+                        {entry.user.name} <Text style={styles.entrySerial}>#{entry.user.serialNumber}</Text>
+                    </Text>
+                    <Text style={[styles.entryDetails, { color }]}>
+                        {awaitingRemoval
+                            ? 'Removal sent, waiting for device'
+                            : `${entry.expired ? 'Expired' : 'Expires'} ${endsAt}`}
+                    </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={16} color={colors.text.secondary} />
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Temporary Access" showBack />
+
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                <CommandQueueCard />
+
+                <View style={styles.periodRow}>
+                    {PERIODS.map(period => {
+                        const isSelected = period.ms === periodMs;
+                        return (
+                            <TouchableOpacity
+                                key={period.label}
+                                style={[styles.periodChip, isSelected && styles.periodChipSelected]}
+                                onPress={() => setPeriodMs(period.ms)}
+                            >
+                                <Text style={[styles.periodText, isSelected && styles.periodTextSelected]}>
+                                    {period.label}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+
+                {byDevice.length === 0 ? (
+                    <Card>
+                        <Text style={styles.emptyText}>No access windows end in this period</Text>
+                    </Card>
+                ) : (
+                    byDevice.map(({ device, entries: deviceEntries }) => (
+                        <Card key={device.id} title={device.name}>
+                            {deviceEntries.map(renderEntry)}
+                        </Card>
+                    ))
+                )}
+
+                <Button
+                    title={`Revoke Expired (${revocable.length})`}
+                    onPress={confirmRevoke}
+                    loading={isRevoking}
+                    disabled={revocable.length === 0 || isRevoking}
+                    icon="person-remove-outline"
+                    fullWidth
+                />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    periodRow: {
+        flexDirection: 'row',
+        marginBottom: spacing.md,
+    },
+    periodChip: {
+        backgroundColor: colors.surfaceVariant,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.pill,
+        marginRight: spacing.sm,
+        borderWidth: 1,
+        borderColor: colors.border,
+    },
+    periodChipSelected: {
+        borderColor: colors.primary,
+        backgroundColor: `${colors.primary}10`,
+    },
+    periodText: {
+        fontSize: 14,
+        color: colors.text.primary,
+        fontWeight: '500',
+    },
+    periodTextSelected: {
+        color: colors.primary,
+    },
+    entryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    entryText: {
+        flex: 1,
+        marginLeft: spacing.sm,
+    },
+    entryName: {
+        fontSize: 16,
+        fontWeight: '500',
+        color: colors.text.primary,
+    },
+    entrySerial: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+    entryDetails: {
+        fontSize: 12,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+});
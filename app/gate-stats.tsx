@@ -0,0 +1,298 @@
+// app/gate-stats.tsx
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StandardHeader } from './components/StandardHeader';
+import { Card } from './components/Card';
+import { BarChart } from './components/BarChart';
+import { colors, spacing, borderRadius } from './styles/theme';
+import { useDataStore } from './contexts/DataStoreContext';
+import { computeGateStats, CountBucket, formatSuccessRate, GateStats } from './utils/gateAnalytics';
+
+const DAYS = 14;
+const WEEKS = 8;
+
+const dayLabel = (bucket: CountBucket) => String(new Date(bucket.start).getDate());
+
+const weekLabel = (bucket: CountBucket) => {
+    const start = new Date(bucket.start);
+    return `${start.getDate()}/${start.getMonth() + 1}`;
+};
+
+const toChartData = (buckets: CountBucket[], label: (bucket: CountBucket) => string) =>
+    buckets.map(bucket => ({ label: label(bucket), value: bucket.total, highlight: bucket.failed }));
+
+export default function GateStatsPage() {
+    const { deviceId: deviceIdParam } = useLocalSearchParams<{ deviceId?: string }>();
+    const { store, getDeviceById, getLogs } = useDataStore();
+    const [stats, setStats] = useState<GateStats | null>(null);
+
+    const deviceId = deviceIdParam || store.globalSettings.activeDeviceId;
+    const device = deviceId ? getDeviceById(deviceId) : undefined;
+
+    // Worked out again on every visit so commands sent in the meantime are counted
+    useFocusEffect(
+        useCallback(() => {
+            if (!deviceId) return;
+            const loadStats = async () => {
+                try {
+                    // getLogs also returns system entries, which belong to no gate
+                    const entries = (await getLogs(deviceId)).filter(entry => entry.deviceId === deviceId);
+                    setStats(computeGateStats(entries, { days: DAYS, weeks: WEEKS }));
+                } catch (error) {
+                    console.error('Failed to load gate statistics:', error);
+                }
+            };
+            loadStats();
+        }, [deviceId, getLogs])
+    );
+
+    const renderSummaryItem = (label: string, value: string, color: string = colors.text.primary) => (
+        <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color }]}>{value}</Text>
+            <Text style={styles.summaryLabel}>{label}</Text>
+        </View>
+    );
+
+    if (!device) {
+        return (
+            <View style={styles.container}>
+                <StandardHeader title="Usage Statistics" showBack />
+                <View style={styles.emptyContainer}>
+                    <Ionicons name="stats-chart-outline" size={64} color={colors.text.disabled} />
+                    <Text style={styles.emptyText}>Select a gate to see its statistics</Text>
+                </View>
+            </View>
+        );
+    }
+
+    const maxTypeCount = stats ? Math.max(1, ...stats.byType.map(type => type.total)) : 1;
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Usage Statistics" showBack />
+
+            <View style={styles.deviceBanner}>
+                <Text style={styles.deviceInfoText}>
+                    {device.name}
+                    {stats ? ` • since ${new Date(stats.since).toLocaleDateString()}` : ''}
+                </Text>
+            </View>
+
+            {!stats ? (
+                <ActivityIndicator style={styles.loading} color={colors.primary} />
+            ) : (
+                <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                    <Card title="Overview" elevated>
+                        <View style={styles.summaryRow}>
+                            {renderSummaryItem('Openings', String(stats.openings))}
+                            {renderSummaryItem('Commands', String(stats.commands))}
+                            {renderSummaryItem('Succeeded', formatSuccessRate(stats.successRate), colors.success)}
+                            {renderSummaryItem('Failed', String(stats.failed), stats.failed > 0 ? colors.error : colors.text.primary)}
+                        </View>
+                    </Card>
+
+                    <Card title={`Openings per Day (last ${DAYS} days)`}>
+                        <BarChart data={toChartData(stats.openingsPerDay, dayLabel)} labelEvery={2} />
+                        <View style={styles.legend}>
+                            <View style={[styles.legendSwatch, { backgroundColor: colors.primary }]} />
+                            <Text style={styles.legendText}>Openings</Text>
+                            <View style={[styles.legendSwatch, { backgroundColor: colors.error }]} />
+                            <Text style={styles.legendText}>Failed</Text>
+                        </View>
+                    </Card>
+
+                    <Card title={`Openings per Week (last ${WEEKS} weeks)`}>
+                        <BarChart data={toChartData(stats.openingsPerWeek, weekLabel)} showValues />
+                    </Card>
+
+                    <Card title="Opening Hours">
+                        <BarChart
+                            data={stats.openingsByHour.map((count, hour) => ({ label: String(hour), value: count }))}
+                            labelEvery={3}
+                        />
+                        <Text style={styles.chartNote}>Openings by hour of the day</Text>
+                    </Card>
+
+                    <Card title="Commands by Type">
+                        {stats.byType.length === 0 ? (
+                            <Text style={styles.emptyCardText}>No commands sent in this period</Text>
+                        ) : (
+                            stats.byType.map(type => (
+                                <View key={type.kind} style={styles.typeRow}>
+                                    <View style={styles.typeHeader}>
+                                        <Text style={styles.typeLabel}>{type.label}</Text>
+                                        <Text style={styles.typeCount}>
+                                            {type.total}{type.failed > 0 ? ` (${type.failed} failed)` : ''}
+                                        </Text>
+                                    </View>
+                                    <View style={styles.typeTrack}>
+                                        <View style={[styles.typeBar, { width: `${(type.total / maxTypeCount) * 100}%` }]} />
+                                    </View>
+                                </View>
+                            ))
+                        )}
+                    </Card>
+
+                    <Card title="Recent Configuration Changes">
+                        {stats.recentChanges.length === 0 ? (
+                            <Text style={styles.emptyCardText}>No configuration changes recorded</Text>
+                        ) : (
+                            stats.recentChanges.map(entry => (
+                                <View key={entry.id} style={styles.changeRow}>
+                                    <Ionicons
+                                        name={entry.success ? 'settings-outline' : 'alert-circle-outline'}
+                                        size={18}
+                                        color={entry.success ? colors.warning : colors.error}
+                                    />
+                                    <View style={styles.changeContent}>
+                                        <Text style={styles.changeAction}>{entry.action}</Text>
+                                        {entry.details ? <Text style={styles.changeDetails}>{entry.details}</Text> : null}
+                                        <Text style={styles.changeTime}>{new Date(entry.timestamp).toLocaleString()}</Text>
+                                    </View>
+                                </View>
+                            ))
+                        )}
+                    </Card>
+                </ScrollView>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    loading: {
+        marginTop: spacing.xl,
+    },
+    deviceBanner: {
+        backgroundColor: colors.surfaceVariant,
+        paddingVertical: spacing.sm,
+        paddingHorizontal: spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    deviceInfoText: {
+        color: colors.text.secondary,
+        fontSize: 14,
+        textAlign: 'center',
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    summaryItem: {
+        flex: 1,
+        alignItems: 'center',
+    },
+    summaryValue: {
+        fontSize: 22,
+        fontWeight: '700',
+    },
+    summaryLabel: {
+        fontSize: 12,
+        color: colors.text.secondary,
+        marginTop: spacing.xs,
+    },
+    legend: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: spacing.sm,
+    },
+    legendSwatch: {
+        width: 10,
+        height: 10,
+        borderRadius: 2,
+        marginRight: spacing.xs,
+    },
+    legendText: {
+        fontSize: 12,
+        color: colors.text.secondary,
+        marginRight: spacing.md,
+    },
+    chartNote: {
+        fontSize: 12,
+        color: colors.text.secondary,
+        marginTop: spacing.sm,
+    },
+    typeRow: {
+        marginBottom: spacing.sm,
+    },
+    typeHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginBottom: spacing.xs,
+    },
+    typeLabel: {
+        fontSize: 14,
+        color: colors.text.primary,
+        fontWeight: '500',
+    },
+    typeCount: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+    typeTrack: {
+        height: 8,
+        borderRadius: borderRadius.pill,
+        backgroundColor: colors.surfaceVariant,
+        overflow: 'hidden',
+    },
+    typeBar: {
+        height: '100%',
+        borderRadius: borderRadius.pill,
+        backgroundColor: colors.primary,
+    },
+    changeRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    changeContent: {
+        flex: 1,
+        marginLeft: spacing.sm,
+    },
+    changeAction: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text.primary,
+    },
+    changeDetails: {
+        fontSize: 13,
+        color: colors.text.secondary,
+        marginTop: 2,
+    },
+    changeTime: {
+        fontSize: 12,
+        color: colors.text.disabled,
+        marginTop: 2,
+    },
+    emptyCardText: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+    emptyContainer: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.xl,
+    },
+    emptyText: {
+        fontSize: 16,
+        color: colors.text.secondary,
+        marginTop: spacing.md,
+        textAlign: 'center',
+    },
+});
@@ -0,0 +1,84 @@
+// app/hooks/useAddUsers.ts
+import { Alert } from 'react-native';
+import { useDataStore } from '../contexts/DataStoreContext';
+import { Device } from '../utils/DataStore';
+import { BatchProgress, QueuedCommandInput } from '../utils/commandQueue';
+import { phoneMatchKey } from '../utils/phoneNumbers';
+
+export interface NewDeviceUser {
+  name: string;
+  phoneNumber: string;   // Digits as the device expects them
+  serialNumber?: string; // Next free position when omitted
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface AddUsersOptions {
+  title: string;      // Batch title, e.g. "Import from residents.csv"
+  logAction: string;
+  logDetails: string; // e.g. "from contacts"; the number queued is put in front
+  onQueued?: () => void; // Called once the batch is saved, before sending starts
+}
+
+export interface AddUsersResult {
+  queued: number;
+  duplicates: number; // Entries left out for repeating an earlier entry's number
+  progress: BatchProgress | null;
+}
+
+// Several people added to one device at once, from a CSV import or a contact selection:
+// each gets a position up front, then their ADD_USER commands go out as one queued batch
+export const useAddUsers = () => {
+  const { findUserByPhone, addUser, assignSlot, addDeviceLog, enqueueCommands, runCommandBatch } = useDataStore();
+
+  const addUsers = async (device: Device, entries: NewDeviceUser[], options: AddUsersOptions): Promise<AddUsersResult | null> => {
+    // One number is one person; listing it twice would take a second position for nothing
+    const seen = new Set<string>();
+    const unique = entries.filter(entry => {
+      const key = phoneMatchKey(entry.phoneNumber);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const queued: QueuedCommandInput[] = [];
+    for (const entry of unique) {
+      const person = findUserByPhone(entry.phoneNumber) || await addUser({ name: entry.name, phoneNumber: entry.phoneNumber });
+      const slot = person && await assignSlot(device.id, person.id, {
+        serialNumber: entry.serialNumber,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+      });
+      if (!slot) {
+        Alert.alert(
+          'Stopped',
+          `${entry.name} could not be given ${entry.serialNumber ? `position ${entry.serialNumber}` : 'a position'}. ${queued.length} user(s) before them are still queued.`
+        );
+        break;
+      }
+      queued.push({
+        label: `Add ${entry.name} (#${slot.serialNumber})`,
+        command: {
+          type: 'ADD_USER',
+          password: device.password,
+          serial: slot.serialNumber,
+          phone: entry.phoneNumber,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+        },
+      });
+    }
+
+    const batch = await enqueueCommands(device.id, options.title, queued);
+    if (!batch) return null;
+    await addDeviceLog(device.id, options.logAction, `${queued.length} user(s) queued ${options.logDetails}`, true, 'user');
+    options.onQueued?.();
+
+    const progress = await runCommandBatch(batch.id);
+    return { queued: queued.length, duplicates: entries.length - unique.length, progress };
+  };
+
+  return { addUsers };
+};
+
+export default useAddUsers;
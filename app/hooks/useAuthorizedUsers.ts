@@ -1,11 +1,11 @@
 // app/hooks/useAuthorizedUsers.ts
 import { useState, useEffect, useCallback } from 'react';
 import { useDataStore } from '../contexts/DataStoreContext';
-import { User } from '../utils/DataStore';  // Import User from DataStore
+import { DeviceUser } from '../utils/DataStore';  // Import DeviceUser from DataStore
 
 export const useAuthorizedUsers = (deviceId?: string) => {
-  const { store, getDeviceUsers, addUser, updateUser, authorizeUserForDevice, deleteUser, deauthorizeUserForDevice } = useDataStore();
-  const [users, setUsers] = useState<User[]>([]);
+  const { getDeviceUsers, addUser, updateUser, assignSlot, updateSlot, moveSlot, freeSlot } = useDataStore();
+  const [users, setUsers] = useState<DeviceUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -41,43 +41,46 @@ export const useAuthorizedUsers = (deviceId?: string) => {
 
 
   // Add a saveUsers function
-  const saveUsers = useCallback(async (updatedUsers: User[]) => {
+  const saveUsers = useCallback(async (updatedUsers: DeviceUser[]) => {
       if (!deviceId) {
         setError("No device selected");
         return false;
       }
       try {
-        // First, add any users that don't exist yet
+        const currentDeviceUsers = getDeviceUsers(deviceId);
+        const slotWindow = (user: DeviceUser) => ({ startTime: user.startTime, endTime: user.endTime });
+
+        // First, add any users that don't exist yet and give them their slot
         for (const user of updatedUsers) {
           if (!user.id || user.id.startsWith('new_')) {
             const newUser = await addUser({
               name: user.name,
-              phoneNumber: user.phoneNumber,
-              serialNumber: user.serialNumber,
-              startTime: user.startTime,
-              endTime: user.endTime
+              phoneNumber: user.phoneNumber
             });
             if (newUser) {
-              await authorizeUserForDevice(deviceId, newUser.id);
+              await assignSlot(deviceId, newUser.id, { serialNumber: user.serialNumber, ...slotWindow(user) });
             }
-          } else {
-            await updateUser(user.id, user);
+            continue;
+          }
+
+          await updateUser(user.id, { name: user.name, phoneNumber: user.phoneNumber });
+          const current = currentDeviceUsers.find(existing => existing.id === user.id);
+          if (!current) {
+            await assignSlot(deviceId, user.id, { serialNumber: user.serialNumber, ...slotWindow(user) });
+            continue;
           }
+          if (current.serialNumber !== user.serialNumber) {
+            await moveSlot(deviceId, current.serialNumber, user.serialNumber);
+          }
+          await updateSlot(deviceId, user.serialNumber, slotWindow(user));
         }
-        
-        // Then, get a list of all users supposed to be authorized for this device.
-        const currentDeviceUsers = getDeviceUsers(deviceId);
 
-        // Find any users that were removed
-        const usersToRemove = currentDeviceUsers.filter(currentUser => 
+        // Free the slots of users that were removed; the person stays for other devices
+        const usersToRemove = currentDeviceUsers.filter(currentUser =>
           !updatedUsers.some(updatedUser => updatedUser.id === currentUser.id)
         );
-
-        // Deauthorize removed users
         for (const userToRemove of usersToRemove) {
-          await deauthorizeUserForDevice(deviceId, userToRemove.id);
-          // Optionally, delete the user if not associated with other devices.
-          // This is complex logic, and you might want to handle this at a higher level.
+          await freeSlot(deviceId, userToRemove.serialNumber);
         }
         
         await loadUsers(); // Refresh users
@@ -87,7 +90,7 @@ export const useAuthorizedUsers = (deviceId?: string) => {
         setError('Failed to save users');
         return false;
       }
-  }, [deviceId, addUser, authorizeUserForDevice, updateUser, loadUsers, getDeviceUsers]);
+  }, [deviceId, addUser, updateUser, assignSlot, updateSlot, moveSlot, freeSlot, loadUsers, getDeviceUsers]);
 
 
   return {
@@ -0,0 +1,242 @@
+// app/reply-inbox.tsx
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Alert, ScrollView, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { StandardHeader } from './components/StandardHeader';
+import { Button } from './components/Button';
+import { Card } from './components/Card';
+import { TextInputField } from './components/TextInputField';
+import { colors, spacing, borderRadius } from './styles/theme';
+import { useDataStore } from './contexts/DataStoreContext';
+import { isOpenCommand } from './utils/commandLedger';
+import { parseReply } from './utils/replyParser';
+
+export default function ReplyInboxPage() {
+    // `text` lets a shared message or deep link pre-fill the reply
+    const { deviceId: deviceIdParam, text } = useLocalSearchParams<{ deviceId?: string; text?: string }>();
+    const { store, getDeviceCommands, applyDeviceReply } = useDataStore();
+    const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(
+        deviceIdParam || store.globalSettings.activeDeviceId
+    );
+    const [replyText, setReplyText] = useState(text || '');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const selectedDevice = store.devices.find(d => d.id === selectedDeviceId);
+    const preview = replyText.trim() ? parseReply(replyText) : null;
+    const pendingCommands = selectedDeviceId ? getDeviceCommands(selectedDeviceId).filter(isOpenCommand) : [];
+
+    const handlePaste = async () => {
+        const clipboardText = await Clipboard.getStringAsync();
+        if (!clipboardText) {
+            Alert.alert('Clipboard Empty', 'Copy the reply from your messaging app first.');
+            return;
+        }
+        setReplyText(clipboardText);
+    };
+
+    const handleSubmit = async () => {
+        if (!selectedDevice || !replyText.trim()) return;
+
+        setIsSubmitting(true);
+        try {
+            const result = await applyDeviceReply(selectedDevice.id, replyText);
+            if (!result) {
+                Alert.alert('Error', 'Failed to process the reply. Please try again.');
+                return;
+            }
+
+            const { reply, command } = result;
+            if (reply.kind === 'unknown') {
+                Alert.alert('Reply Not Recognised', 'The text was saved to the log, but it does not look like a reply from the gate.');
+            } else if (command) {
+                const outcome = command.state === 'failed' ? 'failed' : 'confirmed';
+                Alert.alert(
+                    outcome === 'failed' ? 'Command Failed' : 'Command Confirmed',
+                    `${command.action} (${new Date(command.createdAt).toLocaleTimeString()}) ${outcome}.\n${reply.summary}`
+                );
+            } else {
+                Alert.alert('Reply Saved', `${reply.summary}\n\nNo pending command matched this reply.`);
+            }
+
+            setReplyText('');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Device Reply" showBack />
+
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                <Card title="Reply From" elevated>
+                    {store.devices.length === 0 ? (
+                        <Text style={styles.emptyText}>Add a device before confirming replies</Text>
+                    ) : (
+                        <View style={styles.devicesList}>
+                            {store.devices.map(device => {
+                                const isSelected = device.id === selectedDeviceId;
+                                return (
+                                    <TouchableOpacity
+                                        key={device.id}
+                                        style={[styles.deviceChip, isSelected && styles.deviceChipSelected]}
+                                        onPress={() => setSelectedDeviceId(device.id)}
+                                    >
+                                        <Text style={[styles.deviceChipText, isSelected && styles.deviceChipTextSelected]}>
+                                            {device.name}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+                    )}
+                    {selectedDevice && (
+                        <Text style={styles.deviceNumber}>{selectedDevice.unitNumber}</Text>
+                    )}
+                </Card>
+
+                <Card title="Reply Text">
+                    <TextInputField
+                        value={replyText}
+                        onChangeText={setReplyText}
+                        placeholder="Paste the SMS the gate sent back"
+                        multiline
+                        numberOfLines={4}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        containerStyle={styles.inputContainer}
+                    />
+                    <Button
+                        title="Paste from Clipboard"
+                        onPress={handlePaste}
+                        variant="outline"
+                        icon="clipboard-outline"
+                        style={styles.pasteButton}
+                        fullWidth
+                    />
+                    {preview && (
+                        <View style={styles.previewRow}>
+                            <Ionicons
+                                name={preview.kind === 'error' ? 'alert-circle' : preview.kind === 'unknown' ? 'help-circle' : 'checkmark-circle'}
+                                size={20}
+                                color={preview.kind === 'error' ? colors.error : preview.kind === 'unknown' ? colors.text.secondary : colors.success}
+                            />
+                            <Text style={styles.previewText}>{preview.summary}</Text>
+                        </View>
+                    )}
+                    <Button
+                        title="Confirm Reply"
+                        onPress={handleSubmit}
+                        loading={isSubmitting}
+                        disabled={!selectedDevice || !replyText.trim()}
+                        fullWidth
+                    />
+                </Card>
+
+                <Card title="Awaiting Reply">
+                    {pendingCommands.length === 0 ? (
+                        <Text style={styles.emptyText}>No commands are waiting for a reply</Text>
+                    ) : (
+                        pendingCommands.map(command => (
+                            <View key={command.id} style={styles.pendingItem}>
+                                <Ionicons name="hourglass-outline" size={18} color={colors.warning} />
+                                <View style={styles.pendingTextContainer}>
+                                    <Text style={styles.pendingAction}>{command.action}</Text>
+                                    <Text style={styles.pendingDetails}>
+                                        {command.details} • {new Date(command.createdAt).toLocaleString()}
+                                    </Text>
+                                </View>
+                            </View>
+                        ))
+                    )}
+                </Card>
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    devicesList: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    deviceChip: {
+        backgroundColor: colors.surfaceVariant,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.pill,
+        marginRight: spacing.sm,
+        marginBottom: spacing.sm,
+        borderWidth: 1,
+        borderColor: colors.border,
+    },
+    deviceChipSelected: {
+        borderColor: colors.primary,
+        backgroundColor: `${colors.primary}10`,
+    },
+    deviceChipText: {
+        fontSize: 14,
+        color: colors.text.primary,
+        fontWeight: '500',
+    },
+    deviceChipTextSelected: {
+        color: colors.primary,
+    },
+    deviceNumber: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+    inputContainer: {
+        marginBottom: spacing.md,
+    },
+    pasteButton: {
+        marginBottom: spacing.md,
+    },
+    previewRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: spacing.md,
+    },
+    previewText: {
+        fontSize: 14,
+        color: colors.text.primary,
+        marginLeft: spacing.sm,
+        flex: 1,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: colors.text.secondary,
+    },
+    pendingItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    pendingTextContainer: {
+        marginLeft: spacing.sm,
+        flex: 1,
+    },
+    pendingAction: {
+        fontSize: 16,
+        fontWeight: '500',
+        color: colors.text.primary,
+    },
+    pendingDetails: {
+        fontSize: 12,
+        color: colors.text.secondary,
+    },
+});
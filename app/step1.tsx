@@ -1,6 +1,6 @@
 // app/step1.tsx
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert, Platform } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Alert, Platform, TouchableOpacity } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { StandardHeader } from './components/StandardHeader';
@@ -9,18 +9,22 @@ import { Button } from './components/Button';
 import { TextInputField } from './components/TextInputField';
 import { colors, spacing, borderRadius } from './styles/theme';
 import { useDataStore } from './contexts/DataStoreContext';
-import { formatSMSCommand, sendSMSCommand } from './utils/smsUtils'; // Import sms functions
+import { sendGateCommand } from './utils/smsUtils'; // Import sms functions
+import { encodeCommand, describeValidationErrors } from './utils/gateCommands';
 import { Device } from './utils/DataStore'; // Use the unified Device type
+import { DEFAULT_MODEL, DEVICE_MODELS, GATE_MODELS, GateModel, getCapabilities } from './utils/deviceModels';
 import { useStepCompletion } from './hooks/useStepCompletion';
+import { formatPhoneForDisplay, toDevicePhoneNumber, validatePhoneNumber } from './utils/phoneNumbers';
 
 export default function Step1Page() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { store, getDeviceById, updateDevice, addDevice, updateGlobalSettings } = useDataStore();
+  const { store, getDeviceById, findDeviceByPhone, updateDevice, addDevice, updateGlobalSettings } = useDataStore();
   const [deviceName, setDeviceName] = useState('');
   const [unitNumber, setUnitNumber] = useState('');
   const [password, setPassword] = useState('1234');
   const [adminNumber, setAdminNumber] = useState('');
+  const [model, setModel] = useState<GateModel>(DEFAULT_MODEL);
   const [isLoading, setIsLoading] = useState(false);
   const [deviceId, setDeviceId] = useState<string | undefined>(undefined); // To store device ID
   const [device, setDevice] = useState<Device | null>(null); // To store the whole device object
@@ -38,7 +42,8 @@ export default function Step1Page() {
                 if (foundDevice) {
                     setDevice(foundDevice);
                     setDeviceName(foundDevice.name);
-                    setUnitNumber(foundDevice.unitNumber);
+                    setUnitNumber(formatPhoneForDisplay(foundDevice.unitNumber));
+                    setModel(foundDevice.type || DEFAULT_MODEL);
                     setPassword(foundDevice.password); // Load existing password
                 }
             } else if (store.globalSettings.activeDeviceId) {
@@ -48,13 +53,14 @@ export default function Step1Page() {
                 if (activeDevice) {
                     setDevice(activeDevice);
                     setDeviceName(activeDevice.name);
-                    setUnitNumber(activeDevice.unitNumber);
+                    setUnitNumber(formatPhoneForDisplay(activeDevice.unitNumber));
+                    setModel(activeDevice.type || DEFAULT_MODEL);
                     setPassword(activeDevice.password); // Load existing password
                 }
             }
 
             // Always load admin number from global settings
-            setAdminNumber(store.globalSettings.adminNumber);
+            setAdminNumber(formatPhoneForDisplay(store.globalSettings.adminNumber));
 
         } catch (error) {
             console.error('Failed to load device data:', error);
@@ -74,8 +80,15 @@ export default function Step1Page() {
             return false;
         }
 
-        if (!unitNumber.trim()) {
-            Alert.alert('Error', 'Please enter the device phone number');
+        const unitError = validatePhoneNumber(unitNumber);
+        if (unitError) {
+            Alert.alert('Invalid Relay Number', unitError);
+            return false;
+        }
+
+        const duplicate = findDeviceByPhone(unitNumber);
+        if (duplicate && duplicate.id !== deviceId) {
+            Alert.alert('Duplicate Number', `${duplicate.name} already uses this phone number`);
             return false;
         }
 
@@ -83,8 +96,9 @@ export default function Step1Page() {
             Alert.alert('Error', 'Password must be exactly 4 digits');
             return false;
         }
-          if (!adminNumber.trim()) {
-            Alert.alert('Error', 'Please enter your admin phone number');
+          const adminError = validatePhoneNumber(adminNumber);
+          if (adminError) {
+            Alert.alert('Invalid Admin Number', adminError);
             return false;
           }
 
@@ -100,8 +114,9 @@ export default function Step1Page() {
                 // Update existing device
                 const updatedDevice = await updateDevice(deviceId, {
                     name: deviceName,
-                    unitNumber,
+                    unitNumber: toDevicePhoneNumber(unitNumber)!,
                     password,
+                    type: model,
                 });
                 if (!updatedDevice) {
                   throw new Error("Failed to update the device");
@@ -110,10 +125,9 @@ export default function Step1Page() {
                 // Add new device
                 const newDevice = await addDevice({
                     name: deviceName,
-                    unitNumber,
+                    unitNumber: toDevicePhoneNumber(unitNumber)!,
                     password,
-                    authorizedUsers: [],
-                    type: 'Connect4v', // Assuming default, adapt if you have device type selection
+                    type: model,
                 });
               if(!newDevice) {
                 throw new Error("Failed to create a device");
@@ -123,14 +137,13 @@ export default function Step1Page() {
 
             // Update global settings (admin number and completed steps)
             await updateGlobalSettings({
-                adminNumber,
+                adminNumber: toDevicePhoneNumber(adminNumber)!,
                 completedSteps: [...store.globalSettings.completedSteps.filter(step => step !== 'step1'), 'step1']
             });
             await markStepCompleted(); // Mark this step as complete
             Alert.alert('Success', 'Settings saved successfully', [
-                { text: 'OK', onPress: () => router.push('/setup')// ... (rest of the imports from the previous code block)
-
-                ]);
+                { text: 'OK', onPress: () => router.push('/setup') }
+            ]);
             } catch (error) {
                 console.error('Failed to save settings:', error);
                 Alert.alert('Error', 'Failed to save settings');
@@ -145,18 +158,13 @@ export default function Step1Page() {
         setIsLoading(true);
     
         try {
-          // Format the admin number to remove any non-digit characters
-          let formattedAdminNumber = adminNumber.replace(/\D/g, '');
-    
-          // Make sure the number has the correct format with "00" prefix before country code
-          if (formattedAdminNumber.startsWith('0') && !formattedAdminNumber.startsWith('00')) {
-            formattedAdminNumber = '00' + formattedAdminNumber.substring(1); // Replace single 0 with 00
-          } else if (!formattedAdminNumber.startsWith('00')) {
-            formattedAdminNumber = '00' + formattedAdminNumber;
-          }
-    
           // Format: PwdTEL00614xxxxxxxx#
-          const command = formatSMSCommand(password, 'REGISTER_ADMIN', { adminNumber: formattedAdminNumber });
+          const encoded = encodeCommand({ type: 'REGISTER_ADMIN', password, adminNumber: toDevicePhoneNumber(adminNumber) || adminNumber }, getCapabilities(model));
+          if (encoded.ok === false) {
+            Alert.alert('Invalid Command', describeValidationErrors(encoded.errors));
+            return;
+          }
+          const command = encoded.body;
           console.log(`Admin registration command: ${command}`);
     
             // Open SMS app with pre-filled command
@@ -183,13 +191,16 @@ export default function Step1Page() {
           return;
         }
         setIsLoading(true)
-        const command = formatSMSCommand(password, 'STATUS');
-        console.log(`Status check command: ${command}`);
-    
         // Open SMS app with pre-filled command
-        await sendSMSCommand({phoneNumber: unitNumber, command, deviceId, setLoading, errorTitle:"test connection error"});
+        await sendGateCommand({phoneNumber: unitNumber, command: { type: 'STATUS', password }, deviceId, model, setLoading, errorTitle:"test connection error"});
       };
     
+      // Preview the exact body the encoder will produce, or why it cannot be produced
+      const adminCommandPreview = (() => {
+          const encoded = encodeCommand({ type: 'REGISTER_ADMIN', password, adminNumber: toDevicePhoneNumber(adminNumber) || adminNumber }, getCapabilities(model));
+          return encoded.ok === false ? describeValidationErrors(encoded.errors) : encoded.body;
+      })();
+
       // Conditional rendering based on whether a device is selected/created
       const showSetupForm = () => {
           return (
@@ -216,10 +227,31 @@ export default function Step1Page() {
                           editable={!isLoading} // Disable when loading
                       />
     
+                      <Text style={styles.fieldLabel}>Device Model</Text>
+                      <View style={styles.modelOptions}>
+                          {GATE_MODELS.map(option => {
+                              const isSelected = option === model;
+                              return (
+                                  <TouchableOpacity
+                                      key={option}
+                                      style={[styles.modelOption, isSelected && styles.modelOptionSelected]}
+                                      onPress={() => setModel(option)}
+                                      disabled={isLoading}
+                                  >
+                                      <Text style={[styles.modelOptionText, isSelected && styles.modelOptionTextSelected]}>
+                                          {option}
+                                      </Text>
+                                      <Text style={styles.modelOptionDescription}>{DEVICE_MODELS[option].description}</Text>
+                                  </TouchableOpacity>
+                              );
+                          })}
+                      </View>
+
                       <TextInputField
                           label="GSM Relay Phone Number"
                           value={unitNumber}
                           onChangeText={setUnitNumber}
+                          onBlur={() => setUnitNumber(formatPhoneForDisplay(unitNumber))}
                           placeholder="Enter phone number"
                           keyboardType="phone-pad"
                           autoComplete="tel"
@@ -250,7 +282,7 @@ export default function Step1Page() {
                               <Ionicons name={mapIoniconName("alert-circle-outline")} size={24} color={colors.warning} style={styles.infoIcon} />
                               <Text style={styles.infoText}>
                                   Important: Register your phone as an administrator to control the relay.
-                                  Number format example: 0061469xxxxxx
+                                  Enter it as you would dial it (0469 xxx xxx or +61 469 xxx xxx); it is sent to the relay as 0061469xxxxxx.
                               </Text>
                           </View>
     
@@ -258,17 +290,16 @@ export default function Step1Page() {
                               label="Your Admin Phone Number"
                               value={adminNumber}
                               onChangeText={setAdminNumber}
-                              placeholder="Enter your number (e.g., 0061469xxxxxx)"
+                              onBlur={() => setAdminNumber(formatPhoneForDisplay(adminNumber))}
+                              placeholder="Enter your number (e.g., 0469 xxx xxx)"
                               keyboardType="phone-pad"
                               containerStyle={styles.inputContainer}
                               editable={!isLoading} // Disable when loading
                           />
     
                           <Text style={styles.commandPreview}>
-                            Command: {password}TEL{adminNumber.replace(/\D/g, '').startsWith('00') ?
-                            adminNumber.replace(/\D/g, '') :
-                            '00' + adminNumber.replace(/\D/g, '')}#
-                        </Text>
+                            Command: {adminCommandPreview}
+                          </Text>
     
                          <Button
                               title="Register Admin Number"
@@ -382,6 +413,41 @@ export default function Step1Page() {
             color: colors.text.secondary,
             lineHeight: 20,
         },
+        fieldLabel: {
+            fontSize: 14,
+            fontWeight: '500',
+            color: colors.text.primary,
+            marginBottom: spacing.xs,
+        },
+        modelOptions: {
+            flexDirection: 'row',
+            gap: spacing.sm,
+            marginBottom: spacing.md,
+        },
+        modelOption: {
+            flex: 1,
+            borderWidth: 1,
+            borderColor: colors.border,
+            borderRadius: borderRadius.md,
+            padding: spacing.sm,
+        },
+        modelOptionSelected: {
+            borderColor: colors.primary,
+            backgroundColor: `${colors.primary}10`,
+        },
+        modelOptionText: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: colors.text.primary,
+            marginBottom: spacing.xs,
+        },
+        modelOptionTextSelected: {
+            color: colors.primary,
+        },
+        modelOptionDescription: {
+            fontSize: 12,
+            color: colors.text.secondary,
+        },
         divider: {
             height: 1,
             backgroundColor: colors.border,
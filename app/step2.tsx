@@ -5,10 +5,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { StandardHeader } from './components/StandardHeader';
 import { Card } from './components/Card';
 import { Button } from './components/Button';
+import { CommandStatusBanner } from './components/CommandStatusBanner';
 import { TextInputField } from './components/TextInputField';
 import { colors, spacing, borderRadius } from './styles/theme';
 import { useDataStore } from './contexts/DataStoreContext';
-import { formatSMSCommand, sendSMSCommand } from '../utils/smsUtils';
+import { sendGateCommand } from './utils/smsUtils';
 import { useStepCompletion } from './hooks/useStepCompletion';
 
 export default function Step2Page() {
@@ -72,11 +73,11 @@ export default function Step2Page() {
       const updatedDevice = await updateDevice(deviceId, { password: newPassword });
   
       if (updatedDevice) {
-        const command = formatSMSCommand(currentPassword, 'CHANGE_PASSWORD', { newPassword });
-        const smsSuccess = await sendSMSCommand({
+        const smsSuccess = await sendGateCommand({
           phoneNumber: updatedDevice.unitNumber,
-          command,
+          command: { type: 'CHANGE_PASSWORD', password: currentPassword, newPassword },
           deviceId,
+          model: updatedDevice.type,
           setLoading,
           errorTitle: "Password Change Error",
           errorMessage: "Failed to send SMS to change password. Please try again.",
@@ -116,6 +117,7 @@ export default function Step2Page() {
         </View>
       ) : (
         <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          <CommandStatusBanner deviceId={deviceId} />
           <Card title="Change Device Password" elevated>
             <View style={styles.infoContainer}>
               <Ionicons name="information-circle-outline" size={24} color={colors.primary} style={styles.infoIcon} />
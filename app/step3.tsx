@@ -5,25 +5,36 @@ import { Ionicons } from '@expo/vector-icons';
 import { StandardHeader } from './components/StandardHeader';
 import { Card } from './components/Card';
 import { Button } from './components/Button';
+import { CommandStatusBanner } from './components/CommandStatusBanner';
 import { TextInputField } from './components/TextInputField';
 import { colors, spacing, borderRadius } from './styles/theme';
 import { useDataStore } from './contexts/DataStoreContext';
 import { User } from './utils/DataStore'; // Import User from DataStore
-import { formatSMSCommand, sendSMSCommand } from './utils/smsUtils';
+import { findNextFreeSlot } from './utils/userSlots';
+import { AccessWindow, encodeAccessWindow, validateAccessWindow } from './utils/accessWindow';
+import { AccessWindowPicker } from './components/AccessWindowPicker';
+import { ContactPicker, PickedContact } from './components/ContactPicker';
+import { CommandQueueCard } from './components/CommandQueueCard';
+import { sendGateCommand } from './utils/smsUtils';
+import { formatPhoneForDisplay, toDevicePhoneNumber, validatePhoneNumber } from './utils/phoneNumbers';
 import { useStepCompletion } from './hooks/useStepCompletion';
+import { useAddUsers } from './hooks/useAddUsers';
 import { mapIoniconName } from './utils/iconMapping';
+import { getCapabilities } from './utils/deviceModels';
 
 export default function Step3Page() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { store, getDeviceById, addUser, authorizeUserForDevice, updateGlobalSettings } = useDataStore();
+  const {
+    store, getDeviceById, getDeviceUsers, findUserByPhone, addUser, assignSlot, freeSlot, addDeviceLog, updateGlobalSettings,
+  } = useDataStore();
+  const { addUsers } = useAddUsers();
   const [newUserName, setNewUserName] = useState('');
   const [newUserPhone, setNewUserPhone] = useState('');
   const [newUserSerial, setNewUserSerial] = useState('');
-  const [newUserStartTime, setNewUserStartTime] = useState('');
-  const [newUserEndTime, setNewUserEndTime] = useState('');
+  const [accessWindow, setAccessWindow] = useState<AccessWindow | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [contactPicker, setContactPicker] = useState<'single' | 'multiple' | null>(null);
   const deviceId = params.deviceId ? String(params.deviceId) : undefined;
   const [device, setDevice] = useState<Device | null>(null);
   const { isCompleted, markStepCompletion } = useStepCompletion({ stepKey: 'step3' });
@@ -47,24 +58,16 @@ export default function Step3Page() {
     }, [loadDeviceData]);
 
   const { users: authorizedUsers, saveUsers } = useAuthorizedUsers(deviceId);
+  const capabilities = getCapabilities(device?.type);
+  const lastSerial = capabilities.maxUsers.toString().padStart(3, '0');
 
+  // Slots are per device, so only this device's table matters
   const generateNextSerial = () => {
     if (!authorizedUsers) {
         return '001';
     }
 
-    const usedSerials = authorizedUsers.map(user => parseInt(user.serialNumber, 10))
-                                       .filter(num => !isNaN(num));
-    let nextSerial = 1;
-    while (usedSerials.includes(nextSerial) && nextSerial <= 200) {
-        nextSerial++;
-    }
-
-    if (nextSerial <= 200) {
-        return nextSerial.toString().padStart(3, '0');
-    }
-
-    return ''; // Or handle the case where all serials are used
+    return findNextFreeSlot(authorizedUsers.map(user => user.serialNumber), capabilities.maxUsers) || '';
   };
 
   // Set the next serial number when authorizedUsers change or component mounts
@@ -79,7 +82,16 @@ export default function Step3Page() {
       Alert.alert('Error', 'Please enter both phone number and serial position');
       return false;
     }
-    // Add more validation as needed, e.g., phone number format
+    const phoneError = validatePhoneNumber(newUserPhone);
+    if (phoneError) {
+      Alert.alert('Invalid Phone Number', phoneError);
+      return false;
+    }
+    const windowErrors = validateAccessWindow(accessWindow, capabilities);
+    if (windowErrors.length > 0) {
+      Alert.alert('Invalid Time Restrictions', windowErrors.join('\n'));
+      return false;
+    }
     return true;
   };
 
@@ -87,37 +99,44 @@ export default function Step3Page() {
     if (!validateUser() || !deviceId || !device) return;
     setIsLoading(true);
 
+    const { startTime, endTime } = encodeAccessWindow(accessWindow);
+    const phoneDigits = toDevicePhoneNumber(newUserPhone)!;
     try {
       const newUser: Omit<User, 'id'> = {
         name: newUserName || 'Unnamed User',
-        phoneNumber: newUserPhone,
-        serialNumber: newUserSerial,
-        startTime: newUserStartTime || undefined,
-        endTime: newUserEndTime || undefined
+        phoneNumber: phoneDigits,
       };
 
-      // Add the user to the data store.
-      const addedUser = await addUser(newUser);
-      if (!addedUser) {
+      // Someone already on another gate keeps their record and gets a slot here
+      const person = findUserByPhone(phoneDigits) || await addUser(newUser);
+      if (!person) {
         throw new Error("Failed to add user to the data store.");
       }
       
-      // Authorize this user for the current device.
-      await authorizeUserForDevice(deviceId, addedUser.id);
-
-      // Format the command using the centralized function.
-      const command = formatSMSCommand(device.password, 'ADD_USER', {
-          serial: newUserSerial,
-          phone: newUserPhone,
-          startTime: newUserStartTime,
-          endTime: newUserEndTime,
+      // Reserve the slot on this device; it stays pending until the device confirms
+      const slot = await assignSlot(deviceId, person.id, {
+        serialNumber: newUserSerial,
+        startTime,
+        endTime,
       });
+      if (!slot) {
+        Alert.alert('Error', `Position ${newUserSerial} is taken or this person already has a position on this device.`);
+        return;
+      }
 
-      // Send the SMS command.
-      const success = await sendSMSCommand({
+      // Send the typed command; it is validated before the SMS is composed.
+      const success = await sendGateCommand({
         phoneNumber: device.unitNumber,
-        command,
+        command: {
+          type: 'ADD_USER',
+          password: device.password,
+          serial: newUserSerial,
+          phone: phoneDigits,
+          startTime,
+          endTime,
+        },
         deviceId: device.id,
+        model: device.type,
         setLoading
       });
         
@@ -135,12 +154,14 @@ export default function Step3Page() {
               setNewUserName('');
               setNewUserPhone('');
               setNewUserSerial('');
-              setNewUserStartTime('');
-              setNewUserEndTime('');
+              setAccessWindow(null);
               
               loadUsers(); // Refresh users
             }}]
           );
+      } else {
+          // Nothing reached the device, so give the position back
+          await freeSlot(deviceId, slot.serialNumber);
       }
 
     } catch (error) {
@@ -151,6 +172,45 @@ export default function Step3Page() {
     }
   };
 
+  const handleContactsPicked = (contacts: PickedContact[]) => {
+    const mode = contactPicker;
+    setContactPicker(null);
+    if (contacts.length === 0) return;
+
+    if (mode === 'single') {
+      setNewUserName(contacts[0].name);
+      setNewUserPhone(formatPhoneForDisplay(contacts[0].phoneNumber));
+      return;
+    }
+    Alert.alert(
+      'Add Contacts',
+      `Send ${contacts.length} ADD_USER command${contacts.length === 1 ? '' : 's'} to ${device?.name}? Each contact gets the next free position and the commands are sent one message at a time.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Add', onPress: () => addContacts(contacts) },
+      ]
+    );
+  };
+
+  const addContacts = async (contacts: PickedContact[]) => {
+    if (!deviceId || !device) return;
+    setIsLoading(true);
+
+    try {
+      const result = await addUsers(device, contacts, {
+        title: 'Add from contacts',
+        logAction: 'Users Added',
+        logDetails: 'from contacts',
+      });
+      if (result?.progress && result.progress.sent === result.progress.total) {
+        await markStepCompletion();
+        Alert.alert('Success', `${result.progress.sent} user${result.progress.sent === 1 ? '' : 's'} added and commands sent`);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const viewAuthorizedUsers = () => {
     router.push({
         pathname: '/authorized-users-list',
@@ -163,17 +223,38 @@ export default function Step3Page() {
       <StandardHeader showBack backTo="/setup" title="Manage Users" />
       
       <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <CommandStatusBanner deviceId={deviceId} />
+        <CommandQueueCard deviceId={deviceId} />
         <Card title="Add Authorized Users" elevated>
           <View style={styles.infoContainer}>
             <Ionicons name={mapIoniconName("information-circle-outline")} size={24} color={colors.primary} style={styles.infoIcon} />
             <Text style={styles.infoText}>
               Add phone numbers that are authorized to control your device. 
-              Each user is stored in a position from 001-200 on your device.
+              Each user is stored in a position from 001-{lastSerial} on your device.
             </Text>
           </View>
           
+          <View style={styles.contactButtons}>
+            <Button
+              title="Pick from Contacts"
+              onPress={() => setContactPicker('single')}
+              variant="outline"
+              disabled={isLoading}
+              icon={<Ionicons name="person-circle-outline" size={20} color={colors.primary} />}
+              style={styles.contactButton}
+            />
+            <Button
+              title="Add Several"
+              onPress={() => setContactPicker('multiple')}
+              variant="outline"
+              disabled={isLoading || !device}
+              icon={<Ionicons name="people-outline" size={20} color={colors.primary} />}
+              style={styles.contactButton}
+            />
+          </View>
+
           <TextInputField
-            label="Serial Position (001-200)"
+            label={`Serial Position (001-${lastSerial})`}
             value={newUserSerial}
             onChangeText={setNewUserSerial}
             placeholder="e.g., 001"
@@ -187,6 +268,7 @@ export default function Step3Page() {
             label="Phone Number"
             value={newUserPhone}
             onChangeText={setNewUserPhone}
+            onBlur={() => setNewUserPhone(formatPhoneForDisplay(newUserPhone))}
             placeholder="Enter phone number"
             keyboardType="phone-pad"
             containerStyle={styles.inputContainer}
@@ -202,60 +284,12 @@ export default function Step3Page() {
             editable={!isLoading}
           />
           
-          <TouchableOpacity 
-            style={styles.advancedToggle}
-            onPress={() => setShowAdvanced(!showAdvanced)}
-          >
-            <Text style={styles.advancedToggleText}>
-              {showAdvanced ? 'Hide Time Restrictions' : 'Add Time Restrictions'}
-            </Text>
-            <Ionicons 
-              name={mapIoniconName(showAdvanced ? "chevron-up-outline" : "chevron-down-outline")} 
-              size={18} 
-              color={colors.primary} 
-            />
-          </TouchableOpacity>
-          
-          {showAdvanced && (
-            <View style={styles.advancedOptions}>
-              <Text style={styles.advancedTitle}>Time Restrictions</Text>
-              <Text style={styles.advancedDescription}>
-                Optionally restrict when this user can access the device by setting start and end times.
-              </Text>
-              
-              <View style={styles.timeRow}>
-                <View style={styles.timeInput}>
-                  <TextInputField
-                    label="Start Time"
-                    value={newUserStartTime}
-                    onChangeText={setNewUserStartTime}
-                    placeholder="YYMMDDHHMM"
-                    keyboardType="number-pad"
-                    maxLength={10}
-                    info="Format: Year Month Day Hour Min"
-                    editable={!isLoading}
-                  />
-                </View>
-                
-                <View style={styles.timeInput}>
-                  <TextInputField
-                    label="End Time"
-                    value={newUserEndTime}
-                    onChangeText={setNewUserEndTime}
-                    placeholder="YYMMDDHHMM"
-                    keyboardType="number-pad"
-                    maxLength={10}
-                    info="Format: Year Month Day Hour Min"
-                    editable={!isLoading}
-                  />
-                </View>
-              </View>
-              
-              <Text style={styles.exampleText}>
-                Example: Start 2408050800 = Aug 5, 2024 8:00 AM
-              </Text>
-            </View>
-          )}
+          <AccessWindowPicker
+            value={accessWindow}
+            onChange={setAccessWindow}
+            limits={capabilities}
+            disabled={isLoading}
+          />
           
           <Button
             title="Add User"
@@ -275,6 +309,26 @@ export default function Step3Page() {
             icon={<Ionicons name="list-outline" size={20} color={colors.primary} />}
           />
         </View>
+
+        <View style={styles.viewUsersButtonContainer}>
+          <Button
+            title="Check Users on Device"
+            onPress={() => router.push({ pathname: '/user-reconcile', params: { deviceId } })}
+            variant="secondary"
+            disabled={!deviceId}
+            icon={<Ionicons name="git-compare-outline" size={20} color={colors.primary} />}
+          />
+        </View>
+
+        <View style={styles.viewUsersButtonContainer}>
+          <Button
+            title="Import Users from CSV"
+            onPress={() => router.push({ pathname: '/user-import', params: { deviceId } })}
+            variant="secondary"
+            disabled={!deviceId}
+            icon={<Ionicons name="document-outline" size={20} color={colors.primary} />}
+          />
+        </View>
         
         <Button
           title="Continue to Device Settings"
@@ -288,6 +342,14 @@ export default function Step3Page() {
           fullWidth
         />
       </ScrollView>
+
+      <ContactPicker
+        visible={contactPicker !== null}
+        multiple={contactPicker === 'multiple'}
+        existingUsers={deviceId ? getDeviceUsers(deviceId) : []}
+        onClose={() => setContactPicker(null)}
+        onSelect={handleContactsPicked}
+      />
     </View>
   );
 }
@@ -324,60 +386,20 @@ const styles = StyleSheet.create({
   inputContainer: {
     marginBottom: spacing.md,
   },
-  sectionTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: colors.text.primary,
-    marginBottom: spacing.sm,
-  },
-  advancedToggle: {
+  contactButtons: {
     flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginVertical: 8,
-    padding: 8,
-    backgroundColor: `${colors.primary}10`,
-    borderRadius: 8,
-  },
-  advancedToggleText: {
-    color: colors.primary,
-    fontWeight: '500',
-    marginRight: 4,
+    marginBottom: spacing.md,
   },
-  advancedOptions: {
-    marginTop: 8,
-    marginBottom: 16,
-    padding: 12,
-    backgroundColor: `${colors.surfaceVariant}50`,
-    borderRadius: borderRadius.md,
-    borderLeftWidth: 3,
-    borderLeftColor: colors.primary,
+  contactButton: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
   },
-  advancedTitle: {
+  sectionTitle: {
     fontSize: 16,
     fontWeight: '600',
     color: colors.text.primary,
-    marginBottom: 4,
+    marginBottom: spacing.sm,
   },
-  advancedDescription: {
-    fontSize: 14,
-    color: colors.text.secondary,
-    marginBottom: 12,
-},
-timeRow: {
-  flexDirection: 'row',
-  justifyContent: 'space-between',
-},
-timeInput: {
-  width: '48%',
-},
-exampleText: {
-  fontSize: 12,
-  color: colors.text.secondary,
-  fontStyle: 'italic',
-  marginTop: 4,
-  textAlign: 'center',
-},
 addButton: {
   marginTop: spacing.md,
 },
@@ -5,12 +5,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { StandardHeader } from './components/StandardHeader';
 import { Card } from './components/Card';
 import { Button } from './components/Button';
+import { CommandStatusBanner } from './components/CommandStatusBanner';
 import { TextInputField } from './components/TextInputField';
 import { colors, spacing, borderRadius } from './styles/theme';
 import { useDataStore } from './contexts/DataStoreContext';
-import { formatSMSCommand, sendSMSCommand } from '../utils/smsUtils'; // Import sms functions
+import { sendGateCommand } from './utils/smsUtils'; // Import sms functions
 import { Device } from './utils/DataStore'; // Use the unified Device type
 import { useStepCompletion } from './hooks/useStepCompletion';
+import { getCapabilities, supportsCommand } from './utils/deviceModels';
 
 export default function Step4Page() {
     const router = useRouter();
@@ -20,13 +22,14 @@ export default function Step4Page() {
     const [unitNumber, setUnitNumber] = useState('');
     const [password, setPassword] = useState('');
     const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
-    const [relaySettings, setRelaySettings] = useState({
+    const [relaySettings, setRelaySettings] = useState<{ accessControl: 'AUT' | 'ALL'; latchTime: string }>({
         accessControl: 'AUT',  // AUT (only authorized) or ALL (anyone can control)
         latchTime: '000',      // Relay latch time in seconds (000-999)
     });
     const [isLoading, setIsLoading] = useState(false);
     const [isDataLoading, setIsDataLoading] = useState(true); // Separate loading for initial data load
     const {isCompleted, markStepCompleted } = useStepCompletion({stepKey: 'step4'});
+    const latchMax = getCapabilities(device?.type).latchRange.max.toString().padStart(3, '0');
 
     // Load device data based on params or active device
     const loadDeviceData = useCallback(async () => {
@@ -100,8 +103,12 @@ export default function Step4Page() {
         setRelaySettings(prev => ({ ...prev, accessControl: type }));
 
         // Send command to device, now handled by a centralized utility
-        const command = formatSMSCommand(password, 'SET_ACCESS', { accessType: type });
-        sendSMS({ deviceId, command });
+        sendGateCommand({
+            phoneNumber: unitNumber,
+            command: { type: 'SET_ACCESS', password, accessType: type },
+            deviceId,
+            model: device?.type,
+        });
     };
 
     // Latch Time Settings with disabled state when unitNumber is missing
@@ -112,12 +119,11 @@ export default function Step4Page() {
         }
     
         setIsLoading(true);
-        const command = formatSMSCommand(password, 'SET_LATCH', { latchTime: relaySettings.latchTime });
-    
-        const success = await sendSMSCommand({
+        const success = await sendGateCommand({
           phoneNumber: unitNumber,
-          command,
+          command: { type: 'SET_LATCH', password, latchTime: relaySettings.latchTime },
           deviceId,
+          model: device?.type,
           setLoading,
           errorTitle: "Latch Time Error",
           errorMessage: "Failed to update latch time. Check device connection and try again.",
@@ -175,6 +181,9 @@ export default function Step4Page() {
                   </View>
                 )}
 
+                <CommandStatusBanner deviceId={deviceId} />
+
+                {supportsCommand(device?.type, 'SET_ACCESS') && (
                 <Card title="Access Control" elevated>
                     <Text style={styles.sectionDescription}>
                         Choose who can control your GSM relay device
@@ -232,6 +241,7 @@ export default function Step4Page() {
                         </TouchableOpacity>
                     </View>
                 </Card>
+                )}
 
                 <Card title="Relay Timing Settings">
                     <Text style={styles.sectionDescription}>
@@ -248,7 +258,7 @@ export default function Step4Page() {
                             <TextInputField
                                 value={relaySettings.latchTime}
                                 onChangeText={handleLatchTimeChange}
-                                placeholder="Enter time in seconds (000-999)"
+                                placeholder={`Enter time in seconds (000-${latchMax})`}
                                 keyboardType="number-pad"
                                 maxLength={3}
                                 containerStyle={styles.latchTimeInput}
@@ -0,0 +1,294 @@
+// app/user-edit.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, Alert, ScrollView, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StandardHeader } from './components/StandardHeader';
+import { Button } from './components/Button';
+import { Card } from './components/Card';
+import { TextInputField } from './components/TextInputField';
+import { colors, spacing, borderRadius } from './styles/theme';
+import { useDataStore } from './contexts/DataStoreContext';
+import { DeviceUser } from './utils/DataStore';
+import { sendGateCommand } from './utils/smsUtils';
+import { getCapabilities } from './utils/deviceModels';
+import { AccessWindow, decodeAccessWindow, encodeAccessWindow, validateAccessWindow } from './utils/accessWindow';
+import { AccessWindowPicker } from './components/AccessWindowPicker';
+import { formatPhoneForDisplay, isSamePhoneNumber, toDevicePhoneNumber, validatePhoneNumber } from './utils/phoneNumbers';
+
+type EditableFields = Pick<DeviceUser, 'name' | 'phoneNumber' | 'startTime' | 'endTime'>;
+
+const FIELD_LABELS: Record<keyof EditableFields, string> = {
+    name: 'name',
+    phoneNumber: 'phone',
+    startTime: 'start',
+    endTime: 'end',
+};
+
+// "phone 0400111222 → 0400333444; end none → 2412312359" for the change log
+const describeChanges = (before: EditableFields, after: EditableFields): string =>
+    (Object.keys(FIELD_LABELS) as (keyof EditableFields)[])
+        .filter(field => (before[field] || '') !== (after[field] || ''))
+        .map(field => `${FIELD_LABELS[field]} ${before[field] || 'none'} → ${after[field] || 'none'}`)
+        .join('; ');
+
+export default function EditUserPage() {
+    const router = useRouter();
+    const { deviceId, userId } = useLocalSearchParams<{ deviceId: string; userId: string }>();
+    const {
+        store, getDeviceById, getDeviceUsers, findUserByPhone, updateUser, updateSlot, addDeviceLog, enqueueCommands,
+    } = useDataStore();
+    const [user, setUser] = useState<DeviceUser | null>(null);
+    const [name, setName] = useState('');
+    const [phoneNumber, setPhoneNumber] = useState('');
+    const [accessWindow, setAccessWindow] = useState<AccessWindow | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const device = deviceId ? getDeviceById(deviceId) : undefined;
+    const capabilities = getCapabilities(device?.type);
+
+    const loadUser = useCallback(() => {
+        if (!deviceId || !userId) return;
+
+        const foundUser = getDeviceUsers(deviceId).find(u => u.id === userId);
+        if (foundUser) {
+            setUser(foundUser);
+            setName(foundUser.name);
+            setPhoneNumber(formatPhoneForDisplay(foundUser.phoneNumber));
+            setAccessWindow(decodeAccessWindow(foundUser.startTime, foundUser.endTime));
+        } else {
+            Alert.alert('Error', 'User not found');
+            router.back();
+        }
+        setIsLoading(false);
+    }, [deviceId, userId]);
+
+    useEffect(() => {
+        loadUser();
+    }, [loadUser]);
+
+    // Put the person and their slot back the way they were
+    const rollback = async (before: DeviceUser) => {
+        await updateUser(before.id, { name: before.name, phoneNumber: before.phoneNumber });
+        await updateSlot(deviceId, before.serialNumber, {
+            startTime: before.startTime,
+            endTime: before.endTime,
+            status: before.status,
+        });
+    };
+
+    const handleSave = async () => {
+        if (!user || !device) return;
+        const phoneError = validatePhoneNumber(phoneNumber);
+        if (phoneError) {
+            Alert.alert('Invalid Phone Number', phoneError);
+            return;
+        }
+        const owner = findUserByPhone(phoneNumber);
+        if (owner && owner.id !== user.id) {
+            Alert.alert('Duplicate Number', `${formatPhoneForDisplay(phoneNumber)} already belongs to ${owner.name}.`);
+            return;
+        }
+
+        // Reformatting the same number is not a change
+        const before: EditableFields = user;
+        const after: EditableFields = {
+            name: name.trim() || 'Unnamed User',
+            phoneNumber: isSamePhoneNumber(user.phoneNumber, phoneNumber) ? user.phoneNumber : toDevicePhoneNumber(phoneNumber)!,
+            ...encodeAccessWindow(accessWindow),
+        };
+        const changes = describeChanges(before, after);
+        if (!changes) {
+            router.back();
+            return;
+        }
+
+        // Only the number and access window are stored on the device
+        const windowChanged = (before.startTime || '') !== (after.startTime || '')
+            || (before.endTime || '') !== (after.endTime || '');
+        const deviceChanged = before.phoneNumber !== after.phoneNumber || windowChanged;
+
+        // An already expired window may be kept while other details change
+        const windowErrors = windowChanged ? validateAccessWindow(accessWindow, capabilities) : [];
+        if (windowErrors.length > 0) {
+            Alert.alert('Invalid Time Restrictions', windowErrors.join('\n'));
+            return;
+        }
+
+        setIsSaving(true);
+        const queuedDevices: string[] = [];
+        try {
+            await updateUser(user.id, { name: after.name, phoneNumber: after.phoneNumber });
+            await updateSlot(device.id, user.serialNumber, {
+                startTime: after.startTime,
+                endTime: after.endTime,
+                ...(deviceChanged ? { status: 'pending' as const } : {}),
+            });
+
+            if (deviceChanged) {
+                // Writing the same position again overwrites the old number on the device
+                const sent = await sendGateCommand({
+                    phoneNumber: device.unitNumber,
+                    command: {
+                        type: 'ADD_USER',
+                        password: device.password,
+                        serial: user.serialNumber,
+                        phone: after.phoneNumber,
+                        startTime: after.startTime,
+                        endTime: after.endTime,
+                    },
+                    deviceId: device.id,
+                    model: device.type,
+                });
+                if (!sent) {
+                    await rollback(user);
+                    Alert.alert('Not Saved', 'The command was not sent, so your changes were undone.');
+                    return;
+                }
+
+                // The number is shared by every gate this person is on, so each of them gets the
+                // same overwrite of its own position, queued to be sent from that gate's user list
+                if (before.phoneNumber !== after.phoneNumber) {
+                    const otherSlots = store.slots.filter(s => s.userId === user.id && s.deviceId !== device.id);
+                    for (const slot of otherSlots) {
+                        const otherDevice = getDeviceById(slot.deviceId);
+                        if (!otherDevice) continue;
+                        await updateSlot(slot.deviceId, slot.serialNumber, { status: 'pending' });
+                        const batch = await enqueueCommands(otherDevice.id, `New number for ${after.name}`, [{
+                            label: `Update ${after.name} (#${slot.serialNumber})`,
+                            command: {
+                                type: 'ADD_USER',
+                                password: otherDevice.password,
+                                serial: slot.serialNumber,
+                                phone: after.phoneNumber,
+                                startTime: slot.startTime,
+                                endTime: slot.endTime,
+                            },
+                        }]);
+                        if (batch) queuedDevices.push(otherDevice.name);
+                    }
+                }
+            }
+
+            await addDeviceLog(device.id, 'User Updated', `Slot ${user.serialNumber}: ${changes}`, true, 'user');
+            const queuedNote = queuedDevices.length > 0
+                ? `\n\nThe new number is queued for ${queuedDevices.join(', ')}. Send it from ${queuedDevices.length === 1 ? 'that device' : 'each device'}'s user list.`
+                : '';
+            Alert.alert(
+                'Success',
+                `${deviceChanged ? 'User updated and command sent to the device' : 'User updated'}${queuedNote}`,
+                [{ text: 'OK', onPress: () => router.back() }]
+            );
+        } catch (error) {
+            console.error('Failed to update user:', error);
+            await rollback(user);
+            Alert.alert('Error', 'Failed to update user. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading || !user) {
+        return (
+            <View style={styles.container}>
+                <StandardHeader title="Edit User" showBack />
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color={colors.primary} />
+                    <Text>Loading user information...</Text>
+                </View>
+            </View>
+        );
+    }
+
+    const sharedSlots = store.slots.filter(s => s.userId === user.id && s.deviceId !== deviceId).length;
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Edit User" showBack />
+
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                <Card title={`Position ${user.serialNumber}${device ? ` on ${device.name}` : ''}`} elevated>
+                    <TextInputField
+                        label="Name"
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="Enter user name"
+                        containerStyle={styles.inputContainer}
+                        editable={!isSaving}
+                    />
+
+                    <TextInputField
+                        label="Phone Number"
+                        value={phoneNumber}
+                        onChangeText={setPhoneNumber}
+                        onBlur={() => setPhoneNumber(formatPhoneForDisplay(phoneNumber))}
+                        placeholder="Enter phone number"
+                        keyboardType="phone-pad"
+                        containerStyle={styles.inputContainer}
+                        editable={!isSaving}
+                    />
+
+                    {sharedSlots > 0 && (
+                        <View style={styles.noticeContainer}>
+                            <Ionicons name="information-circle-outline" size={20} color={colors.primary} />
+                            <Text style={styles.noticeText}>
+                                This person is also on {sharedSlots} other device{sharedSlots === 1 ? '' : 's'}.
+                                A new number is queued for {sharedSlots === 1 ? 'it' : 'them'} when you save.
+                            </Text>
+                        </View>
+                    )}
+
+                    <AccessWindowPicker
+                        value={accessWindow}
+                        onChange={setAccessWindow}
+                        limits={capabilities}
+                        disabled={isSaving}
+                    />
+                </Card>
+
+                <Button
+                    title="Save Changes"
+                    onPress={handleSave}
+                    loading={isSaving}
+                    fullWidth
+                />
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    inputContainer: {
+        marginBottom: spacing.md,
+    },
+    noticeContainer: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: `${colors.primary}10`,
+        borderRadius: borderRadius.md,
+        padding: spacing.sm,
+        marginBottom: spacing.md,
+    },
+    noticeText: {
+        flex: 1,
+        fontSize: 14,
+        color: colors.text.secondary,
+        marginLeft: spacing.sm,
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+});
@@ -0,0 +1,211 @@
+// app/user-import.tsx
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Alert, ScrollView } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { StandardHeader } from './components/StandardHeader';
+import { Button } from './components/Button';
+import { Card } from './components/Card';
+import { colors, spacing } from './styles/theme';
+import { useDataStore } from './contexts/DataStoreContext';
+import { CommandQueueCard } from './components/CommandQueueCard';
+import { getCapabilities } from './utils/deviceModels';
+import { formatAccessWindow } from './utils/accessWindow';
+import { formatPhoneForDisplay } from './utils/phoneNumbers';
+import { ImportPlan, ImportRow, planUserImport } from './utils/userImport';
+import { useAddUsers } from './hooks/useAddUsers';
+
+const STATUS_ICONS: Record<ImportRow['status'], { name: 'checkmark-circle' | 'remove-circle' | 'alert-circle'; color: string }> = {
+    ready: { name: 'checkmark-circle', color: colors.success },
+    skipped: { name: 'remove-circle', color: colors.warning },
+    invalid: { name: 'alert-circle', color: colors.error },
+};
+
+export default function UserImportPage() {
+    const router = useRouter();
+    const { deviceId } = useLocalSearchParams<{ deviceId: string }>();
+    const { getDeviceById, getDeviceUsers } = useDataStore();
+    const { addUsers } = useAddUsers();
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [plan, setPlan] = useState<ImportPlan | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const device = deviceId ? getDeviceById(deviceId) : undefined;
+    const capabilities = getCapabilities(device?.type);
+
+    const handlePickFile = async () => {
+        if (!device) return;
+        try {
+            const result = await DocumentPicker.getDocumentAsync({
+                type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+                copyToCacheDirectory: true,
+            });
+            if (result.canceled || !result.assets?.length) return;
+
+            const asset = result.assets[0];
+            const text = await FileSystem.readAsStringAsync(asset.uri);
+            const newPlan = planUserImport(text, getDeviceUsers(device.id), capabilities);
+            if (newPlan.rows.length === 0) {
+                Alert.alert('Empty File', 'No rows were found in this file.');
+                return;
+            }
+            setFileName(asset.name);
+            setPlan(newPlan);
+        } catch (error) {
+            console.error('Failed to read CSV file:', error);
+            Alert.alert('Error', 'Failed to read the selected file.');
+        }
+    };
+
+    const runImport = async () => {
+        if (!device || !plan) return;
+
+        setIsImporting(true);
+        try {
+            const result = await addUsers(device, plan.ready, {
+                title: `Import from ${fileName || 'CSV'}`,
+                logAction: 'Users Imported',
+                logDetails: `from ${fileName || 'CSV'}`,
+                onQueued: () => setPlan(null),
+            });
+            if (result?.progress && result.progress.sent === result.progress.total) {
+                Alert.alert('Import Sent', `${result.progress.sent} user${result.progress.sent === 1 ? '' : 's'} sent to ${device.name}.`, [
+                    { text: 'OK', onPress: () => router.back() },
+                ]);
+            }
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const confirmImport = () => {
+        if (!plan) return;
+        Alert.alert(
+            'Import Users',
+            `Queue ${plan.ready.length} ADD_USER command${plan.ready.length === 1 ? '' : 's'} for ${device?.name}? They are sent one message at a time and can be paused. Skipped and invalid rows are left out.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Import', onPress: runImport },
+            ]
+        );
+    };
+
+    const renderRow = (row: ImportRow) => {
+        const icon = STATUS_ICONS[row.status];
+        return (
+            <View key={row.line} style={styles.rowItem}>
+                <Ionicons name={icon.name} size={20} color={icon.color} />
+                <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>
+                        {row.serialNumber ? `#${row.serialNumber} ` : ''}{row.name}
+                    </Text>
+                    <Text style={styles.rowDetails}>
+                        Line {row.line} • {row.phoneNumber ? formatPhoneForDisplay(row.phoneNumber) : 'no number'}
+                        {row.startTime ? ` • ${formatAccessWindow(row.startTime, row.endTime)}` : ''}
+                    </Text>
+                    {row.messages.map(message => (
+                        <Text key={message} style={[styles.rowMessage, { color: icon.color }]}>{message}</Text>
+                    ))}
+                </View>
+            </View>
+        );
+    };
+
+    const count = (status: ImportRow['status']) => plan?.rows.filter(row => row.status === status).length || 0;
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Import Users" showBack />
+
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                <CommandQueueCard deviceId={deviceId} />
+
+                <Card title={device ? `Import to ${device.name}` : 'Import Users'} elevated>
+                    <Text style={styles.infoText}>
+                        Choose a CSV file with the columns name, phone, slot, start and end. Only phone is required.
+                        Missing slots are filled with the next free position up to {capabilities.maxUsers}.
+                    </Text>
+                    <Button
+                        title={fileName ? 'Choose Another File' : 'Choose CSV File'}
+                        onPress={handlePickFile}
+                        variant="outline"
+                        icon="document-outline"
+                        disabled={!device || isImporting}
+                        fullWidth
+                    />
+                </Card>
+
+                {plan && (
+                    <Card title={`Preview: ${fileName}`}>
+                        <Text style={styles.summaryText}>
+                            {count('ready')} ready • {count('skipped')} skipped • {count('invalid')} invalid
+                        </Text>
+                        {plan.rows.map(renderRow)}
+                    </Card>
+                )}
+
+                {plan && (
+                    <Button
+                        title={`Import ${plan.ready.length} User${plan.ready.length === 1 ? '' : 's'}`}
+                        onPress={confirmImport}
+                        loading={isImporting}
+                        disabled={plan.ready.length === 0 || isImporting}
+                        icon="cloud-upload-outline"
+                        fullWidth
+                    />
+                )}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    infoText: {
+        fontSize: 14,
+        color: colors.text.secondary,
+        lineHeight: 20,
+        marginBottom: spacing.md,
+    },
+    summaryText: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: colors.text.primary,
+        marginBottom: spacing.sm,
+    },
+    rowItem: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    rowText: {
+        flex: 1,
+        marginLeft: spacing.sm,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '500',
+        color: colors.text.primary,
+    },
+    rowDetails: {
+        fontSize: 12,
+        color: colors.text.secondary,
+    },
+    rowMessage: {
+        fontSize: 12,
+        marginTop: 2,
+    },
+});
@@ -0,0 +1,401 @@
+// app/user-reconcile.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Alert, ScrollView, TouchableOpacity } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { StandardHeader } from './components/StandardHeader';
+import { Button } from './components/Button';
+import { Card } from './components/Card';
+import { TextInputField } from './components/TextInputField';
+import { CommandQueueCard } from './components/CommandQueueCard';
+import { colors, spacing, borderRadius } from './styles/theme';
+import { useDataStore } from './contexts/DataStoreContext';
+import { sendGateCommand } from './utils/smsUtils';
+import { getSmsTransport } from './utils/smsTransport';
+import { getCapabilities } from './utils/deviceModels';
+import { formatAccessWindow } from './utils/accessWindow';
+import { formatSlot } from './utils/userSlots';
+import { formatPhoneForDisplay, isSamePhoneNumber } from './utils/phoneNumbers';
+import { DeviceUserEntry, parseReply } from './utils/replyParser';
+import { QueuedCommandInput } from './utils/commandQueue';
+import {
+    ReconcileKind, ReconcileRow, ReconcileWinner, SlotRange, commandForAppWins, coveredRange, diffUserTable, requestedRange,
+} from './utils/userReconcile';
+
+const KIND_TITLES: Record<ReconcileKind, string> = {
+    missing_locally: 'Only on device',
+    missing_on_device: 'Only in app',
+    different: 'Different',
+};
+
+// What choosing each side does, per kind of difference
+const WINNER_LABELS: Record<ReconcileKind, Record<ReconcileWinner, string>> = {
+    missing_locally: { device: 'Add to app', app: 'Delete from device' },
+    missing_on_device: { device: 'Remove from app', app: 'Send to device' },
+    different: { device: 'Update app', app: 'Overwrite device' },
+};
+
+export default function UserReconcilePage() {
+    const router = useRouter();
+    const { deviceId } = useLocalSearchParams<{ deviceId: string }>();
+    const {
+        getDeviceById, getDeviceUsers, getDeviceCommands, findUserByPhone, addUser, assignSlot, updateSlot, freeSlot,
+        addDeviceLog, enqueueCommands, runCommandBatch,
+    } = useDataStore();
+    const [replyText, setReplyText] = useState('');
+    const [entries, setEntries] = useState<DeviceUserEntry[] | null>(null);
+    const [requested, setRequested] = useState<SlotRange | null>(null);
+    const [choices, setChoices] = useState<Record<string, ReconcileWinner>>({});
+    const [loadedReplyId, setLoadedReplyId] = useState<string | null>(null);
+    const [isRequesting, setIsRequesting] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+
+    const device = deviceId ? getDeviceById(deviceId) : undefined;
+    const capabilities = getCapabilities(device?.type);
+    const deviceCommands = deviceId ? getDeviceCommands(deviceId) : [];
+    const fullRange: SlotRange = { from: formatSlot(1), to: formatSlot(capabilities.maxUsers) };
+    // The list command is not in the gate manual, so it only goes to the simulated gate
+    const canRequestList = getSmsTransport().capabilities.simulated;
+
+    // Pick up the latest user list the device sent, whether it arrived directly or was pasted in the reply inbox
+    const latestList = deviceCommands.find(command => command.kind === 'LIST_USERS' && command.state === 'confirmed' && command.reply);
+    useEffect(() => {
+        if (!latestList?.reply || latestList.id === loadedReplyId) return;
+        setLoadedReplyId(latestList.id);
+        setReplyText(latestList.reply);
+        compare(latestList.reply, requestedRange(latestList.details) || fullRange);
+    }, [latestList?.id]);
+
+    const result = useMemo(
+        () => (entries && requested && deviceId
+            ? diffUserTable(entries, getDeviceUsers(deviceId), coveredRange(entries, requested), capabilities.maxUsers)
+            : null),
+        [entries, requested, deviceId, getDeviceUsers, capabilities.maxUsers]
+    );
+
+    // A pasted reply is taken to answer for every position; coveredRange still stops at the last one listed
+    const compare = (text: string, range: SlotRange = fullRange) => {
+        const reply = parseReply(text);
+        if (!reply.users) {
+            Alert.alert('Not a User List', 'This text does not look like the device\'s list of users.');
+            return;
+        }
+        setEntries(reply.users);
+        setRequested(range);
+        setChoices({});
+    };
+
+    const handleRequest = async () => {
+        if (!device) return;
+        await sendGateCommand({
+            phoneNumber: device.unitNumber,
+            command: { type: 'LIST_USERS', password: device.password, ...fullRange },
+            deviceId: device.id,
+            model: device.type,
+            setLoading: setIsRequesting,
+        });
+    };
+
+    const handlePaste = async () => {
+        const clipboardText = await Clipboard.getStringAsync();
+        if (!clipboardText) {
+            Alert.alert('Clipboard Empty', 'Copy the device\'s reply from your messaging app first.');
+            return;
+        }
+        setReplyText(clipboardText);
+    };
+
+    const winnerFor = (row: ReconcileRow) => choices[row.serialNumber] || row.suggested;
+
+    // Make the app match the device for one row. Returns false if the slot could not be changed.
+    const applyDeviceWins = async (row: ReconcileRow): Promise<boolean> => {
+        if (!device) return false;
+        if (row.kind === 'missing_on_device') {
+            return freeSlot(device.id, row.serialNumber);
+        }
+
+        const entry = row.device!;
+        if (row.app && isSamePhoneNumber(row.app.phoneNumber, entry.phoneNumber)) {
+            const slot = await updateSlot(device.id, row.serialNumber, {
+                startTime: entry.startTime,
+                endTime: entry.endTime,
+                status: 'active',
+            });
+            return !!slot;
+        }
+
+        // Another number at this position: it belongs to whoever has that number,
+        // unless they already hold a different position on this device
+        const existing = findUserByPhone(entry.phoneNumber);
+        if (existing && getDeviceUsers(device.id).some(u => u.id === existing.id)) return false;
+
+        if (row.app) await freeSlot(device.id, row.serialNumber);
+        const person = existing || await addUser({ name: `User ${row.serialNumber}`, phoneNumber: entry.phoneNumber });
+        const slot = person && await assignSlot(device.id, person.id, {
+            serialNumber: row.serialNumber,
+            startTime: entry.startTime,
+            endTime: entry.endTime,
+            status: 'active',
+        });
+        return !!slot;
+    };
+
+    const applyChanges = async () => {
+        if (!device || !result) return;
+
+        setIsApplying(true);
+        try {
+            const queued: QueuedCommandInput[] = [];
+            const skipped: string[] = [];
+            let updatedLocally = 0;
+
+            for (const row of result.rows) {
+                if (winnerFor(row) === 'app') {
+                    if (row.app) await updateSlot(device.id, row.serialNumber, { status: 'pending' });
+                    queued.push(commandForAppWins(row, device));
+                } else if (await applyDeviceWins(row)) {
+                    updatedLocally++;
+                } else {
+                    // e.g. the number already has another position on this device
+                    skipped.push(row.serialNumber);
+                }
+            }
+            // The device holds these exactly, so any unconfirmed add evidently arrived
+            for (const user of result.confirmed.filter(u => u.status === 'pending')) {
+                await updateSlot(device.id, user.serialNumber, { status: 'active' });
+            }
+
+            await addDeviceLog(
+                device.id,
+                'Users Reconciled',
+                `${updatedLocally} updated in app, ${queued.length} command(s) queued${skipped.length ? `, skipped ${skipped.join(', ')}` : ''}`,
+                skipped.length === 0,
+                'user'
+            );
+            setEntries(null);
+
+            if (skipped.length > 0) {
+                Alert.alert('Some Rows Skipped', `Positions ${skipped.join(', ')} could not be updated in the app. The number may already be at another position on this device.`);
+            }
+            const batch = queued.length > 0 ? await enqueueCommands(device.id, 'Reconcile user table', queued) : null;
+            if (batch) {
+                await runCommandBatch(batch.id);
+            } else if (skipped.length === 0) {
+                Alert.alert('Reconciled', 'The app now matches the device.', [{ text: 'OK', onPress: () => router.back() }]);
+            }
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const confirmApply = () => {
+        if (!result) return;
+        const toDevice = result.rows.filter(row => winnerFor(row) === 'app').length;
+        Alert.alert(
+            'Apply Changes',
+            `${result.rows.length - toDevice} row(s) will be updated in the app and ${toDevice} command(s) queued for ${device?.name}.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Apply', onPress: applyChanges },
+            ]
+        );
+    };
+
+    const renderSide = (label: string, phoneNumber?: string, startTime?: string, endTime?: string, name?: string) => (
+        <Text style={styles.sideText}>
+            <Text style={styles.sideLabel}>{label}: </Text>
+            {phoneNumber ? `${name ? `${name} • ` : ''}${formatPhoneForDisplay(phoneNumber)} • ${formatAccessWindow(startTime, endTime)}` : 'empty'}
+        </Text>
+    );
+
+    const renderRow = (row: ReconcileRow) => {
+        const winner = winnerFor(row);
+        return (
+            <View key={row.serialNumber} style={styles.rowItem}>
+                <Text style={styles.rowTitle}>#{row.serialNumber} • {KIND_TITLES[row.kind]}</Text>
+                {renderSide('Device', row.device?.phoneNumber, row.device?.startTime, row.device?.endTime)}
+                {renderSide('App', row.app?.phoneNumber, row.app?.startTime, row.app?.endTime, row.app?.name)}
+                <View style={styles.choiceRow}>
+                    {(['device', 'app'] as ReconcileWinner[]).map(side => {
+                        const isSelected = side === winner;
+                        return (
+                            <TouchableOpacity
+                                key={side}
+                                style={[styles.choiceChip, isSelected && styles.choiceChipSelected]}
+                                onPress={() => setChoices(prev => ({ ...prev, [row.serialNumber]: side }))}
+                                disabled={isApplying}
+                            >
+                                <Text style={[styles.choiceText, isSelected && styles.choiceTextSelected]}>
+                                    {WINNER_LABELS[row.kind][side]}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+            </View>
+        );
+    };
+
+    return (
+        <View style={styles.container}>
+            <StandardHeader title="Check Users on Device" showBack />
+
+            <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+                <CommandQueueCard deviceId={deviceId} />
+
+                <Card title={device ? `User Table of ${device.name}` : 'User Table'} elevated>
+                    <Text style={styles.infoText}>
+                        {canRequestList
+                            ? 'Ask the device for its stored users, or paste its reply below. '
+                            : 'Listing users is not in the gate manual, so it can only be requested from the simulated gate. Paste a list the device sent below. '}
+                        Long lists may arrive as several messages; paste them all together. Positions after the last one
+                        listed are not checked.
+                    </Text>
+                    <Button
+                        title="Request User List"
+                        onPress={handleRequest}
+                        loading={isRequesting}
+                        disabled={!device || isApplying || !canRequestList}
+                        icon="download-outline"
+                        style={styles.buttonSpacing}
+                        fullWidth
+                    />
+                    <TextInputField
+                        value={replyText}
+                        onChangeText={setReplyText}
+                        placeholder="001:0400111222"
+                        multiline
+                        numberOfLines={4}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        containerStyle={styles.buttonSpacing}
+                    />
+                    <Button
+                        title="Paste from Clipboard"
+                        onPress={handlePaste}
+                        variant="outline"
+                        icon="clipboard-outline"
+                        style={styles.buttonSpacing}
+                        fullWidth
+                    />
+                    <Button
+                        title="Compare With App"
+                        onPress={() => compare(replyText)}
+                        disabled={!replyText.trim() || isApplying}
+                        icon="git-compare-outline"
+                        fullWidth
+                    />
+                </Card>
+
+                {result && (
+                    <Card title={`${result.rows.length} Difference${result.rows.length === 1 ? '' : 's'}`}>
+                        <View style={styles.summaryRow}>
+                            <Ionicons name="checkmark-circle" size={18} color={colors.success} />
+                            <Text style={styles.summaryText}>
+                                {entries?.length || 0} on device • {result.confirmed.length} match the app
+                            </Text>
+                        </View>
+                        {result.unchecked.length > 0 && (
+                            <Text style={styles.infoText}>
+                                {result.unchecked.length} app user(s) at positions the reply does not cover were not checked.
+                            </Text>
+                        )}
+                        {result.rows.length === 0 ? (
+                            <Text style={styles.infoText}>The app and the device agree.</Text>
+                        ) : (
+                            result.rows.map(renderRow)
+                        )}
+                    </Card>
+                )}
+
+                {result && (result.rows.length > 0 || result.confirmed.some(u => u.status === 'pending')) && (
+                    <Button
+                        title="Apply Changes"
+                        onPress={confirmApply}
+                        loading={isApplying}
+                        disabled={isApplying}
+                        icon="checkmark-done-outline"
+                        fullWidth
+                    />
+                )}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.background,
+    },
+    content: {
+        flex: 1,
+    },
+    contentContainer: {
+        padding: spacing.md,
+    },
+    infoText: {
+        fontSize: 14,
+        color: colors.text.secondary,
+        lineHeight: 20,
+        marginBottom: spacing.md,
+    },
+    buttonSpacing: {
+        marginBottom: spacing.sm,
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: spacing.sm,
+    },
+    summaryText: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: colors.text.primary,
+        marginLeft: spacing.xs,
+    },
+    rowItem: {
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    },
+    rowTitle: {
+        fontSize: 16,
+        fontWeight: '500',
+        color: colors.text.primary,
+        marginBottom: spacing.xs,
+    },
+    sideText: {
+        fontSize: 12,
+        color: colors.text.secondary,
+    },
+    sideLabel: {
+        fontWeight: '600',
+    },
+    choiceRow: {
+        flexDirection: 'row',
+        marginTop: spacing.sm,
+    },
+    choiceChip: {
+        backgroundColor: colors.surfaceVariant,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.xs,
+        borderRadius: borderRadius.pill,
+        marginRight: spacing.sm,
+        borderWidth: 1,
+        borderColor: colors.border,
+    },
+    choiceChipSelected: {
+        borderColor: colors.primary,
+        backgroundColor: `${colors.primary}10`,
+    },
+    choiceText: {
+        fontSize: 14,
+        color: colors.text.primary,
+        fontWeight: '500',
+    },
+    choiceTextSelected: {
+        color: colors.primary,
+    },
+});
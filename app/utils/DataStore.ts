@@ -1,19 +1,60 @@
 // utils/DataStore.ts
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { addLog, LogEntry } from './LogManager'; // Import log functions
-import { safeGetItem, safeSetItem, safeRemoveItem, safeMultiRemove, validateKey } from './storageUtils'; // Import storage utilities
+import type { LogEntry } from './LogManager';
+import { safeSetItem, safeRemoveItem, safeMultiRemove, validateKey } from './storageUtils'; // Import storage utilities
+import { SmsTransportId } from './smsTransport';
+import { PhoneCountryId, isSamePhoneNumber } from './phoneNumbers';
+import { GateModel, getCapabilities } from './deviceModels';
+import { findNextFreeSlot, formatSlot, isValidSlot } from './userSlots';
+import { decodeDeviceTime } from './accessWindow';
+import { CURRENT_SCHEMA_VERSION, migrateAppData } from './schemaMigrations';
+import { createRepairReport, hasRepairs, RepairReport, summarizeRepairReport, validateAppData, validateLogEntry } from './dataValidation';
+import { DeviceStatus, mergeDeviceStatus, parseReply, ParsedReply } from './replyParser';
+import type { GateCommandType } from './gateCommands';
+import { CommandBatch, QueuedCommand, QueuedCommandInput, recoverInterruptedBatch } from './commandQueue';
+import { compareLogs, LogPage, LogPageRequest, LogQuery, queryLogs } from './logQuery';
+import { LogBuckets, LogStorage, SYSTEM_LOGS } from './logStorage';
+import { DEFAULT_LOG_RETENTION, LogRetentionPolicy } from './logRetention';
 import { v4 as uuidv4 } from 'uuid';
 import 'react-native-get-random-values';
 
 
 // Data model interfaces (as defined in types/index.ts)
+// A person who can be authorised on one or more devices
 export interface User {
   id: string;
   name: string;
   phoneNumber: string;
+}
+
+// pending: ADD_USER not yet confirmed, removing: DELETE_USER not yet confirmed
+export type SlotStatus = 'pending' | 'active' | 'removing';
+
+// A person assigned to one numbered position in a device's user table
+export interface DeviceSlot {
+  deviceId: string;
+  serialNumber: string; // 001 up to the model's maxUsers, unique per device
+  userId: string;
+  startTime?: string;
+  endTime?: string;
+  status: SlotStatus; // 'active' once the device has confirmed the last change
+  updatedAt: string;
+}
+
+// A person as seen from one device, as the user screens list them
+export interface DeviceUser extends User {
   serialNumber: string;
   startTime?: string;
   endTime?: string;
+  status: SlotStatus;
+}
+
+// A slot whose access window has ended or is about to
+export interface ExpiringAccess {
+  deviceId: string;
+  user: DeviceUser;
+  endsAt: string;
+  expired: boolean;
 }
 
 export interface Device {
@@ -21,35 +62,42 @@ export interface Device {
   name: string;
   unitNumber: string;
   password: string;
-  authorizedUsers: string[];
   createdAt: string;
   updatedAt: string;
-  type: 'Connect4v' | 'Phonic4v'; // Specify allowed types
+  type: GateModel; // Selects the capability profile in deviceModels
   isActive?: boolean;
   relaySettings?: {
     accessControl: 'AUT' | 'ALL';
     latchTime: string;
   };
+  status?: DeviceStatus; // Last state reported by the unit itself
 }
 
 export interface GlobalSettings {
   adminNumber: string;
   activeDeviceId: string | null;
   completedSteps: string[];
+  smsTransport?: SmsTransportId; // How commands are delivered, defaults to 'linking'
+  phoneCountry?: PhoneCountryId; // Country local numbers are read in, defaults to 'AU'
+  logRetention?: LogRetentionPolicy; // Defaults to DEFAULT_LOG_RETENTION
 }
 
-interface AppData {
+export interface AppData {
+  schemaVersion: number; // See schemaMigrations.ts
   devices: Device[];
   users: User[];
-  logs: Record<string, LogEntry[]>; // DeviceId -> LogEntries
+  slots: DeviceSlot[];
+  batches: CommandBatch[]; // Queued commands still to send, see commandQueue.ts
   globalSettings: GlobalSettings;
 }
 
 // Default initial state
 const initialState: AppData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   devices: [],
   users: [],
-  logs: {},
+  slots: [],
+  batches: [],
   globalSettings: {
     adminNumber: '',
     activeDeviceId: null,
@@ -59,11 +107,32 @@ const initialState: AppData = {
 
 const STORE_KEY = 'app_data';
 
+// Saved data that could not be loaded is copied here, one key per failure, before anything can overwrite it
+const UNREADABLE_KEY_PREFIX = 'app_data_unreadable_';
+
+// Set when the saved data could not be loaded; nothing is saved until the user decides what to do
+export interface LoadFailure {
+  error: string;
+  raw: string | null;       // app_data exactly as it was read, null if it could not be read at all
+  backupKey: string | null; // Where the copy was written, null if the copy failed too
+}
+
+// A fresh copy each time, so changes made to the store never leak into the defaults
+const createInitialState = (): AppData => JSON.parse(JSON.stringify(initialState));
+
+// Where LogManager kept its own copy of the logs before everything moved into the store
+const LEGACY_DEVICE_LOGS_PREFIX = 'app_logs_';
+const LEGACY_LOG_KEYS = ['systemLogs', 'smsCommandLogs'];
+
 class DataStore {
   private static instance: DataStore;
-  private store: AppData = initialState;
+  private store: AppData = createInitialState();
   private isInitialized: boolean = false;
   private savePromise: Promise<void> | null = null;
+  private initializing: Promise<void> | null = null;
+  private logStorage = new LogStorage();
+  private repairReport: RepairReport = createRepairReport();
+  private loadFailure: LoadFailure | null = null;
 
   private constructor() {}
 
@@ -77,44 +146,145 @@ class DataStore {
   // Initialize the store by loading data from AsyncStorage
   public async initialize(): Promise<void> {
     if (this.isInitialized) return;
-    
+
+    // Anything that logs during start-up waits for the same load instead of starting another
+    if (!this.initializing) {
+      this.initializing = this.load().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
+
+  private async load(): Promise<void> {
+    let storedData: string | null = null;
+    this.loadFailure = null;
+    this.logStorage.setLocked(false);
+    // Log entries are checked as they are read, before the document they used to live in
+    const logReport = createRepairReport();
     try {
-      const storedData = await safeGetItem(STORE_KEY);
+      await this.logStorage.load(logReport);
+      // Read directly: safeGetItem turns a missing key into 'null' and a read error into "no data"
+      storedData = await AsyncStorage.getItem(STORE_KEY);
       
       //Check that stored data exist
       if (storedData) {
-        this.store = JSON.parse(storedData);
+        const { fromVersion, applied, logs, report } = this.adopt(JSON.parse(storedData));
+        report.repaired.unshift(...logReport.repaired);
+        report.dropped.unshift(...logReport.dropped);
+        this.repairReport = report;
+        if (applied.length > 0) {
+          console.log(`Store migrated from schema ${fromVersion}:`, applied);
+        }
+        // Documents saved before logs had their own storage still carry them
+        const movedLogs = await this.logStorage.merge(logs);
+        if (hasRepairs(report)) {
+          await this.logRepairs('Data Repair', report);
+        }
+        if (applied.length > 0 || hasRepairs(report) || movedLogs > 0) {
+          await this.saveStore();
+        }
         console.log("Store initialized from saved data");
       } else {
           // First time initialization - try to migrate legacy data
+        this.repairReport = logReport;
         await this.migrateLegacyData();
+        if (hasRepairs(logReport)) {
+          await this.logRepairs('Data Repair', logReport);
+        }
       }
+      await this.migrateLegacyLogs();
       
       this.isInitialized = true;
     } catch (error) {
       console.error('Failed to initialize DataStore:', error);
-      this.store = { ...initialState }; // Initialize with a copy of the initialState
+      await this.holdUnreadableData(storedData, error);
+      this.store = createInitialState();
       this.isInitialized = true;
     }
   }
 
-  // Save the entire store to AsyncStorage with debounce
-    private async saveStore(): Promise<void> {
-        if (this.savePromise) {
-            return this.savePromise;
+  // What loading and restoring a backup both do with a parsed document: bring it up to the
+  // current schema, repair it, and pause any batch the app was closed in the middle of sending
+  private adopt(raw: unknown): { fromVersion: number; applied: string[]; logs: LogBuckets; report: RepairReport } {
+    const { data, fromVersion, applied } = migrateAppData(raw);
+    const { data: validData, logs, report } = validateAppData(data);
+    this.store = validData;
+    this.store.batches = this.store.batches.map(recoverInterruptedBatch);
+    this.logStorage.setPolicy(this.store.globalSettings.logRetention || DEFAULT_LOG_RETENTION);
+    return { fromVersion, applied, logs, report };
+  }
+
+  // Keep what could not be loaded and stop every write, so the empty store the app falls
+  // back to cannot replace the user's gates, users or logs before they have chosen
+  private async holdUnreadableData(storedData: string | null, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    this.logStorage.setLocked(true);
+
+    let raw = storedData;
+    if (raw === null) {
+      try {
+        raw = await AsyncStorage.getItem(STORE_KEY);
+      } catch (e) {
+        console.error('Could not read saved data again:', e);
+      }
+    }
+
+    let backupKey: string | null = null;
+    if (raw !== null) {
+      try {
+        backupKey = `${UNREADABLE_KEY_PREFIX}${Date.now()}`;
+        await AsyncStorage.setItem(backupKey, raw);
+      } catch (e) {
+        console.error('Could not copy unreadable saved data:', e);
+        backupKey = null;
+      }
+    }
+
+    this.loadFailure = { error: message, raw, backupKey };
+    this.repairReport = createRepairReport();
+    this.repairReport.dropped.push({
+      path: STORE_KEY,
+      message: backupKey
+        ? `saved data could not be loaded (${message}), a copy was kept in ${backupKey}`
+        : `saved data could not be loaded (${message})`,
+    });
+  }
+
+  // Why the saved data could not be loaded, or null when it loaded and saving is allowed
+  public getLoadFailure(): LoadFailure | null {
+    return this.loadFailure ? { ...this.loadFailure } : null;
+  }
+
+  // The user chose to start over: the copy of the unreadable data stays, everything else is replaced
+  public async discardUnreadableData(): Promise<void> {
+    if (!this.loadFailure) return;
+    console.warn('DataStore: Discarding unreadable saved data, copy kept in', this.loadFailure.backupKey);
+    this.loadFailure = null;
+    this.logStorage.setLocked(false);
+    this.store = createInitialState();
+    this.repairReport = createRepairReport();
+    await this.saveStore();
+  }
+
+  // Save the entire store to AsyncStorage. Saves run one after another, so a change
+  // made while a save is in flight is written by the save that follows it.
+    private saveStore(): Promise<void> {
+        // The store in memory is a stand-in for data that could not be loaded
+        if (this.loadFailure) {
+            console.warn('DataStore: Not saving while saved data could not be loaded');
+            return this.savePromise || Promise.resolve();
         }
 
-        this.savePromise = new Promise<void>(async (resolve) => {
+        const write = async () => {
             try {
                 await AsyncStorage.setItem(STORE_KEY, JSON.stringify(this.store));
             } catch (error) {
                 console.error('Failed to save store:', error);
-            } finally {
-                this.savePromise = null;
-                resolve();
             }
-        });
+        };
 
+        this.savePromise = (this.savePromise || Promise.resolve()).then(write);
         return this.savePromise;
     }
 
@@ -140,7 +310,6 @@ class DataStore {
     const newDevice: Device = {
       ...device,
       id: uuidv4(),
-      authorizedUsers: device.authorizedUsers || [],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
@@ -185,8 +354,10 @@ class DataStore {
         // Remove device
         this.store.devices = this.store.devices.filter(d => d.id !== deviceId);
 
-        // Remove associated logs
-        delete this.store.logs[deviceId];
+        // Remove its user table, queued commands and associated logs
+        this.store.slots = this.store.slots.filter(slot => slot.deviceId !== deviceId);
+        this.store.batches = this.store.batches.filter(batch => batch.deviceId !== deviceId);
+        await this.logStorage.clear(deviceId);
 
         // If this was the active device, update activeDeviceId
         if (this.store.globalSettings.activeDeviceId === deviceId) {
@@ -211,22 +382,82 @@ class DataStore {
     }
 
 
+    // Find the device a reply came from, whatever form either number is written in
+    public findDeviceByPhone(phoneNumber: string): Device | undefined {
+        return this.store.devices.find(d => isSamePhoneNumber(d.unitNumber, phoneNumber));
+    }
+
+    // Parse a reply SMS from a device and merge what it reports into the device status
+    public async applyDeviceReply(deviceId: string, body: string, receivedAt?: string): Promise<ParsedReply | null> {
+        const device = this.store.devices.find(d => d.id === deviceId);
+        if (!device) return null;
+
+        const reply = parseReply(body);
+        if (reply.kind === 'status' || reply.kind === 'ack') {
+            device.status = mergeDeviceStatus(device.status, reply, receivedAt);
+
+            // Keep the configured relay settings in line with what the unit confirmed
+            if (device.relaySettings && reply.status.accessMode) {
+                device.relaySettings.accessControl = reply.status.accessMode;
+            }
+            if (device.relaySettings && reply.status.latchTime) {
+                device.relaySettings.latchTime = reply.status.latchTime;
+            }
+            // Replies that name the position; generic ones are matched through the ledger instead
+            if (reply.serial) {
+                if (reply.confirms.includes('ADD_USER')) this.settleSlot(deviceId, 'ADD_USER', reply.serial);
+                if (reply.confirms.includes('DELETE_USER')) this.settleSlot(deviceId, 'DELETE_USER', reply.serial);
+            }
+            await this.saveStore();
+        }
+        return reply;
+    }
+
+    // The device confirmed a user command the ledger matched to a reply, e.g. a plain "OK"
+    // that names no position; the command itself says which slot it was for
+    public async confirmSlotCommand(deviceId: string, kind: GateCommandType, serialNumber?: string): Promise<boolean> {
+        if (!serialNumber || (kind !== 'ADD_USER' && kind !== 'DELETE_USER')) return false;
+        if (!this.settleSlot(deviceId, kind, serialNumber)) return false;
+        await this.saveStore();
+        return true;
+    }
+
+    // Move a slot on once the device has confirmed the command for it. Returns whether anything changed.
+    private settleSlot(deviceId: string, kind: 'ADD_USER' | 'DELETE_USER', serialNumber: string): boolean {
+        const slot = this.findSlot(deviceId, serialNumber);
+        if (!slot) return false;
+
+        // The device has stored the number, so the slot now matches it
+        if (kind === 'ADD_USER') {
+            if (slot.status === 'active') return false;
+            slot.status = 'active';
+        // Only free a slot once the device has actually forgotten the number
+        } else if (slot.status === 'removing') {
+            this.store.slots = this.store.slots.filter(s => s !== slot);
+            return true;
+        } else {
+            // Deleted from another phone while the app still lists it
+            slot.status = 'pending';
+        }
+        slot.updatedAt = new Date().toISOString();
+        return true;
+    }
+
   // USER OPERATIONS
 
     public getUsers(): User[] {
         return [...this.store.users];
     }
 
-  public getDeviceUsers(deviceId: string): User[] {
-    const device = this.store.devices.find(d => d.id === deviceId);
-    if (!device) return [];
-    return this.store.users.filter(user => device.authorizedUsers.includes(user.id));
-  }
-
+    // +61 and 0 prefixed forms of a number find the same person
+    public findUserByPhone(phoneNumber: string): User | undefined {
+        return this.store.users.find(u => isSamePhoneNumber(u.phoneNumber, phoneNumber));
+    }
 
   public async addUser(user: Omit<User, 'id'>): Promise<User | null> {
     const newUser: User = {
-      ...user,
+      name: user.name,
+      phoneNumber: user.phoneNumber,
       id: uuidv4()
     };
     this.store.users.push(newUser);
@@ -234,166 +465,335 @@ class DataStore {
     return { ...newUser };
   }
 
-  public async updateUser(userId: string, updates: Partial<User>): Promise<User | null> {
+  public async updateUser(userId: string, updates: Partial<Omit<User, 'id'>>): Promise<User | null> {
     const index = this.store.users.findIndex(u => u.id === userId);
     if (index === -1) return null;
 
     this.store.users[index] = {
       ...this.store.users[index],
-      ...updates,
+      ...(updates.name !== undefined ? { name: updates.name } : {}),
+      ...(updates.phoneNumber !== undefined ? { phoneNumber: updates.phoneNumber } : {}),
     };
     await this.saveStore();
     return { ...this.store.users[index] };
   }
 
+    // Removes the person and every slot they hold
     public async deleteUser(userId: string): Promise<boolean> {
         const initialLength = this.store.users.length;
         this.store.users = this.store.users.filter(user => user.id !== userId);
-
-        // Remove user from all device authorizedUsers arrays
-        this.store.devices.forEach(device => {
-            device.authorizedUsers = device.authorizedUsers.filter(id => id !== userId);
-        });
+        this.store.slots = this.store.slots.filter(slot => slot.userId !== userId);
 
         await this.saveStore();
         return this.store.users.length < initialLength;
     }
 
-    // AUTHORIZATION OPERATIONS
-    public async authorizeUserForDevice(deviceId: string, userId: string): Promise<boolean> {
+    // SLOT OPERATIONS
+
+    private findSlot(deviceId: string, serialNumber: string): DeviceSlot | undefined {
+        const serial = formatSlot(parseInt(serialNumber, 10));
+        return this.store.slots.find(s => s.deviceId === deviceId && s.serialNumber === serial);
+    }
+
+    // A device's user table, in slot order
+    public getDeviceSlots(deviceId: string): DeviceSlot[] {
+        return this.store.slots
+            .filter(slot => slot.deviceId === deviceId)
+            .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber))
+            .map(slot => ({ ...slot }));
+    }
+
+    // Every device a person is authorised on
+    public getUserSlots(userId: string): DeviceSlot[] {
+        return this.store.slots.filter(slot => slot.userId === userId).map(slot => ({ ...slot }));
+    }
+
+    public getDeviceUsers(deviceId: string): DeviceUser[] {
+        return this.getDeviceSlots(deviceId).flatMap(slot => {
+            const user = this.store.users.find(u => u.id === slot.userId);
+            if (!user) return [];
+            return [{
+                ...user,
+                serialNumber: slot.serialNumber,
+                startTime: slot.startTime,
+                endTime: slot.endTime,
+                status: slot.status,
+            }];
+        });
+    }
+
+    public getNextFreeSlot(deviceId: string): string | null {
         const device = this.store.devices.find(d => d.id === deviceId);
-        if (!device) return false;
-        if (!device.authorizedUsers.includes(userId)) {
-            device.authorizedUsers.push(userId);
-            await this.saveStore();
-            return true;
+        if (!device) return null;
+        const used = this.store.slots.filter(s => s.deviceId === deviceId).map(s => s.serialNumber);
+        return findNextFreeSlot(used, getCapabilities(device.type).maxUsers);
+    }
+
+    // Give a person a position on a device, the next free one unless a serial is given
+    public async assignSlot(
+        deviceId: string,
+        userId: string,
+        options: Partial<Pick<DeviceSlot, 'serialNumber' | 'startTime' | 'endTime' | 'status'>> = {}
+    ): Promise<DeviceSlot | null> {
+        const device = this.store.devices.find(d => d.id === deviceId);
+        if (!device || !this.store.users.some(u => u.id === userId)) {
+            console.error('DataStore: Cannot assign slot, unknown device or user', deviceId, userId);
+            return null;
         }
-        return false;
+        if (this.store.slots.some(s => s.deviceId === deviceId && s.userId === userId)) {
+            console.error(`DataStore: User ${userId} already has a slot on device ${deviceId}`);
+            return null;
+        }
+
+        const serial = options.serialNumber ?? this.getNextFreeSlot(deviceId);
+        if (!isValidSlot(serial, getCapabilities(device.type).maxUsers)) {
+            console.error(`DataStore: Slot ${serial} is not available on ${device.type}`);
+            return null;
+        }
+        if (this.findSlot(deviceId, serial)) {
+            console.error(`DataStore: Slot ${serial} is already taken on device ${deviceId}`);
+            return null;
+        }
+
+        const slot: DeviceSlot = {
+            deviceId,
+            serialNumber: formatSlot(parseInt(serial, 10)),
+            userId,
+            ...(options.startTime ? { startTime: options.startTime } : {}),
+            ...(options.endTime ? { endTime: options.endTime } : {}),
+            status: options.status || 'pending',
+            updatedAt: new Date().toISOString(),
+        };
+        this.store.slots.push(slot);
+        await this.saveStore();
+        return { ...slot };
     }
 
-    public async deauthorizeUserForDevice(deviceId: string, userId: string): Promise<boolean> {
+    public async updateSlot(
+        deviceId: string,
+        serialNumber: string,
+        updates: Partial<Pick<DeviceSlot, 'startTime' | 'endTime' | 'status'>>
+    ): Promise<DeviceSlot | null> {
+        const slot = this.findSlot(deviceId, serialNumber);
+        if (!slot) return null;
+
+        Object.assign(slot, updates, { updatedAt: new Date().toISOString() });
+        if (!slot.startTime) delete slot.startTime;
+        if (!slot.endTime) delete slot.endTime;
+        await this.saveStore();
+        return { ...slot };
+    }
+
+    // Move a person to another free position on the same device
+    public async moveSlot(deviceId: string, fromSerial: string, toSerial: string): Promise<DeviceSlot | null> {
         const device = this.store.devices.find(d => d.id === deviceId);
-        if (!device) return false;
-        const initialLength = device.authorizedUsers.length;
-        device.authorizedUsers = device.authorizedUsers.filter(id => id !== userId);
-        if (initialLength !== device.authorizedUsers.length) {
-            await this.saveStore();
-            return true;
+        const slot = this.findSlot(deviceId, fromSerial);
+        if (!device || !slot) return null;
+
+        if (!isValidSlot(toSerial, getCapabilities(device.type).maxUsers) || this.findSlot(deviceId, toSerial)) {
+            console.error(`DataStore: Slot ${toSerial} is not free on device ${deviceId}`);
+            return null;
         }
-        return false;
+
+        slot.serialNumber = formatSlot(parseInt(toSerial, 10));
+        slot.status = 'pending'; // The device still holds the number at the old position
+        slot.updatedAt = new Date().toISOString();
+        await this.saveStore();
+        return { ...slot };
     }
-  // LOG OPERATIONS
-  
-  // Add a log entry for a specific device
-  public async addDeviceLog(
-    deviceId: string, 
-    action: string, 
-    details: string, 
-    success: boolean = true,
-    category: 'relay' | 'settings' | 'user' | 'system' = 'system'
-  ): Promise<LogEntry> {
-    // Validate deviceId, also check for empty/whitespace strings
-    if (!deviceId || typeof deviceId !== 'string' || !deviceId.trim()) {
-      console.error('Invalid deviceId for log entry:', deviceId);
-      // Use a fallback deviceId for system logs
-      deviceId = 'system';
-    }
-    if (!this.store.logs[deviceId]) {
-      this.store.logs[deviceId] = [];
+
+    // Slots on every device whose window ends within `withinMs`, soonest first
+    public getExpiringAccess(withinMs: number, now: Date = new Date()): ExpiringAccess[] {
+        const cutoff = now.getTime() + withinMs;
+        return this.store.devices
+            .flatMap(device => this.getDeviceUsers(device.id).map(user => ({ deviceId: device.id, user })))
+            .flatMap(({ deviceId, user }) => {
+                const end = decodeDeviceTime(user.endTime);
+                if (!end || end.getTime() > cutoff) return [];
+                return [{ deviceId, user, endsAt: end.toISOString(), expired: end.getTime() <= now.getTime() }];
+            })
+            .sort((a, b) => a.endsAt.localeCompare(b.endsAt));
     }
-    
+
+    public async freeSlot(deviceId: string, serialNumber: string): Promise<boolean> {
+        const slot = this.findSlot(deviceId, serialNumber);
+        if (!slot) return false;
+
+        this.store.slots = this.store.slots.filter(s => s !== slot);
+        await this.saveStore();
+        return true;
+    }
+
+    // COMMAND QUEUE OPERATIONS
+
+    public getCommandBatches(deviceId?: string): CommandBatch[] {
+        return this.store.batches
+            .filter(batch => !deviceId || batch.deviceId === deviceId)
+            .map(batch => JSON.parse(JSON.stringify(batch)));
+    }
+
+    public getCommandBatch(batchId: string): CommandBatch | undefined {
+        const batch = this.store.batches.find(b => b.id === batchId);
+        return batch ? JSON.parse(JSON.stringify(batch)) : undefined;
+    }
+
+    // Queue commands for a device. The batch starts paused until something runs it.
+    public async enqueueCommands(deviceId: string, title: string, commands: QueuedCommandInput[]): Promise<CommandBatch | null> {
+        if (!this.store.devices.some(d => d.id === deviceId)) {
+            console.error('DataStore: Cannot queue commands for unknown device', deviceId);
+            return null;
+        }
+        if (commands.length === 0) return null;
+
+        const now = new Date().toISOString();
+        const batch: CommandBatch = {
+            id: uuidv4(),
+            deviceId,
+            title,
+            items: commands.map(({ command, label }) => ({
+                id: uuidv4(),
+                command,
+                label,
+                state: 'queued',
+                attempts: 0,
+                updatedAt: now,
+            })),
+            paused: true,
+            createdAt: now,
+            updatedAt: now,
+        };
+        this.store.batches.push(batch);
+        await this.saveStore();
+        return this.getCommandBatch(batch.id)!;
+    }
+
+    public async updateQueuedCommands(
+        batchId: string,
+        itemIds: string[],
+        updates: Partial<Pick<QueuedCommand, 'state' | 'error'>>
+    ): Promise<CommandBatch | null> {
+        const batch = this.store.batches.find(b => b.id === batchId);
+        if (!batch) return null;
+
+        const now = new Date().toISOString();
+        batch.items = batch.items.map(item => {
+            if (!itemIds.includes(item.id)) return item;
+            const updated = { ...item, ...updates, updatedAt: now };
+            if (updates.state === 'sending') updated.attempts = item.attempts + 1;
+            if (!updated.error) delete updated.error;
+            return updated;
+        });
+        batch.updatedAt = now;
+        await this.saveStore();
+        return this.getCommandBatch(batchId)!;
+    }
+
+    public async setCommandBatchPaused(batchId: string, paused: boolean): Promise<CommandBatch | null> {
+        const batch = this.store.batches.find(b => b.id === batchId);
+        if (!batch) return null;
+
+        batch.paused = paused;
+        batch.updatedAt = new Date().toISOString();
+        await this.saveStore();
+        return this.getCommandBatch(batchId)!;
+    }
+
+    // Put failed commands back in the queue, keeping their attempt count
+    public async retryFailedCommands(batchId: string): Promise<CommandBatch | null> {
+        const batch = this.store.batches.find(b => b.id === batchId);
+        if (!batch) return null;
+
+        const failedIds = batch.items.filter(item => item.state === 'failed').map(item => item.id);
+        return this.updateQueuedCommands(batchId, failedIds, { state: 'queued', error: undefined });
+    }
+
+    public async removeCommandBatch(batchId: string): Promise<boolean> {
+        const initialLength = this.store.batches.length;
+        this.store.batches = this.store.batches.filter(batch => batch.id !== batchId);
+        await this.saveStore();
+        return this.store.batches.length < initialLength;
+    }
+
+  // LOG OPERATIONS
+  // Every activity log entry is written here, usually through LogManager. Entries live in
+  // LogStorage rather than the store, newest first per device, with entries that belong
+  // to no device under SYSTEM_LOGS.
+
+  public async addLog(log: Omit<LogEntry, 'id' | 'timestamp'>): Promise<LogEntry> {
     const newLog: LogEntry = {
-      id: generateUUID(),
+      id: uuidv4(),
       timestamp: new Date().toISOString(),
-      action,
-      details,
-      success,
-      category
+      ...log,
     };
-    
-    // Add to beginning of array to show newest first
-    this.store.logs[deviceId] = [newLog, ...this.store.logs[deviceId].slice(0, 199)];
-    await this.saveStore();
+    await this.logStorage.append(newLog);
     return newLog;
   }
 
-  // Get logs for a specific device
-  public getDeviceLogs(deviceId: string): LogEntry[] {
-    if (!deviceId || typeof deviceId !== 'string' || !deviceId.trim()) {
-      console.error("Invalid deviceId for getting logs:", deviceId);
-      deviceId = 'system';
-    }
-    return this.store.logs[deviceId] ? [...this.store.logs[deviceId]] : [];
+  public async updateLog(logId: string, updates: Partial<Omit<LogEntry, 'id'>>): Promise<LogEntry | null> {
+    return this.logStorage.update(logId, updates);
   }
 
-  // Clear logs for a specific device
-  public async clearDeviceLogs(deviceId: string): Promise<boolean> {
-    if (!deviceId || typeof deviceId !== 'string' || !deviceId.trim()) {
-      console.error("Invalid deviceId for clearing logs:", deviceId);
-      return false; // Return false for invalid input
-    }
-    
-    // Check if the device exists before deleting logs
-    if (this.store.logs[deviceId]) {
-      delete this.store.logs[deviceId];
-      await this.saveStore();
-      return true;
-    }
-    
-    return false; // Return false if no logs were found for the device
+  // Newest first. A device's logs include entries that belong to no device, such as
+  // errors caught by safeExecute, so they are seen wherever the user is looking.
+  public getLogs(deviceId?: string): LogEntry[] {
+    return this.logStorage
+      .getEntries(deviceId ? [deviceId, SYSTEM_LOGS] : undefined)
+      .sort(compareLogs);
   }
 
-  public async logSMSOperation(deviceId: string, command: string, success: boolean = true): Promise<LogEntry> {
-        let action = "GSM Command";
-        let details = command.replace(/\d{4}[A-Z]/g, '****');
-
-        if (command.includes('CC')) {
-            action = "Gate Open";
-            details = "Opened gate/activated relay (ON)";
-        } else if (command.includes('DD')) {
-            action = "Gate Close";
-            details = "Closed gate/deactivated relay (OFF)";
-        } else if (command.includes('P') && command.length === 8) {
-            action = "Password Change";
-            details = "Changed device password";
-        } else if (command.includes('EE')) {
-            action = "Status Check";
-            details = "Requested device status";
-        } else if (command.includes('TEL')) {
-            action = "Admin Registration";
-            details = "Registered admin phone number";
-        } else if (command.includes('A') && !command.includes('ALL') && !command.includes('AUT')) {
-            action = "User Management";
-            if (command.includes('##')) {
-                const serial = command.match(/\d{4}A(\d{3})##/)?.[1];
-                details = `Removed authorized user from position ${serial || ''}`;
-            } else if (command.match(/\d{4}A\d{3}#[^#]+#/)) {
-                const matches = command.match(/\d{4}A(\d{3})#([^#]+)#/);
-                if (matches) {
-                    const [_, serial, phone] = matches;
-                    details = `Added user ${phone} at position ${serial}`;
-                }
-            }
-        } else if (command.includes('AUT')) {
-            action = "Access Control";
-            details = "Set to authorized users only";
-        } else if (command.includes('ALL')) {
-            action = "Access Control";
-            details = "Set to allow all callers";
-        } else if (command.includes('GOT')) {
-            action = "Relay Timing";
-            const seconds = command.match(/\d{4}GOT(\d{3})#/)?.[1];
-            if (seconds === '000') {
-                details = 'Set relay to momentary mode (pulse)';
-            } else if (seconds === '999') {
-                details = 'Set relay to toggle mode (stays ON until next call)';
-            } else {
-                details = `Set relay to close for ${parseInt(seconds || '0', 10)} seconds`;
-            }
-    }
+  // One page of the logs matching a query, see logQuery.ts
+  public queryLogs(query: LogQuery, page?: LogPageRequest): LogPage {
+    return queryLogs(this.getLogs(query.deviceId), query, page);
+  }
+
+  // Entries that switching to this retention policy would delete
+  public countLogsRemovedBy(policy: LogRetentionPolicy): number {
+    return this.logStorage.countRemovedBy(policy);
+  }
 
-        return this.addDeviceLog(deviceId, action, details, success, 'relay');
+  // Clear one device's logs, or every log when no device is given
+  public async clearLogs(deviceId?: string): Promise<boolean> {
+    return this.logStorage.clear(deviceId);
+  }
+
+  // Move logs written by the old LogManager storage into log storage and remove its keys
+  private async migrateLegacyLogs(): Promise<void> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(
+        key => key.startsWith(LEGACY_DEVICE_LOGS_PREFIX) || LEGACY_LOG_KEYS.includes(key)
+      );
+      if (keys.length === 0) return;
+
+      const report = createRepairReport();
+      const legacy: LogBuckets = {};
+      for (const [key, json] of await AsyncStorage.multiGet(keys)) {
+        let entries: unknown;
+        try {
+          entries = JSON.parse(json || '[]');
+        } catch (e) {
+          console.error(`Could not parse legacy logs in ${key}`);
+          continue;
+        }
+        if (!Array.isArray(entries)) continue;
+
+        const keyDeviceId = key.startsWith(LEGACY_DEVICE_LOGS_PREFIX) ? key.slice(LEGACY_DEVICE_LOGS_PREFIX.length) : undefined;
+        entries.forEach((raw, index) => {
+          const entry = validateLogEntry(raw, `${key}[${index}]`, report);
+          if (!entry) return;
+
+          const deviceId = entry.deviceId || keyDeviceId;
+          const bucket = deviceId && this.store.devices.some(d => d.id === deviceId) ? deviceId : SYSTEM_LOGS;
+          (legacy[bucket] = legacy[bucket] || []).push({ ...entry, deviceId: bucket === SYSTEM_LOGS ? undefined : bucket });
+        });
+      }
+
+      const migrated = await this.logStorage.merge(legacy);
+      await safeMultiRemove(keys);
+      console.log(`DataStore: Migrated ${migrated} legacy log entries from`, keys);
+    } catch (error) {
+      console.error('Failed to migrate legacy logs:', error);
     }
+  }
 
   // GLOBAL SETTINGS OPERATIONS
   
@@ -410,6 +810,12 @@ class DataStore {
     };
     
     await this.saveStore();
+
+    // A tightened policy applies to the logs already kept, not just new ones
+    if ('logRetention' in updates) {
+      this.logStorage.setPolicy(this.store.globalSettings.logRetention || DEFAULT_LOG_RETENTION);
+      await this.logStorage.prune();
+    }
     return { ...this.store.globalSettings };
   }
   
@@ -430,14 +836,14 @@ class DataStore {
       if (unitNumber) {
         // Create a new device with the migrated data
         const newDevice: Device = {
-          id: generateUUID(), // Use UUIDs for device IDs
+          id: uuidv4(),
           name: 'My GSM Opener', // Default name
           unitNumber,
           password: password || '1234', // Default password
-          authorizedUsers: [], // Initialize empty authorized users
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
           type: 'Connect4v', // You might need to adjust this based on your logic
+          relaySettings: { accessControl: 'AUT', latchTime: '000' },
         };
 
         this.store.devices.push(newDevice);
@@ -451,15 +857,21 @@ class DataStore {
                 legacyUsers.forEach(legacyUser => {
                   if(legacyUser.phone && legacyUser.serial){
                     const newUser: User = {
-                        id: generateUUID(), // Generate a new ID for each user
+                        id: uuidv4(),
                         name: legacyUser.name || 'Unnamed User', // Use name if available, otherwise default
                         phoneNumber: legacyUser.phone,
-                        serialNumber: legacyUser.serial,
-                        startTime: legacyUser.startTime,
-                        endTime: legacyUser.endTime
                     };
                     this.store.users.push(newUser);
-                    newDevice.authorizedUsers.push(newUser.id); // Use the new ID
+                    // Legacy users were already programmed into the unit
+                    this.store.slots.push({
+                        deviceId: newDevice.id,
+                        serialNumber: String(legacyUser.serial).padStart(3, '0'),
+                        userId: newUser.id,
+                        ...(legacyUser.startTime ? { startTime: legacyUser.startTime } : {}),
+                        ...(legacyUser.endTime ? { endTime: legacyUser.endTime } : {}),
+                        status: 'active',
+                        updatedAt: new Date().toISOString(),
+                    });
                   }
                 });
             }
@@ -469,13 +881,13 @@ class DataStore {
         const legacyLogsJson = await AsyncStorage.getItem('app_logs');
         if (legacyLogsJson) {
             try {
-                const legacyLogs: LogEntry[] = JSON.parse(legacyLogsJson);
-                // Associate each log with the new device
-                const deviceLogs: LogEntry[] = legacyLogs.map(log => ({
-                  ...log,
-                  deviceId: newDevice.id // Assign device ID to logs
-                }));
-                this.store.logs[newDevice.id] = deviceLogs;
+                const legacyLogs: unknown = JSON.parse(legacyLogsJson);
+                // Associate each usable log with the new device
+                const deviceLogs: LogEntry[] = (Array.isArray(legacyLogs) ? legacyLogs : [])
+                  .map((raw, index) => validateLogEntry(raw, `app_logs[${index}]`, this.repairReport))
+                  .filter((log): log is LogEntry => log !== null)
+                  .map(log => ({ ...log, deviceId: newDevice.id }));
+                await this.logStorage.merge({ [newDevice.id]: deviceLogs });
             } catch (e) {
                 console.error("Could not parse legacy logs");
             }
@@ -501,15 +913,43 @@ class DataStore {
       console.error('Failed to migrate legacy data:', error);
     }
   }
+
+    // What the last load or restore had to repair
+    public getRepairReport(): RepairReport {
+        return JSON.parse(JSON.stringify(this.repairReport));
+    }
+
+    private async logRepairs(action: string, report: RepairReport): Promise<void> {
+        console.warn(`DataStore: ${action}`, report);
+        await this.addLog({
+            action,
+            details: summarizeRepairReport(report),
+            success: report.dropped.length === 0,
+            category: 'system',
+        });
+    }
+
     // Method to create backup
+    // Logs are stored apart from the store but travel inside the backup document
     public async createBackup(): Promise<string> {
-        return JSON.stringify(this.store);
+        return JSON.stringify({ ...this.store, logs: this.logStorage.getBuckets() });
     }
 
     // Method to restore from backup
-    public async restoreFromBackup(data: string): Promise<void> {
-        this.store = JSON.parse(data);
+    // Returns what had to be repaired or dropped to make the backup usable
+    public async restoreFromBackup(data: string): Promise<RepairReport> {
+        // Backups may come from any earlier version of the app, or be taken while a batch was sending
+        const { logs, report } = this.adopt(JSON.parse(data));
+        // Restoring is one way of deciding what happens to data that could not be loaded
+        this.loadFailure = null;
+        this.logStorage.setLocked(false);
+        this.repairReport = report;
+        await this.logStorage.replace(logs);
+        if (hasRepairs(report)) {
+          await this.logRepairs('Backup Repair', report);
+        }
         await this.saveStore();
+        return report;
     }
 }
 
@@ -1,147 +1,134 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { LogEntry } from '../types'; // Centralized types
-import { safeGetItem, safeSetItem } from './storageUtils';
+// utils/LogManager.ts
+import DataStore from './DataStore';
+import { describeCommand, GateCommandType, parseCommand } from './gateCommands';
+import { ParsedReply } from './replyParser';
+import type { LogPage, LogPageRequest, LogQuery } from './logQuery';
+import type { LogRetentionPolicy } from './logRetention';
 
-// Unified LogManager class
-class LogManager {
-    private static readonly LEGACY_LOGS_KEY = 'smsCommandLogs';
-    private static readonly SYSTEM_LOGS_KEY = 'systemLogs';
+export type LogCategory = 'relay' | 'settings' | 'user' | 'system';
+
+// Whether the device has answered a command. Sending only proves the SMS left the phone.
+export type CommandConfirmation = 'pending' | 'confirmed' | 'failed' | 'timed_out';
 
-    private static getDeviceLogsKey(deviceId: string): string {
-        return `app_logs_${deviceId}`;
+// Action of entries logged for replies from a device, as opposed to commands sent to it
+export const DEVICE_REPLY_ACTION = 'Device Reply';
+
+export interface LogEntry {
+    id: string;
+    timestamp: string;
+    action: string;
+    details: string;
+    success: boolean;
+    deviceId?: string;
+    category: LogCategory;
+    commandKind?: GateCommandType; // Set on logs of commands sent to a device
+    relatedLogId?: string;         // Links a command log and the device reply that answered it
+    confirmation?: CommandConfirmation;
+}
+
+// The one way the app writes and reads its activity log. Entries live in the DataStore,
+// so they are backed up, restored and validated with the rest of the app's data.
+class LogManager {
+    private static async getStore(): Promise<DataStore> {
+        const dataStore = DataStore.getInstance();
+        await dataStore.initialize();
+        return dataStore;
     }
 
-    // Add a new log entry (consolidated)
+    // Add a new log entry. Entries without a device id are system entries.
     public static async addLog(
         action: string,
         details: string,
         success: boolean = true,
         deviceId?: string,
-        category: 'relay' | 'settings' | 'user' | 'system' = 'system'
+        category: LogCategory = 'system',
+        links: Pick<LogEntry, 'commandKind' | 'relatedLogId' | 'confirmation'> = {}
     ): Promise<LogEntry> {
-          // Create new log entry
-        const newLog: LogEntry = {
-          id: Date.now().toString(), // Simplest unique ID
-          timestamp: new Date().toISOString(),
-          action,
-          details,
-          success,
-          deviceId,
-          category,
-        };
-        
+        const log = { action, details, success, deviceId, category, ...links };
         try {
-          if (deviceId) {
-            const deviceLogsKey = this.getDeviceLogsKey(deviceId);
-            const logsJson = await safeGetItem(deviceLogsKey, '[]');
-            const logs: LogEntry[] = JSON.parse(logsJson);
-            const updatedDeviceLogs = [newLog, ...logs.slice(0, 199)];
-            await safeSetItem(deviceLogsKey, JSON.stringify(updatedDeviceLogs));
-
-          }
-          // Always save system-level logs too, for broader tracking
-            const systemLogsJson = await safeGetItem(this.SYSTEM_LOGS_KEY, '[]');
-            const systemLogs: LogEntry[] = JSON.parse(systemLogsJson);
-            const updatedSystemLogs = [newLog, ...systemLogs.slice(0, 99)];
-            await safeSetItem(this.SYSTEM_LOGS_KEY, JSON.stringify(updatedSystemLogs));
-          console.log('Log added:', action, details, success);
-          return newLog;
+            const newLog = await (await this.getStore()).addLog(log);
+            console.log('Log added:', action, details, success);
+            return newLog;
         } catch (error) {
-          console.error('Error adding log:', error);
-          return newLog; // Return the log anyway
+            console.error('Error adding log:', error);
+            // Callers link to the returned entry, so hand back an unsaved one
+            return { id: Date.now().toString(), timestamp: new Date().toISOString(), ...log };
         }
-  }
-
+    }
 
-    // Get logs for a specific device
-    public static async getDeviceLogs(deviceId?: string): Promise<LogEntry[]> {
+    // Logs for a device (with system entries), or every log when no device is given; newest first
+    public static async getLogs(deviceId?: string): Promise<LogEntry[]> {
         try {
-            if (deviceId) {
-                const deviceLogsKey = this.getDeviceLogsKey(deviceId);
-                const logsJson = await safeGetItem(deviceLogsKey);
-                if (logsJson) {
-                    return JSON.parse(logsJson);
-                }
-            }
-            // Fallback to legacy logs
-            const legacyLogsJson = await safeGetItem(LEGACY_LOGS_KEY);
-             if (legacyLogsJson) {
-                return JSON.parse(legacyLogsJson)
-             }
+            return (await this.getStore()).getLogs(deviceId);
         } catch (error) {
             console.error('Failed to get logs:', error);
+            return [];
         }
-        return [];
     }
 
+    // One page of the logs matching a query, newest first
+    public static async queryLogs(query: LogQuery, page?: LogPageRequest): Promise<LogPage> {
+        try {
+            return (await this.getStore()).queryLogs(query, page);
+        } catch (error) {
+            console.error('Failed to query logs:', error);
+            return { entries: [], nextCursor: null, total: 0 };
+        }
+    }
+
+    // The newest entry for a device, e.g. for the home screen's last action
+    public static async getLatestLog(deviceId?: string): Promise<LogEntry | null> {
+        return (await this.getLogs(deviceId))[0] || null;
+    }
 
-    // Clear logs for a specific device
-    public static async clearDeviceLogs(deviceId?: string): Promise<void> {
+    // Update a stored log entry in place
+    public static async updateLog(logId: string, updates: Partial<Omit<LogEntry, 'id'>>): Promise<LogEntry | null> {
         try {
-            if(deviceId){
-                const deviceLogsKey = this.getDeviceLogsKey(deviceId);
-                await safeSetItem(deviceLogsKey, '[]');
-            } else {
-                // Clear system logs if no deviceId
-                await safeSetItem(this.SYSTEM_LOGS_KEY, '[]');
-            }
+            return await (await this.getStore()).updateLog(logId, updates);
+        } catch (error) {
+            console.error('Failed to update log:', error);
+            return null;
+        }
+    }
+
+    // Clear logs for a specific device, or all logs
+    public static async clearLogs(deviceId?: string): Promise<boolean> {
+        try {
+            return await (await this.getStore()).clearLogs(deviceId);
         } catch (error) {
             console.error('Failed to clear logs:', error);
+            return false;
+        }
+    }
+
+    // Entries a retention policy would delete if it were applied now
+    public static async countRemovedBy(policy: LogRetentionPolicy): Promise<number> {
+        try {
+            return (await this.getStore()).countLogsRemovedBy(policy);
+        } catch (error) {
+            console.error('Failed to count logs removed by retention:', error);
+            return 0;
         }
     }
 
     // Log SMS operation with details extraction and sanitization
     public static async logSMSOperation(deviceId: string, command: string, success: boolean = true): Promise<LogEntry> {
-        let action = "GSM Command";
-        let details = command.replace(/\d{4}[A-Z]/g, '****'); // Hide password
-
-        if (command.includes('CC')) {
-            action = "Gate Open";
-            details = "Opened gate/activated relay (ON)";
-        } else if (command.includes('DD')) {
-            action = "Gate Close";
-            details = "Closed gate/deactivated relay (OFF)";
-        } else if (command.includes('P') && command.length === 8) {
-            action = "Password Change";
-            details = "Changed device password";
-        } else if (command.includes('EE')) {
-            action = "Status Check";
-            details = "Requested device status";
-        } else if (command.includes('TEL')) {
-            action = "Admin Registration";
-            details = "Registered admin phone number";
-        }  else if (command.includes('A') && !command.includes('ALL') && !command.includes('AUT')) {
-            action = "User Management";
-            if (command.includes('##')) {
-                const serial = command.match(/\d{4}A(\d{3})##/)?.[1];
-                details = `Removed authorized user from position ${serial || ''}`;
-            } else if (command.match(/\d{4}A\d{3}#[^#]+#/)) {
-                const matches = command.match(/\d{4}A(\d{3})#([^#]+)#/);
-                if (matches) {
-                    const [_, serial, phone] = matches;
-                    details = `Added user ${phone} at position ${serial}`;
-                }
-            }
-        } else if (command.includes('AUT')) {
-            action = "Access Control";
-            details = "Set to authorized users only";
-        } else if (command.includes('ALL')) {
-            action = "Access Control";
-            details = "Set to allow all callers";
-        }  else if (command.includes('GOT')) {
-            action = "Relay Timing";
-            const seconds = command.match(/\d{4}GOT(\d{3})#/)?.[1];
-            if (seconds === '000') {
-                details = 'Set relay to momentary mode (pulse)';
-            } else if (seconds === '999') {
-                details = 'Set relay to toggle mode (stays ON until next call)';
-            } else {
-                details = `Set relay to close for ${parseInt(seconds || '0', 10)} seconds`;
-            }
-        }
+        // Classify and redact using the same grammar the command encoder produces
+        const { action, details } = describeCommand(command);
+        const commandKind = parseCommand(command)?.kind;
+
+        return this.addLog(action, details, success, deviceId, 'relay', {
+            commandKind,
+            confirmation: commandKind && success ? 'pending' : undefined,
+        });
+    }
 
-        return this.addLog(action, details, success, deviceId, 'relay');
+    // Log a reply from the device, linked to the log of the command it answers
+    public static async logDeviceReply(deviceId: string, reply: ParsedReply, commandLogId?: string): Promise<LogEntry> {
+        return this.addLog(DEVICE_REPLY_ACTION, reply.summary, reply.kind !== 'error', deviceId, 'relay', {
+            relatedLogId: commandLogId,
+        });
     }
 }
 
-export default LogManager;
\ No newline at end of file
+export default LogManager;
@@ -0,0 +1,99 @@
+// utils/accessWindow.ts
+// Typed access windows for user slots. The device stores both ends as local-time
+// YYMMDDHHmm strings; screens work with Dates and render them through formatAccessWindow.
+import { CommandLimits, isValidTimeStamp } from './gateCommands';
+
+export interface AccessWindow {
+  start: Date;
+  end: Date;
+}
+
+// Two-digit years on the device
+const MIN_YEAR = 2000;
+const MAX_YEAR = 2099;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+// Seconds are dropped, the device only stores minutes
+export const encodeDeviceTime = (date: Date): string =>
+  `${pad(date.getFullYear() % 100)}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}`;
+
+// Null for anything that is not a real calendar time, e.g. 2402301200
+export const decodeDeviceTime = (timestamp?: string): Date | null => {
+  if (!timestamp || !isValidTimeStamp(timestamp)) return null;
+
+  const [year, month, day, hour, minute] = [0, 2, 4, 6, 8].map(i => parseInt(timestamp.slice(i, i + 2), 10));
+  const date = new Date(MIN_YEAR + year, month - 1, day, hour, minute);
+  return date.getDate() === day ? date : null;
+};
+
+// A window only exists when both ends decode; the device rejects half windows
+export const decodeAccessWindow = (startTime?: string, endTime?: string): AccessWindow | null => {
+  const start = decodeDeviceTime(startTime);
+  const end = decodeDeviceTime(endTime);
+  return start && end ? { start, end } : null;
+};
+
+export const encodeAccessWindow = (window: AccessWindow | null): { startTime?: string; endTime?: string } =>
+  window ? { startTime: encodeDeviceTime(window.start), endTime: encodeDeviceTime(window.end) } : {};
+
+// Starts now (to the minute) and lasts a day, a sensible default for a visitor
+export const createDefaultWindow = (now: Date = new Date()): AccessWindow => {
+  const start = new Date(now);
+  start.setSeconds(0, 0);
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+};
+
+export const isWindowExpired = (window: AccessWindow | null, now: Date = new Date()): boolean =>
+  !!window && window.end.getTime() <= now.getTime();
+
+// Problems with a window for a device, empty when it can be sent
+export const validateAccessWindow = (
+  window: AccessWindow | null,
+  limits: Pick<CommandLimits, 'model' | 'supportsTimeWindows'>,
+  now: Date = new Date()
+): string[] => {
+  if (!window) return [];
+  if (!limits.supportsTimeWindows) {
+    return [`${limits.model || 'This device'} does not support access windows`];
+  }
+
+  const errors: string[] = [];
+  const years = [window.start.getFullYear(), window.end.getFullYear()];
+  if (years.some(year => year < MIN_YEAR || year > MAX_YEAR)) {
+    errors.push(`Times must be between ${MIN_YEAR} and ${MAX_YEAR}`);
+  }
+  if (encodeDeviceTime(window.end) <= encodeDeviceTime(window.start)) {
+    errors.push('End time must be after start time');
+  }
+  if (window.end.getTime() <= now.getTime()) {
+    errors.push('End time is already in the past');
+  }
+  return errors;
+};
+
+// "Aug 5, 2024 08:00"
+export const formatDateTime = (date: Date): string =>
+  `${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Readable form of a stored device timestamp, or the raw text if it cannot be decoded
+export const formatDeviceTime = (timestamp?: string): string => {
+  const date = decodeDeviceTime(timestamp);
+  return date ? formatDateTime(date) : timestamp || '';
+};
+
+export const formatAccessWindow = (startTime?: string, endTime?: string): string => {
+  if (!startTime && !endTime) return 'Unlimited (No time restrictions)';
+  return `${formatDeviceTime(startTime) || '…'} - ${formatDeviceTime(endTime) || '…'}`;
+};
+
+export default {
+  encodeDeviceTime,
+  decodeDeviceTime,
+  encodeAccessWindow,
+  decodeAccessWindow,
+  validateAccessWindow,
+  formatAccessWindow,
+};
@@ -0,0 +1,233 @@
+// utils/commandLedger.ts
+// Tracks every command sent to a device from hand-off until the device answers or stops being expected to.
+import { v4 as uuidv4 } from 'uuid';
+import 'react-native-get-random-values';
+import LogManager, { CommandConfirmation, LogEntry } from './LogManager';
+import { safeGetItem, safeSetItem } from './storageUtils';
+import { describeCommand, GateCommandType, parseCommand, redactCommand } from './gateCommands';
+import { ParsedReply } from './replyParser';
+import { SmsSendStatus } from './smsTransport';
+import { getCapabilities } from './deviceModels';
+
+// sent: handed to a composer, the user may not have pressed send
+// awaiting: the transport reported the SMS went out, waiting for the reply
+export type CommandState = 'sent' | 'awaiting' | 'confirmed' | 'failed' | 'timed_out';
+
+export interface LedgerEntry {
+  id: string;               // Correlation id tying the command to its reply
+  deviceId: string;
+  kind: GateCommandType;
+  action: string;           // Log action for the command, e.g. "Gate Open"
+  details: string;          // Redacted SMS body
+  serial?: string;          // User slot the command targets, for ADD_USER and DELETE_USER
+  state: CommandState;
+  expectedReply: string;    // RegExp source a successful reply must match
+  createdAt: string;
+  updatedAt: string;
+  timeoutAt: string;
+  logId?: string;           // Log written when the command was sent
+  replyLogId?: string;      // Log written for the device's reply
+  reply?: string;           // Raw reply text
+}
+
+export type LedgerListener = (entries: LedgerEntry[]) => void;
+
+// What a successful reply to each command looks like (see replyParser)
+const EXPECTED_REPLIES: Record<GateCommandType, string> = {
+  OPEN: '^relay\\s*(is\\s*)?on\\b',
+  CLOSE: '^relay\\s*(is\\s*)?off\\b',
+  STATUS: 'relay\\s*[:=]',
+  ADD_USER: '^user\\s*\\d{3}\\s*(set\\s*)?success',
+  DELETE_USER: '^user\\s*\\d{3}\\s*deleted',
+  LIST_USERS: '^(\\d{3}\\s*[:=#]|no\\s*users)',
+  SET_ACCESS: '^access\\s*(AUT|ALL)\\s*(set\\s*)?success',
+  SET_LATCH: '^GOT\\s*\\d{1,3}\\s*(set\\s*)?success',
+  REGISTER_ADMIN: '^TEL\\s*\\d+\\s*(set\\s*)?success',
+  CHANGE_PASSWORD: '^password\\s*(set\\s*)?success',
+};
+
+// Relay commands answer within seconds; setting changes can take longer on weak signal
+const REPLY_TIMEOUTS_MS: Record<GateCommandType, number> = {
+  OPEN: 2 * 60 * 1000,
+  CLOSE: 2 * 60 * 1000,
+  STATUS: 2 * 60 * 1000,
+  ADD_USER: 5 * 60 * 1000,
+  DELETE_USER: 5 * 60 * 1000,
+  LIST_USERS: 5 * 60 * 1000,
+  SET_ACCESS: 5 * 60 * 1000,
+  SET_LATCH: 5 * 60 * 1000,
+  REGISTER_ADMIN: 5 * 60 * 1000,
+  CHANGE_PASSWORD: 5 * 60 * 1000,
+};
+
+const LOG_CONFIRMATION: Partial<Record<CommandState, CommandConfirmation>> = {
+  confirmed: 'confirmed',
+  failed: 'failed',
+  timed_out: 'timed_out',
+};
+
+export const isOpenCommand = (entry: LedgerEntry): boolean =>
+  entry.state === 'sent' || entry.state === 'awaiting';
+
+class CommandLedger {
+  private static readonly LEDGER_KEY = 'command_ledger';
+  private static readonly MAX_ENTRIES = 100;
+  private static listeners: LedgerListener[] = [];
+  private static writes: Promise<unknown> = Promise.resolve();
+
+  private static async load(): Promise<LedgerEntry[]> {
+    try {
+      return JSON.parse(await safeGetItem(this.LEDGER_KEY, '[]'));
+    } catch (error) {
+      console.error('Failed to load command ledger:', error);
+      return [];
+    }
+  }
+
+  private static async save(entries: LedgerEntry[]): Promise<void> {
+    const trimmed = entries.slice(0, this.MAX_ENTRIES);
+    await safeSetItem(this.LEDGER_KEY, JSON.stringify(trimmed));
+    this.listeners.forEach(listener => listener(trimmed));
+  }
+
+  // Every load-modify-save runs after the previous one has saved, so two replies arriving
+  // together cannot both start from the same list and lose one of the changes.
+  // apply returns the list to save, or null to leave the ledger as it is.
+  private static change<T>(apply: (entries: LedgerEntry[]) => { entries: LedgerEntry[] | null; result: T }): Promise<T> {
+    const run = async (): Promise<T> => {
+      const { entries, result } = apply(await this.load());
+      if (entries) await this.save(entries);
+      return result;
+    };
+    const next = this.writes.then(run);
+    this.writes = next.catch(() => undefined);
+    return next;
+  }
+
+  private static async mirrorToLog(entry: LedgerEntry): Promise<void> {
+    const confirmation = LOG_CONFIRMATION[entry.state];
+    if (entry.logId && confirmation) {
+      await LogManager.updateLog(entry.logId, {
+        confirmation,
+        success: entry.state === 'confirmed',
+        relatedLogId: entry.replyLogId,
+      });
+    }
+  }
+
+  // Returns an unsubscribe function
+  public static subscribe(listener: LedgerListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Record a command the moment it was handed to the transport. Unknown bodies are not tracked.
+  public static async record(
+    deviceId: string,
+    body: string,
+    sendStatus: SmsSendStatus,
+    logId?: string,
+    model?: string
+  ): Promise<LedgerEntry | null> {
+    const parsed = parseCommand(body);
+    if (!parsed || sendStatus === 'cancelled') return null;
+
+    const now = new Date();
+    const entry: LedgerEntry = {
+      id: uuidv4(),
+      deviceId,
+      kind: parsed.kind,
+      action: describeCommand(body).action,
+      details: redactCommand(body),
+      ...(parsed.fields.serial ? { serial: parsed.fields.serial } : {}),
+      state: sendStatus === 'sent' ? 'awaiting' : 'sent',
+      expectedReply: getCapabilities(model).replyFormats[parsed.kind] || EXPECTED_REPLIES[parsed.kind],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      timeoutAt: new Date(now.getTime() + REPLY_TIMEOUTS_MS[parsed.kind]).toISOString(),
+      logId,
+    };
+
+    return this.change(entries => ({ entries: [entry, ...entries], result: entry }));
+  }
+
+  // All entries, newest first, with overdue commands marked as timed out
+  public static async getEntries(deviceId?: string): Promise<LedgerEntry[]> {
+    const entries = await this.expireOverdue();
+    return deviceId ? entries.filter(e => e.deviceId === deviceId) : entries;
+  }
+
+  // Commands still waiting for a reply from the device
+  public static async getOpenCommands(deviceId: string): Promise<LedgerEntry[]> {
+    return (await this.getEntries(deviceId)).filter(isOpenCommand);
+  }
+
+  // Log a device reply and resolve the newest open command it answers.
+  // A reply naming a user slot only answers commands for that slot; error replies fail
+  // the newest open command; unrecognised text resolves nothing.
+  public static async resolveReply(
+    deviceId: string,
+    reply: ParsedReply
+  ): Promise<{ replyLog: LogEntry; command: LedgerEntry | null }> {
+    let answered: LedgerEntry | undefined;
+    if (reply.kind !== 'unknown') {
+      const open = (await this.getOpenCommands(deviceId))
+        .filter(entry => !reply.serial || entry.serial === reply.serial);
+      answered = reply.kind === 'error'
+        ? open[0]
+        : open.find(entry => new RegExp(entry.expectedReply, 'i').test(reply.raw))
+          || (reply.confirms.length === 0 ? open[0] : undefined);
+    }
+
+    const replyLog = await LogManager.logDeviceReply(deviceId, reply, answered?.logId);
+    if (!answered) {
+      return { replyLog, command: null };
+    }
+
+    const command = await this.transition(answered.id, reply.kind === 'error' ? 'failed' : 'confirmed', {
+      reply: reply.raw,
+      replyLogId: replyLog.id,
+    });
+    return { replyLog, command };
+  }
+
+  // Move an entry to a new state and mirror the outcome onto the command's log entry
+  public static async transition(
+    id: string,
+    state: CommandState,
+    updates: Partial<Pick<LedgerEntry, 'reply' | 'replyLogId'>> = {}
+  ): Promise<LedgerEntry | null> {
+    const entry = await this.change(entries => {
+      const index = entries.findIndex(e => e.id === id);
+      if (index === -1) return { entries: null, result: null };
+
+      entries[index] = { ...entries[index], ...updates, state, updatedAt: new Date().toISOString() };
+      return { entries, result: entries[index] };
+    });
+
+    if (entry) await this.mirrorToLog(entry);
+    return entry;
+  }
+
+  // Mark open commands past their timeout as timed out
+  public static async expireOverdue(now: Date = new Date()): Promise<LedgerEntry[]> {
+    const { entries, expired } = await this.change(loaded => {
+      const isOverdue = (e: LedgerEntry) => isOpenCommand(e) && new Date(e.timeoutAt) <= now;
+      if (!loaded.some(isOverdue)) return { entries: null, result: { entries: loaded, expired: [] } };
+
+      const updatedAt = new Date().toISOString();
+      const updated = loaded.map(e => (isOverdue(e) ? { ...e, state: 'timed_out' as CommandState, updatedAt } : e));
+      const expired = updated.filter((e, i) => e !== loaded[i]);
+      return { entries: updated, result: { entries: updated.slice(0, this.MAX_ENTRIES), expired } };
+    });
+
+    for (const entry of expired) {
+      await this.mirrorToLog(entry);
+    }
+    return entries;
+  }
+}
+
+export default CommandLedger;
@@ -0,0 +1,106 @@
+// utils/commandQueue.ts
+// Batches of commands queued for one device and sent one SMS at a time. Batches live in
+// the DataStore, so a half-sent batch is still there after the app is closed or killed.
+import { GateCommand, describeValidationErrors, encodeCommand } from './gateCommands';
+import type { DeviceCapabilities } from './deviceModels';
+
+// queued: waiting its turn, sending: handed to the transport, sent: out, failed: cancelled or invalid
+export type QueuedCommandState = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface QueuedCommand {
+  id: string;
+  command: GateCommand;
+  label: string;           // What the user sees, e.g. "Add Jane (#004)"
+  state: QueuedCommandState;
+  attempts: number;
+  error?: string;          // Why the last attempt failed
+  updatedAt: string;
+}
+
+export interface CommandBatch {
+  id: string;
+  deviceId: string;
+  title: string;           // e.g. "Import from residents.csv"
+  items: QueuedCommand[];  // In send order
+  paused: boolean;         // Set by the user, or after a cancelled send or an interrupted run
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type QueuedCommandInput = Pick<QueuedCommand, 'command' | 'label'>;
+
+export interface BatchProgress {
+  total: number;
+  sent: number;
+  failed: number;
+  remaining: number;
+}
+
+// The next SMS of a batch: one or more queued items and their encoded bodies
+export interface QueuedMessage {
+  items: QueuedCommand[];
+  parts: string[];
+  error?: string;          // The first queued item cannot be encoded for this model
+}
+
+// Longest body that still fits in a single SMS
+export const MAX_SMS_LENGTH = 160;
+
+export const getBatchProgress = (batch: CommandBatch): BatchProgress => {
+  const count = (state: QueuedCommandState) => batch.items.filter(item => item.state === state).length;
+  const sent = count('sent');
+  const failed = count('failed');
+  return { total: batch.items.length, sent, failed, remaining: batch.items.length - sent - failed };
+};
+
+export const isBatchFinished = (batch: CommandBatch): boolean => getBatchProgress(batch).remaining === 0;
+
+// Slots with an add or delete still waiting in a queue for this device
+export const getQueuedSerials = (batches: CommandBatch[], deviceId: string): string[] =>
+  batches
+    .filter(batch => batch.deviceId === deviceId)
+    .flatMap(batch => batch.items)
+    .filter(item => item.state !== 'sent')
+    .flatMap(item => ('serial' in item.command ? [item.command.serial] : []));
+
+// Take queued items in order, joining as many as the model accepts in one message
+export const planNextMessage = (batch: CommandBatch, capabilities: DeviceCapabilities): QueuedMessage | null => {
+  const queued = batch.items.filter(item => item.state === 'queued');
+  if (queued.length === 0) return null;
+
+  const message: QueuedMessage = { items: [], parts: [] };
+  for (const item of queued) {
+    const encoded = encodeCommand(item.command, capabilities);
+    if (encoded.ok === false) {
+      // An invalid item is reported on its own rather than holding up the ones before it
+      if (message.items.length > 0) break;
+      return { items: [item], parts: [], error: describeValidationErrors(encoded.errors) };
+    }
+    const length = [...message.parts, encoded.body].join('').length;
+    if (message.items.length > 0 && (message.items.length >= capabilities.maxCommandsPerSms || length > MAX_SMS_LENGTH)) {
+      break;
+    }
+    message.items.push(item);
+    message.parts.push(encoded.body);
+  }
+  return message;
+};
+
+// A run that was cut off mid-send cannot know whether the message went out. The items are
+// queued again and the batch paused so the user decides when to carry on.
+export const recoverInterruptedBatch = (batch: CommandBatch): CommandBatch => {
+  if (!batch.items.some(item => item.state === 'sending')) return batch;
+  return {
+    ...batch,
+    paused: true,
+    items: batch.items.map(item => (item.state === 'sending' ? { ...item, state: 'queued' } : item)),
+  };
+};
+
+export default {
+  getBatchProgress,
+  isBatchFinished,
+  getQueuedSerials,
+  planNextMessage,
+  recoverInterruptedBatch,
+};
@@ -0,0 +1,407 @@
+// utils/dataValidation.ts
+// Runtime validation of the persisted store. Records that can be fixed are repaired,
+// records that cannot be used are dropped, and every change is listed in a repair report.
+import type { AppData, Device, DeviceSlot, GlobalSettings, User } from './DataStore';
+import type { LogCategory, LogEntry } from './LogManager';
+import type { CommandBatch, QueuedCommand, QueuedCommandState } from './commandQueue';
+import { GATE_MODELS, DEFAULT_MODEL, getCapabilities } from './deviceModels';
+import { formatSlot, isValidSlot } from './userSlots';
+import { SmsTransportId } from './smsTransport';
+import { PHONE_COUNTRIES } from './phoneNumbers';
+import type { LogBuckets } from './logStorage';
+
+export interface RepairIssue {
+  path: string;    // e.g. "slots[2].serialNumber"
+  message: string;
+}
+
+export interface RepairReport {
+  repaired: RepairIssue[];
+  dropped: RepairIssue[];
+}
+
+export const createRepairReport = (): RepairReport => ({ repaired: [], dropped: [] });
+
+export const hasRepairs = (report: RepairReport): boolean =>
+  report.repaired.length > 0 || report.dropped.length > 0;
+
+// One line per affected record, for logs and alerts
+export const summarizeRepairReport = (report: RepairReport): string => {
+  if (!hasRepairs(report)) return 'No problems found';
+  return [
+    ...report.dropped.map(issue => `Dropped ${issue.path}: ${issue.message}`),
+    ...report.repaired.map(issue => `Repaired ${issue.path}: ${issue.message}`),
+  ].join('\n');
+};
+
+const LOG_CATEGORIES: LogCategory[] = ['relay', 'settings', 'user', 'system'];
+const QUEUED_COMMAND_STATES: QueuedCommandState[] = ['queued', 'sending', 'sent', 'failed'];
+const SMS_TRANSPORTS: SmsTransportId[] = ['linking', 'expo-sms', 'memory', 'simulator'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+export const validateDevice = (raw: unknown, path: string, report: RepairReport): Device | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id)) {
+    report.dropped.push({ path, message: 'device has no id' });
+    return null;
+  }
+
+  const device = { ...raw } as Device;
+  const repair = (field: string, message: string) => report.repaired.push({ path: `${path}.${field}`, message });
+  const now = new Date().toISOString();
+
+  if (!isNonEmptyString(device.name)) {
+    device.name = 'Unnamed Device';
+    repair('name', 'missing name');
+  }
+  if (typeof device.unitNumber !== 'string') {
+    device.unitNumber = '';
+    repair('unitNumber', 'missing phone number');
+  }
+  if (typeof device.password !== 'string') {
+    device.password = '1234';
+    repair('password', 'missing password, reset to factory default');
+  }
+  if (!GATE_MODELS.includes(device.type)) {
+    device.type = DEFAULT_MODEL;
+    repair('type', `unknown model, set to ${DEFAULT_MODEL}`);
+  }
+  if (typeof device.createdAt !== 'string') {
+    device.createdAt = now;
+    repair('createdAt', 'missing creation date');
+  }
+  if (typeof device.updatedAt !== 'string') {
+    device.updatedAt = device.createdAt;
+    repair('updatedAt', 'missing update date');
+  }
+  if (device.relaySettings !== undefined) {
+    const relaySettings: Record<string, unknown> = isObject(device.relaySettings) ? device.relaySettings : {};
+    const { accessControl, latchTime } = relaySettings;
+    if ((accessControl !== 'AUT' && accessControl !== 'ALL') || !/^\d{1,3}$/.test(String(latchTime))) {
+      device.relaySettings = {
+        accessControl: accessControl === 'ALL' ? 'ALL' : 'AUT',
+        latchTime: /^\d{1,3}$/.test(String(latchTime)) ? String(latchTime) : '000',
+      };
+      repair('relaySettings', 'invalid relay settings');
+    }
+  }
+  if (device.status !== undefined && (!isObject(device.status) || typeof device.status.confirmedAt !== 'string')) {
+    delete device.status;
+    repair('status', 'discarded unreadable device status');
+  }
+
+  return device;
+};
+
+export const validateUser = (raw: unknown, path: string, report: RepairReport): User | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id)) {
+    report.dropped.push({ path, message: 'user has no id' });
+    return null;
+  }
+  // Without a number the person cannot be matched to anything on a device
+  if (!isNonEmptyString(raw.phoneNumber)) {
+    report.dropped.push({ path, message: `user ${raw.id} has no phone number` });
+    return null;
+  }
+
+  const user = { ...raw } as User;
+  if (typeof user.name !== 'string') {
+    user.name = 'Unnamed User';
+    report.repaired.push({ path: `${path}.name`, message: 'missing name' });
+  }
+
+  return user;
+};
+
+export const validateSlot = (
+  raw: unknown,
+  path: string,
+  devices: Device[],
+  userIds: Set<string>,
+  report: RepairReport
+): DeviceSlot | null => {
+  if (!isObject(raw)) {
+    report.dropped.push({ path, message: 'slot is not an object' });
+    return null;
+  }
+  const device = devices.find(d => d.id === raw.deviceId);
+  if (!device) {
+    report.dropped.push({ path, message: 'slot belongs to a missing device' });
+    return null;
+  }
+  if (!userIds.has(raw.userId)) {
+    report.dropped.push({ path, message: 'slot belongs to a missing user' });
+    return null;
+  }
+  if (!isValidSlot(String(raw.serialNumber ?? ''), getCapabilities(device.type).maxUsers)) {
+    report.dropped.push({ path, message: `position ${raw.serialNumber} does not exist on ${device.type}` });
+    return null;
+  }
+
+  const slot = { ...raw } as DeviceSlot;
+  const repair = (field: string, message: string) => report.repaired.push({ path: `${path}.${field}`, message });
+
+  if (slot.serialNumber !== formatSlot(parseInt(slot.serialNumber, 10))) {
+    slot.serialNumber = formatSlot(parseInt(slot.serialNumber, 10));
+    repair('serialNumber', 'padded serial position to three digits');
+  }
+  if (!['pending', 'active', 'removing'].includes(slot.status)) {
+    slot.status = 'pending';
+    repair('status', 'unknown status, marked pending');
+  }
+  if (typeof slot.updatedAt !== 'string') {
+    slot.updatedAt = new Date().toISOString();
+    repair('updatedAt', 'missing update date');
+  }
+  for (const field of ['startTime', 'endTime'] as const) {
+    if (slot[field] !== undefined && !/^\d{10}$/.test(String(slot[field]))) {
+      delete slot[field];
+      repair(field, 'removed unreadable access time');
+    }
+  }
+
+  return slot;
+};
+
+export const validateCommandBatch = (
+  raw: unknown,
+  path: string,
+  deviceIds: string[],
+  report: RepairReport
+): CommandBatch | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id)) {
+    report.dropped.push({ path, message: 'command batch has no id' });
+    return null;
+  }
+  if (!deviceIds.includes(raw.deviceId)) {
+    report.dropped.push({ path, message: 'command batch belongs to a missing device' });
+    return null;
+  }
+
+  const batch = { ...raw } as CommandBatch;
+  const repair = (field: string, message: string) => report.repaired.push({ path: `${path}.${field}`, message });
+
+  // A command that cannot be read cannot be sent, so it is dropped rather than guessed at
+  batch.items = [];
+  (Array.isArray(raw.items) ? raw.items : []).forEach((item: unknown, i: number) => {
+    if (!isObject(item) || !isNonEmptyString(item.id) || !isObject(item.command) || !isNonEmptyString(item.command.type)) {
+      report.dropped.push({ path: `${path}.items[${i}]`, message: 'queued command is unreadable' });
+      return;
+    }
+    const fixed = { ...item } as QueuedCommand;
+    if (!QUEUED_COMMAND_STATES.includes(fixed.state)) {
+      fixed.state = 'failed';
+      repair(`items[${i}].state`, 'unknown state, marked failed');
+    }
+    if (typeof fixed.label !== 'string') fixed.label = fixed.command.type;
+    if (typeof fixed.attempts !== 'number') fixed.attempts = 0;
+    batch.items.push(fixed);
+  });
+  if (batch.items.length === 0) {
+    report.dropped.push({ path, message: 'command batch has no commands' });
+    return null;
+  }
+
+  if (typeof batch.title !== 'string') {
+    batch.title = 'Queued commands';
+    repair('title', 'missing title');
+  }
+  if (typeof batch.paused !== 'boolean') {
+    batch.paused = true;
+    repair('paused', 'unknown state, paused');
+  }
+  if (typeof batch.createdAt !== 'string') {
+    batch.createdAt = new Date().toISOString();
+    repair('createdAt', 'missing creation date');
+  }
+  if (typeof batch.updatedAt !== 'string') {
+    batch.updatedAt = batch.createdAt;
+    repair('updatedAt', 'missing update date');
+  }
+
+  return batch;
+};
+
+export const validateLogEntry = (raw: unknown, path: string, report: RepairReport): LogEntry | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id) || typeof raw.timestamp !== 'string' || typeof raw.action !== 'string') {
+    report.dropped.push({ path, message: 'log entry is missing its id, time or action' });
+    return null;
+  }
+
+  const entry = { ...raw } as LogEntry;
+  if (typeof entry.details !== 'string') {
+    entry.details = '';
+    report.repaired.push({ path: `${path}.details`, message: 'missing details' });
+  }
+  if (typeof entry.success !== 'boolean') {
+    entry.success = Boolean(entry.success);
+    report.repaired.push({ path: `${path}.success`, message: 'success was not a boolean' });
+  }
+  if (!LOG_CATEGORIES.includes(entry.category)) {
+    entry.category = 'system';
+    report.repaired.push({ path: `${path}.category`, message: 'unknown category' });
+  }
+
+  return entry;
+};
+
+// A retention limit is a positive whole number, or null for no limit
+const isRetentionLimit = (value: unknown): boolean =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+const isRetentionPolicy = (value: unknown): boolean => {
+  if (!isObject(value) || !isRetentionLimit(value.maxEntries) || !isRetentionLimit(value.maxAgeDays)) return false;
+  if (value.categories === undefined) return true;
+  return isObject(value.categories) && Object.entries(value.categories).every(([category, rule]) =>
+    LOG_CATEGORIES.includes(category as LogCategory)
+    && isObject(rule)
+    && (rule.maxEntries === undefined || isRetentionLimit(rule.maxEntries))
+    && (rule.maxAgeDays === undefined || isRetentionLimit(rule.maxAgeDays))
+  );
+};
+
+export const validateGlobalSettings = (
+  raw: unknown,
+  deviceIds: string[],
+  report: RepairReport
+): GlobalSettings => {
+  const source = isObject(raw) ? raw : {};
+  const settings = { ...source } as GlobalSettings;
+  const repair = (field: string, message: string) =>
+    report.repaired.push({ path: `globalSettings.${field}`, message });
+
+  if (!isObject(raw)) {
+    report.repaired.push({ path: 'globalSettings', message: 'missing settings, defaults restored' });
+  }
+  if (typeof settings.adminNumber !== 'string') {
+    settings.adminNumber = '';
+    if (isObject(raw)) repair('adminNumber', 'missing admin number');
+  }
+  if (!Array.isArray(settings.completedSteps) || settings.completedSteps.some(step => typeof step !== 'string')) {
+    settings.completedSteps = Array.isArray(settings.completedSteps)
+      ? settings.completedSteps.filter(step => typeof step === 'string')
+      : [];
+    if (isObject(raw)) repair('completedSteps', 'invalid list of completed steps');
+  }
+  if (settings.activeDeviceId === undefined || (settings.activeDeviceId !== null && !deviceIds.includes(settings.activeDeviceId))) {
+    const fallback = deviceIds[0] || null;
+    if (settings.activeDeviceId !== fallback) {
+      repair('activeDeviceId', 'active device no longer exists');
+    }
+    settings.activeDeviceId = fallback;
+  }
+  if (settings.smsTransport !== undefined && !SMS_TRANSPORTS.includes(settings.smsTransport)) {
+    delete settings.smsTransport;
+    repair('smsTransport', 'unknown SMS delivery method');
+  }
+  if (settings.logRetention !== undefined && !isRetentionPolicy(settings.logRetention)) {
+    delete settings.logRetention;
+    repair('logRetention', 'invalid log retention, defaults restored');
+  }
+  if (settings.phoneCountry !== undefined && !PHONE_COUNTRIES[settings.phoneCountry]) {
+    delete settings.phoneCountry;
+    repair('phoneCountry', 'unknown phone number country');
+  }
+
+  return settings;
+};
+
+// Validate a whole store document, returning a usable store and what had to change
+export const validateAppData = (raw: unknown): { data: AppData; logs: LogBuckets; report: RepairReport } => {
+  const report = createRepairReport();
+  const source = isObject(raw) ? raw : {};
+
+  const keepUnique = <T extends { id: string }>(records: (T | null)[], collection: string): T[] => {
+    const seen = new Set<string>();
+    return records.filter((record, index): record is T => {
+      if (!record) return false;
+      if (seen.has(record.id)) {
+        report.dropped.push({ path: `${collection}[${index}]`, message: `duplicate id ${record.id}` });
+        return false;
+      }
+      seen.add(record.id);
+      return true;
+    });
+  };
+
+  const users = keepUnique(
+    (Array.isArray(source.users) ? source.users : []).map((user, i) => validateUser(user, `users[${i}]`, report)),
+    'users'
+  );
+  const userIds = new Set(users.map(user => user.id));
+
+  const devices = keepUnique(
+    (Array.isArray(source.devices) ? source.devices : []).map((device, i) => validateDevice(device, `devices[${i}]`, report)),
+    'devices'
+  );
+
+  // One person per position, and one position per person, on each device
+  const taken = new Set<string>();
+  const slots = (Array.isArray(source.slots) ? source.slots : [])
+    .map((slot, i) => ({ slot: validateSlot(slot, `slots[${i}]`, devices, userIds, report), index: i }))
+    .filter(({ slot, index }) => {
+      if (!slot) return false;
+      const position = `${slot.deviceId}:${slot.serialNumber}`;
+      const holder = `${slot.deviceId}:user:${slot.userId}`;
+      if (taken.has(position) || taken.has(holder)) {
+        report.dropped.push({ path: `slots[${index}]`, message: `duplicate assignment of position ${slot.serialNumber}` });
+        return false;
+      }
+      taken.add(position);
+      taken.add(holder);
+      return true;
+    })
+    .map(({ slot }) => slot);
+
+  const batches = keepUnique(
+    (Array.isArray(source.batches) ? source.batches : [])
+      .map((batch, i) => validateCommandBatch(batch, `batches[${i}]`, devices.map(d => d.id), report)),
+    'batches'
+  );
+
+  const logs: LogBuckets = {};
+  if (isObject(source.logs)) {
+    for (const [deviceId, entries] of Object.entries(source.logs)) {
+      if (!Array.isArray(entries)) {
+        report.dropped.push({ path: `logs.${deviceId}`, message: 'log list is not an array' });
+        continue;
+      }
+      logs[deviceId] = entries
+        .map((entry, i) => validateLogEntry(entry, `logs.${deviceId}[${i}]`, report))
+        .filter((entry): entry is LogEntry => entry !== null);
+    }
+  }
+
+  const globalSettings = validateGlobalSettings(source.globalSettings, devices.map(d => d.id), report);
+
+  // Logs are stored apart from the rest of the data, see logStorage.ts
+  const { logs: _logs, ...rest } = source;
+  return {
+    data: {
+      ...rest,
+      schemaVersion: source.schemaVersion,
+      devices,
+      users,
+      slots,
+      batches,
+      globalSettings,
+    } as AppData,
+    logs,
+    report,
+  };
+};
+
+export default {
+  validateAppData,
+  validateDevice,
+  validateUser,
+  validateSlot,
+  validateCommandBatch,
+  validateLogEntry,
+  validateGlobalSettings,
+  summarizeRepairReport,
+};
@@ -0,0 +1,59 @@
+// utils/deviceModels.ts
+// Capability profiles for the supported G-APC models. The encoder, setup steps and
+// home screen consult these so unsupported actions never reach the SMS composer.
+import { CommandLimits, DEFAULT_COMMAND_LIMITS, GateCommandType } from './gateCommands';
+
+export type GateModel = 'Connect4v' | 'Phonic4v';
+
+export interface DeviceCapabilities extends CommandLimits {
+  model: GateModel;
+  description: string;
+  relayCount: number;
+  // Commands the unit accepts back to back in one SMS; queued batches are joined up to this many
+  maxCommandsPerSms: number;
+  // Expected reply per command (RegExp source) where the model differs from the standard replies
+  replyFormats: Partial<Record<GateCommandType, string>>;
+}
+
+export const DEFAULT_MODEL: GateModel = 'Connect4v';
+
+export const DEVICE_MODELS: Record<GateModel, DeviceCapabilities> = {
+  Connect4v: {
+    ...DEFAULT_COMMAND_LIMITS,
+    model: 'Connect4v',
+    description: 'GSM gate opener with 200 user slots and scheduled access windows',
+    relayCount: 1,
+    maxCommandsPerSms: 1,
+    replyFormats: {},
+  },
+  Phonic4v: {
+    // Unverified: none of these limits has been checked against the Phonic4 user manual (v05.01,
+    // linked from the home screen), so the profile accepts what the Connect4v does rather than
+    // refuse commands the unit may well take. Narrow it only with the manual to hand.
+    ...DEFAULT_COMMAND_LIMITS,
+    model: 'Phonic4v',
+    description: 'GSM audio intercom. Limits not yet confirmed, all commands allowed',
+    relayCount: 1,
+    maxCommandsPerSms: 1,
+    replyFormats: {
+      // Relay replies may name the relay, e.g. "Relay1 ON"
+      OPEN: '^relay\\s*1?\\s*(is\\s*)?on\\b',
+    },
+  },
+};
+
+export const GATE_MODELS = Object.keys(DEVICE_MODELS) as GateModel[];
+
+// Profile for a model, falling back to the default for legacy or unknown values
+export const getCapabilities = (model?: string): DeviceCapabilities =>
+  DEVICE_MODELS[model as GateModel] || DEVICE_MODELS[DEFAULT_MODEL];
+
+export const supportsCommand = (model: string | undefined, type: GateCommandType): boolean =>
+  getCapabilities(model).supportedCommands.includes(type);
+
+export default {
+  DEVICE_MODELS,
+  GATE_MODELS,
+  getCapabilities,
+  supportsCommand,
+};
@@ -0,0 +1,182 @@
+// utils/gateAnalytics.ts
+// Usage figures for one gate worked out from its activity log: how often it is opened and
+// at what hours, which commands are sent, how many of them fail, and what was reconfigured.
+import type { GateCommandType } from './gateCommands';
+import { compareLogs } from './logQuery';
+import { DEVICE_REPLY_ACTION, LogEntry } from './LogManager';
+
+export type CommandTypeKey = GateCommandType | 'OTHER';
+
+export interface CountBucket {
+  start: string;  // ISO timestamp of the local start of the day or week
+  total: number;
+  failed: number;
+}
+
+export interface CommandTypeCount {
+  kind: CommandTypeKey;
+  label: string;
+  total: number;
+  failed: number;
+}
+
+export interface GateStats {
+  since: string;               // Start of the period the totals cover, the first weekly bucket
+  commands: number;
+  failed: number;
+  successRate: number | null;  // 0 to 1, null when nothing was sent
+  openings: number;
+  openingsPerDay: CountBucket[];  // Oldest first
+  openingsPerWeek: CountBucket[]; // Oldest first, weeks start on Monday
+  openingsByHour: number[];    // 24 entries, local time
+  byType: CommandTypeCount[];  // Most sent first
+  recentChanges: LogEntry[];   // Newest first
+}
+
+export interface GateStatsOptions {
+  now?: Date;
+  days?: number;          // Daily buckets, today included
+  weeks?: number;         // Weekly buckets, this week included
+  recentChanges?: number;
+}
+
+export const COMMAND_TYPE_LABELS: Record<CommandTypeKey, string> = {
+  OPEN: 'Open',
+  CLOSE: 'Close',
+  STATUS: 'Status',
+  ADD_USER: 'Add user',
+  DELETE_USER: 'Remove user',
+  LIST_USERS: 'List users',
+  SET_ACCESS: 'Access mode',
+  SET_LATCH: 'Relay timing',
+  REGISTER_ADMIN: 'Admin number',
+  CHANGE_PASSWORD: 'Password',
+  OTHER: 'Other',
+};
+
+// Commands that change how the device behaves rather than operate it
+const CONFIGURATION_COMMANDS: GateCommandType[] = ['SET_ACCESS', 'SET_LATCH', 'REGISTER_ADMIN', 'CHANGE_PASSWORD'];
+
+// Entries logged before commands carried their kind, matched on the action describeCommand gave them
+const LEGACY_ACTIONS: Record<string, GateCommandType> = {
+  'Gate Open': 'OPEN',
+  'Gate Close': 'CLOSE',
+  'Status Check': 'STATUS',
+  'User List': 'LIST_USERS',
+  'Access Control': 'SET_ACCESS',
+  'Relay Timing': 'SET_LATCH',
+  'Admin Registration': 'REGISTER_ADMIN',
+  'Password Change': 'CHANGE_PASSWORD',
+};
+
+const isCommand = (entry: LogEntry): boolean =>
+  entry.category === 'relay' && entry.action !== DEVICE_REPLY_ACTION;
+
+const commandTypeOf = (entry: LogEntry): CommandTypeKey => {
+  if (entry.commandKind) return entry.commandKind;
+  if (entry.action === 'User Management') {
+    return entry.details.startsWith('Removed') ? 'DELETE_USER' : 'ADD_USER';
+  }
+  return LEGACY_ACTIONS[entry.action] || 'OTHER';
+};
+
+// Not sent, or sent and answered with an error
+const isFailed = (entry: LogEntry): boolean => !entry.success || entry.confirmation === 'failed';
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const startOfWeek = (date: Date): Date => {
+  const day = startOfDay(date);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+};
+
+// Consecutive local periods ending with the one that contains now; dates are built from
+// calendar fields rather than by adding milliseconds so daylight saving changes line up
+const buildBuckets = (first: Date, count: number, stepDays: number): { start: Date; end: Date }[] =>
+  Array.from({ length: count }, (_, i) => ({
+    start: new Date(first.getFullYear(), first.getMonth(), first.getDate() + i * stepDays),
+    end: new Date(first.getFullYear(), first.getMonth(), first.getDate() + (i + 1) * stepDays),
+  }));
+
+const countInto = (buckets: { start: Date; end: Date }[], entries: LogEntry[]): CountBucket[] =>
+  buckets.map(({ start, end }) => {
+    const inBucket = entries.filter(entry => {
+      const time = new Date(entry.timestamp).getTime();
+      return time >= start.getTime() && time < end.getTime();
+    });
+    return {
+      start: start.toISOString(),
+      total: inBucket.length,
+      failed: inBucket.filter(isFailed).length,
+    };
+  });
+
+// Entries must belong to the one device the figures are for
+export const computeGateStats = (entries: LogEntry[], options: GateStatsOptions = {}): GateStats => {
+  const { now = new Date(), days = 14, weeks = 8, recentChanges = 5 } = options;
+
+  const today = startOfDay(now);
+  const dailyBuckets = buildBuckets(
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1)),
+    days,
+    1
+  );
+  const thisWeek = startOfWeek(now);
+  const weeklyBuckets = buildBuckets(
+    new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - 7 * (weeks - 1)),
+    weeks,
+    7
+  );
+
+  // Totals cover the same period as the weekly chart
+  const since = weeklyBuckets[0].start;
+  const allCommands = entries.filter(isCommand);
+  const allOpenings = allCommands.filter(entry => commandTypeOf(entry) === 'OPEN');
+  const commands = allCommands.filter(entry => new Date(entry.timestamp).getTime() >= since.getTime());
+  const openings = commands.filter(entry => commandTypeOf(entry) === 'OPEN');
+  const failed = commands.filter(isFailed).length;
+
+  const openingsByHour = new Array(24).fill(0);
+  openings.forEach(entry => {
+    openingsByHour[new Date(entry.timestamp).getHours()]++;
+  });
+
+  const byKind = new Map<CommandTypeKey, CommandTypeCount>();
+  commands.forEach(entry => {
+    const kind = commandTypeOf(entry);
+    const count = byKind.get(kind) || { kind, label: COMMAND_TYPE_LABELS[kind], total: 0, failed: 0 };
+    count.total++;
+    if (isFailed(entry)) count.failed++;
+    byKind.set(kind, count);
+  });
+
+  const changes = entries
+    .filter(entry =>
+      entry.category === 'settings'
+      || (isCommand(entry) && CONFIGURATION_COMMANDS.includes(commandTypeOf(entry) as GateCommandType))
+    )
+    .sort(compareLogs)
+    .slice(0, recentChanges);
+
+  return {
+    since: since.toISOString(),
+    commands: commands.length,
+    failed,
+    successRate: commands.length > 0 ? (commands.length - failed) / commands.length : null,
+    openings: openings.length,
+    openingsPerDay: countInto(dailyBuckets, allOpenings),
+    openingsPerWeek: countInto(weeklyBuckets, allOpenings),
+    openingsByHour,
+    byType: [...byKind.values()].sort((a, b) => b.total - a.total),
+    recentChanges: changes,
+  };
+};
+
+export const formatSuccessRate = (rate: number | null): string =>
+  rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+export default {
+  COMMAND_TYPE_LABELS,
+  computeGateStats,
+  formatSuccessRate,
+};
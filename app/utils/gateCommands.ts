@@ -0,0 +1,411 @@
+// utils/gateCommands.ts
+// Typed model of the SMS commands understood by G-APC relays (Connect4v / Phonic4v)
+// and a single encoder that validates every field before an SMS body is produced.
+
+export type AccessType = 'AUT' | 'ALL';
+
+export type GateCommand =
+  | { type: 'OPEN'; password: string }
+  | { type: 'CLOSE'; password: string }
+  | { type: 'STATUS'; password: string }
+  | {
+      type: 'ADD_USER';
+      password: string;
+      serial: string;
+      phone: string;
+      startTime?: string;
+      endTime?: string;
+    }
+  | { type: 'DELETE_USER'; password: string; serial: string }
+  | { type: 'LIST_USERS'; password: string; from: string; to: string }
+  | { type: 'SET_ACCESS'; password: string; accessType: AccessType }
+  | { type: 'SET_LATCH'; password: string; latchTime: string }
+  | { type: 'REGISTER_ADMIN'; password: string; adminNumber: string }
+  | { type: 'CHANGE_PASSWORD'; password: string; newPassword: string };
+
+export type GateCommandType = GateCommand['type'];
+
+export interface CommandValidationError {
+  field: string;
+  message: string;
+}
+
+export type EncodeResult =
+  | { ok: true; body: string }
+  | { ok: false; errors: CommandValidationError[] };
+
+export const MIN_SERIAL = 1;
+export const MAX_SERIAL = 200;
+export const MIN_LATCH_TIME = 0;
+export const MAX_LATCH_TIME = 999;
+
+// What a particular device model accepts (see deviceModels.ts). Validation defaults to the widest limits.
+export interface CommandLimits {
+  model?: string;
+  supportedCommands: GateCommandType[];
+  maxUsers: number;
+  latchRange: { min: number; max: number };
+  supportsTimeWindows: boolean;
+}
+
+// Not in the G-APC manuals: the body and the reply grammar are the ones gateSimulator implements.
+// sendGateCommand only lets these through transports that never reach a real gate.
+export const UNDOCUMENTED_COMMANDS: GateCommandType[] = ['LIST_USERS'];
+
+export const DEFAULT_COMMAND_LIMITS: CommandLimits = {
+  supportedCommands: [
+    'OPEN', 'CLOSE', 'STATUS', 'ADD_USER', 'DELETE_USER', 'LIST_USERS',
+    'SET_ACCESS', 'SET_LATCH', 'REGISTER_ADMIN', 'CHANGE_PASSWORD',
+  ],
+  maxUsers: MAX_SERIAL,
+  latchRange: { min: MIN_LATCH_TIME, max: MAX_LATCH_TIME },
+  supportsTimeWindows: true,
+};
+
+// Device passwords are always exactly four digits
+export const isValidPassword = (password: string): boolean => /^\d{4}$/.test(password);
+
+// User slots are stored as three digits, 001-200
+export const isValidSerial = (serial: string): boolean => {
+  if (!/^\d{3}$/.test(serial)) return false;
+  const value = parseInt(serial, 10);
+  return value >= MIN_SERIAL && value <= MAX_SERIAL;
+};
+
+// Latch time in seconds, 000 (momentary) to 999 (toggle)
+export const isValidLatchTime = (latchTime: string): boolean => {
+  if (!/^\d{1,3}$/.test(latchTime)) return false;
+  const value = parseInt(latchTime, 10);
+  return value >= MIN_LATCH_TIME && value <= MAX_LATCH_TIME;
+};
+
+// Phone numbers are sent to the device as plain digits (e.g. 0061469xxxxxx)
+export const isValidPhoneDigits = (phone: string): boolean => /^\d{6,20}$/.test(phone);
+
+// Access window timestamps use the device format YYMMDDHHmm, years 2000-2099.
+// The fields are read back from a Date so days past the end of the month (310231...) fail.
+export const isValidTimeStamp = (timestamp: string): boolean => {
+  if (!/^\d{10}$/.test(timestamp)) return false;
+
+  const [year, month, day, hour, minute] = [0, 2, 4, 6, 8].map(i => parseInt(timestamp.slice(i, i + 2), 10));
+  const date = new Date(Date.UTC(2000 + year, month - 1, day, hour, minute));
+
+  return date.getUTCFullYear() === 2000 + year
+    && date.getUTCMonth() === month - 1
+    && date.getUTCDate() === day
+    && date.getUTCHours() === hour
+    && date.getUTCMinutes() === minute;
+};
+
+const validatePassword = (field: string, password: string, errors: CommandValidationError[]) => {
+  if (!isValidPassword(password)) {
+    errors.push({ field, message: 'Password must be exactly 4 digits' });
+  }
+};
+
+const validateSerial = (serial: string, errors: CommandValidationError[], maxUsers: number = MAX_SERIAL) => {
+  if (!isValidSerial(serial) || parseInt(serial, 10) > maxUsers) {
+    errors.push({ field: 'serial', message: `Serial position must be between 001 and ${maxUsers.toString().padStart(3, '0')}` });
+  }
+};
+
+const validatePhone = (field: string, phone: string, errors: CommandValidationError[]) => {
+  if (!isValidPhoneDigits(phone)) {
+    errors.push({ field, message: 'Phone number must contain 6-20 digits only' });
+  }
+};
+
+const validateTimeWindow = (
+  startTime: string | undefined,
+  endTime: string | undefined,
+  errors: CommandValidationError[]
+) => {
+  if (!startTime && !endTime) return;
+
+  if (!startTime || !endTime) {
+    errors.push({ field: startTime ? 'endTime' : 'startTime', message: 'Both start and end time are required for a time window' });
+    return;
+  }
+
+  if (!isValidTimeStamp(startTime)) {
+    errors.push({ field: 'startTime', message: 'Start time must use the format YYMMDDHHmm' });
+  }
+  if (!isValidTimeStamp(endTime)) {
+    errors.push({ field: 'endTime', message: 'End time must use the format YYMMDDHHmm' });
+  }
+  // Same-length digit strings compare chronologically
+  if (isValidTimeStamp(startTime) && isValidTimeStamp(endTime) && endTime <= startTime) {
+    errors.push({ field: 'endTime', message: 'End time must be after start time' });
+  }
+};
+
+// Validate a command without encoding it, optionally against a device model's limits
+export const validateCommand = (
+  command: GateCommand,
+  limits: CommandLimits = DEFAULT_COMMAND_LIMITS
+): CommandValidationError[] => {
+  const errors: CommandValidationError[] = [];
+
+  if (!limits.supportedCommands.includes(command.type)) {
+    errors.push({ field: 'type', message: `${limits.model || 'This device'} does not support this command` });
+    return errors;
+  }
+  validatePassword('password', command.password, errors);
+
+  switch (command.type) {
+    case 'ADD_USER':
+      validateSerial(command.serial, errors, limits.maxUsers);
+      validatePhone('phone', command.phone, errors);
+      if (!limits.supportsTimeWindows && (command.startTime || command.endTime)) {
+        errors.push({ field: 'startTime', message: 'This device model does not support access time windows' });
+      } else {
+        validateTimeWindow(command.startTime, command.endTime, errors);
+      }
+      break;
+    case 'DELETE_USER':
+      validateSerial(command.serial, errors, limits.maxUsers);
+      break;
+    case 'LIST_USERS':
+      validateSerial(command.from, errors, limits.maxUsers);
+      validateSerial(command.to, errors, limits.maxUsers);
+      if (command.from > command.to) {
+        errors.push({ field: 'to', message: 'The last position must not be before the first' });
+      }
+      break;
+    case 'SET_ACCESS':
+      if (command.accessType !== 'AUT' && command.accessType !== 'ALL') {
+        errors.push({ field: 'accessType', message: 'Access type must be AUT or ALL' });
+      }
+      break;
+    case 'SET_LATCH': {
+      const { min, max } = limits.latchRange;
+      const value = parseInt(command.latchTime, 10);
+      if (!isValidLatchTime(command.latchTime) || value < min || value > max) {
+        errors.push({
+          field: 'latchTime',
+          message: `Latch time must be between ${min.toString().padStart(3, '0')} and ${max.toString().padStart(3, '0')}`,
+        });
+      }
+      break;
+    }
+    case 'REGISTER_ADMIN':
+      validatePhone('adminNumber', command.adminNumber, errors);
+      break;
+    case 'CHANGE_PASSWORD':
+      validatePassword('newPassword', command.newPassword, errors);
+      break;
+  }
+
+  return errors;
+};
+
+// Encode a command into the exact SMS body expected by the device
+export const encodeCommand = (command: GateCommand, limits?: CommandLimits): EncodeResult => {
+  const errors = validateCommand(command, limits);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const { password } = command;
+  switch (command.type) {
+    case 'OPEN':
+      return { ok: true, body: `${password}CC` };
+    case 'CLOSE':
+      return { ok: true, body: `${password}DD` };
+    case 'STATUS':
+      return { ok: true, body: `${password}EE` };
+    case 'ADD_USER':
+      return {
+        ok: true,
+        body: `${password}A${command.serial}#${command.phone}#${command.startTime || ''}#${command.endTime || ''}#`,
+      };
+    case 'DELETE_USER':
+      return { ok: true, body: `${password}A${command.serial}##` };
+    case 'LIST_USERS':
+      return { ok: true, body: `${password}AL${command.from}#${command.to}#` };
+    case 'SET_ACCESS':
+      return { ok: true, body: `${password}${command.accessType}#` };
+    case 'SET_LATCH':
+      return { ok: true, body: `${password}GOT${command.latchTime.padStart(3, '0')}#` };
+    case 'REGISTER_ADMIN':
+      return { ok: true, body: `${password}TEL${command.adminNumber}#` };
+    case 'CHANGE_PASSWORD':
+      return { ok: true, body: `${password}P${command.newPassword}` };
+  }
+};
+
+export interface ParsedCommand {
+  kind: GateCommandType;
+  password: string;
+  fields: Record<string, string>;
+}
+
+// Grammar of every command body, anchored so that partial matches are never accepted.
+// Each entry is the inverse of the matching branch in encodeCommand.
+const COMMAND_GRAMMAR: { kind: GateCommandType; pattern: RegExp; fields: string[] }[] = [
+  { kind: 'OPEN', pattern: /^(\d{4})CC$/, fields: [] },
+  { kind: 'CLOSE', pattern: /^(\d{4})DD$/, fields: [] },
+  { kind: 'STATUS', pattern: /^(\d{4})EE$/, fields: [] },
+  { kind: 'DELETE_USER', pattern: /^(\d{4})A(\d{3})##$/, fields: ['serial'] },
+  { kind: 'LIST_USERS', pattern: /^(\d{4})AL(\d{3})#(\d{3})#$/, fields: ['from', 'to'] },
+  {
+    kind: 'ADD_USER',
+    pattern: /^(\d{4})A(\d{3})#(\d{6,20})#(\d{10})?#(\d{10})?#$/,
+    fields: ['serial', 'phone', 'startTime', 'endTime'],
+  },
+  { kind: 'SET_ACCESS', pattern: /^(\d{4})(AUT|ALL)#$/, fields: ['accessType'] },
+  { kind: 'SET_LATCH', pattern: /^(\d{4})GOT(\d{3})#$/, fields: ['latchTime'] },
+  { kind: 'REGISTER_ADMIN', pattern: /^(\d{4})TEL(\d{6,20})#$/, fields: ['adminNumber'] },
+  { kind: 'CHANGE_PASSWORD', pattern: /^(\d{4})P(\d{4})$/, fields: ['newPassword'] },
+];
+
+// Parse an SMS body into its command kind, password and fields.
+// Returns null when the body does not match any known command.
+export const parseCommand = (body: string): ParsedCommand | null => {
+  const trimmed = body.trim();
+
+  for (const rule of COMMAND_GRAMMAR) {
+    const match = trimmed.match(rule.pattern);
+    if (!match) continue;
+
+    const fields: Record<string, string> = {};
+    rule.fields.forEach((name, index) => {
+      const value = match[index + 2];
+      if (value !== undefined) {
+        fields[name] = value;
+      }
+    });
+
+    return { kind: rule.kind, password: match[1], fields };
+  }
+
+  return null;
+};
+
+// Convert a parsed body back into a typed command
+export const toGateCommand = (parsed: ParsedCommand): GateCommand => {
+  const { kind, password, fields } = parsed;
+
+  switch (kind) {
+    case 'ADD_USER':
+      return {
+        type: kind,
+        password,
+        serial: fields.serial,
+        phone: fields.phone,
+        startTime: fields.startTime,
+        endTime: fields.endTime,
+      };
+    case 'DELETE_USER':
+      return { type: kind, password, serial: fields.serial };
+    case 'LIST_USERS':
+      return { type: kind, password, from: fields.from, to: fields.to };
+    case 'SET_ACCESS':
+      return { type: kind, password, accessType: fields.accessType as AccessType };
+    case 'SET_LATCH':
+      return { type: kind, password, latchTime: fields.latchTime };
+    case 'REGISTER_ADMIN':
+      return { type: kind, password, adminNumber: fields.adminNumber };
+    case 'CHANGE_PASSWORD':
+      return { type: kind, password, newPassword: fields.newPassword };
+    default:
+      return { type: kind, password };
+  }
+};
+
+// Decode an SMS body straight into a typed command (inverse of encodeCommand)
+export const decodeCommand = (body: string): GateCommand | null => {
+  const parsed = parseCommand(body);
+  return parsed ? toGateCommand(parsed) : null;
+};
+
+// Hide every password in a command body before it is logged or displayed
+export const redactCommand = (body: string): string => {
+  const parsed = parseCommand(body);
+  if (!parsed) {
+    // Unknown body - mask anything that looks like a password prefix, keeping the command letters after it
+    return body.replace(/\d{4}(?=[A-Z])/g, '****');
+  }
+
+  const redacted = `****${body.trim().slice(4)}`;
+  return parsed.kind === 'CHANGE_PASSWORD' ? redacted.replace(/P\d{4}$/, 'P****') : redacted;
+};
+
+// Hide passwords in free text, such as log details written before commands were redacted:
+// any word that is a command body, and the given passwords wherever they stand on their own
+export const redactPasswords = (text: string, passwords: string[]): string => {
+  const withoutCommands = text
+    .split(/(\s+)/)
+    .map(word => (parseCommand(word) ? redactCommand(word) : word))
+    .join('');
+
+  return [...new Set(passwords.filter(isValidPassword))].reduce(
+    (result, password) => result.replace(new RegExp(`(?<!\\d)${password}(?!\\d)`, 'g'), '****'),
+    withoutCommands
+  );
+};
+
+// Human-readable log action and details for a command body
+export const describeCommand = (body: string): { action: string; details: string } => {
+  const parsed = parseCommand(body);
+  if (!parsed) {
+    return { action: 'GSM Command', details: redactCommand(body) };
+  }
+
+  const { fields } = parsed;
+  switch (parsed.kind) {
+    case 'OPEN':
+      return { action: 'Gate Open', details: 'Opened gate/activated relay (ON)' };
+    case 'CLOSE':
+      return { action: 'Gate Close', details: 'Closed gate/deactivated relay (OFF)' };
+    case 'STATUS':
+      return { action: 'Status Check', details: 'Requested device status' };
+    case 'CHANGE_PASSWORD':
+      return { action: 'Password Change', details: 'Changed device password' };
+    case 'REGISTER_ADMIN':
+      return { action: 'Admin Registration', details: 'Registered admin phone number' };
+    case 'DELETE_USER':
+      return { action: 'User Management', details: `Removed authorized user from position ${fields.serial}` };
+    case 'ADD_USER':
+      return { action: 'User Management', details: `Added user ${fields.phone} at position ${fields.serial}` };
+    case 'LIST_USERS':
+      return { action: 'User List', details: `Requested users at positions ${fields.from}-${fields.to}` };
+    case 'SET_ACCESS':
+      return {
+        action: 'Access Control',
+        details: fields.accessType === 'AUT' ? 'Set to authorized users only' : 'Set to allow all callers',
+      };
+    case 'SET_LATCH': {
+      const seconds = fields.latchTime;
+      if (seconds === '000') {
+        return { action: 'Relay Timing', details: 'Set relay to momentary mode (pulse)' };
+      }
+      if (seconds === '999') {
+        return { action: 'Relay Timing', details: 'Set relay to toggle mode (stays ON until next call)' };
+      }
+      return { action: 'Relay Timing', details: `Set relay to close for ${parseInt(seconds, 10)} seconds` };
+    }
+  }
+};
+
+// Join validation errors into a single message suitable for an alert
+export const describeValidationErrors = (errors: CommandValidationError[]): string => {
+  return errors.map(error => error.message).join('\n');
+};
+
+export default {
+  encodeCommand,
+  validateCommand,
+  parseCommand,
+  decodeCommand,
+  toGateCommand,
+  redactCommand,
+  redactPasswords,
+  describeCommand,
+  describeValidationErrors,
+  isValidPassword,
+  isValidSerial,
+  isValidLatchTime,
+  isValidPhoneDigits,
+  isValidTimeStamp,
+};
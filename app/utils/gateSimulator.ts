@@ -0,0 +1,263 @@
+// utils/gateSimulator.ts
+// Virtual Connect4v / Phonic4v relay for offline development and testing.
+// Accepts the exact SMS bodies produced by encodeCommand and answers like a real unit.
+import { AccessType, decodeCommand } from './gateCommands';
+import { GateModel, getCapabilities } from './deviceModels';
+import type {
+  IncomingSms,
+  IncomingSmsListener,
+  OutgoingSms,
+  SmsSendStatus,
+  SmsTransport,
+  SmsTransportCapabilities,
+} from './smsTransport';
+
+export type { GateModel } from './deviceModels';
+
+export interface SimulatedUser {
+  phone: string;
+  startTime?: string; // YYMMDDHHmm
+  endTime?: string;   // YYMMDDHHmm
+}
+
+export interface GateSimulatorState {
+  model: GateModel;
+  password: string;
+  adminNumber: string | null;
+  users: Record<string, SimulatedUser>; // Serial (001-200) -> user
+  accessMode: AccessType;
+  latchTime: string;                    // 000 momentary, 999 toggle, otherwise seconds
+  relayOn: boolean;
+  relayOffAt: number | null;            // Epoch ms when a timed relay switches off
+  signal: number;                       // GSM signal strength 0-31
+  firmware: string;
+}
+
+export const FACTORY_PASSWORD = '1234';
+
+const createFactoryState = (model: GateModel): GateSimulatorState => ({
+  model,
+  password: FACTORY_PASSWORD,
+  adminNumber: null,
+  users: {},
+  accessMode: 'AUT',
+  latchTime: '000',
+  relayOn: false,
+  relayOffAt: null,
+  signal: 24,
+  firmware: `${model} V3.2`,
+});
+
+// Format a YYMMDDHHmm timestamp for a given date
+const toDeviceTime = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(date.getFullYear() % 100)}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
+
+export class GateSimulator {
+  private state: GateSimulatorState;
+  private now: () => Date;
+
+  constructor(options: { model?: GateModel; now?: () => Date; state?: Partial<GateSimulatorState> } = {}) {
+    this.state = { ...createFactoryState(options.model || 'Connect4v'), ...options.state };
+    this.now = options.now || (() => new Date());
+  }
+
+  // Snapshot of the unit, with any timed relay switched off if its latch time elapsed
+  public getState(): GateSimulatorState {
+    this.settleRelay();
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  public reset(): void {
+    this.state = createFactoryState(this.state.model);
+  }
+
+  // Whether a phone number calling now would trigger the relay
+  public canCall(phone: string): boolean {
+    if (phone === this.state.adminNumber) return true;
+    if (this.state.accessMode === 'ALL') return true;
+
+    const now = toDeviceTime(this.now());
+    return Object.values(this.state.users).some(user => {
+      if (user.phone !== phone) return false;
+      if (user.startTime && now < user.startTime) return false;
+      if (user.endTime && now > user.endTime) return false;
+      return true;
+    });
+  }
+
+  // Process an incoming SMS and return the reply body, or null when the unit stays silent.
+  // Real units ignore messages with a wrong password rather than replying.
+  public handleMessage(body: string): string | null {
+    this.settleRelay();
+
+    const command = decodeCommand(body);
+    if (!command) {
+      return 'Command Error';
+    }
+    if (command.password !== this.state.password) {
+      return null;
+    }
+
+    const capabilities = getCapabilities(this.state.model);
+    if (!capabilities.supportedCommands.includes(command.type)) {
+      return 'Command Error';
+    }
+
+    switch (command.type) {
+      case 'OPEN':
+        this.switchRelayOn();
+        // Multi-relay units name the relay that switched
+        return capabilities.relayCount > 1 ? 'Relay1 ON' : 'Relay ON';
+      case 'CLOSE':
+        this.state.relayOn = false;
+        this.state.relayOffAt = null;
+        return 'Relay OFF';
+      case 'STATUS':
+        return this.statusReport();
+      case 'ADD_USER': {
+        if (parseInt(command.serial, 10) > capabilities.maxUsers) {
+          return 'Command Error';
+        }
+        if (!capabilities.supportsTimeWindows && (command.startTime || command.endTime)) {
+          return 'Command Error';
+        }
+        this.state.users[command.serial] = {
+          phone: command.phone,
+          startTime: command.startTime,
+          endTime: command.endTime,
+        };
+        return `User ${command.serial} Set Success`;
+      }
+      case 'DELETE_USER':
+        delete this.state.users[command.serial];
+        return `User ${command.serial} Deleted`;
+      case 'LIST_USERS':
+        return this.userList(command.from, command.to);
+      case 'SET_ACCESS':
+        this.state.accessMode = command.accessType;
+        return `Access ${command.accessType} Set Success`;
+      case 'SET_LATCH':
+        if (parseInt(command.latchTime, 10) > capabilities.latchRange.max) {
+          return 'Command Error';
+        }
+        this.state.latchTime = command.latchTime;
+        return `GOT ${command.latchTime} Set Success`;
+      case 'REGISTER_ADMIN':
+        this.state.adminNumber = command.adminNumber;
+        return `TEL ${command.adminNumber} Set Success`;
+      case 'CHANGE_PASSWORD':
+        this.state.password = command.newPassword;
+        return 'Password Set Success';
+    }
+  }
+
+  private switchRelayOn(): void {
+    const { latchTime } = this.state;
+
+    if (latchTime === '999') {
+      // Toggle mode: stays on until the next OPEN/CLOSE
+      this.state.relayOn = !this.state.relayOn;
+      this.state.relayOffAt = null;
+    } else if (latchTime === '000') {
+      // Momentary pulse: the relay is already off again by the time anyone checks
+      this.state.relayOn = false;
+      this.state.relayOffAt = null;
+    } else {
+      this.state.relayOn = true;
+      this.state.relayOffAt = this.now().getTime() + parseInt(latchTime, 10) * 1000;
+    }
+  }
+
+  private settleRelay(): void {
+    if (this.state.relayOffAt !== null && this.now().getTime() >= this.state.relayOffAt) {
+      this.state.relayOn = false;
+      this.state.relayOffAt = null;
+    }
+  }
+
+  // One line per stored position in the range, as serial:phone[:start:end]
+  private userList(from: string, to: string): string {
+    const lines = Object.keys(this.state.users)
+      .filter(serial => serial >= from && serial <= to)
+      .sort()
+      .map(serial => {
+        const { phone, startTime, endTime } = this.state.users[serial];
+        return startTime && endTime ? `${serial}:${phone}:${startTime}:${endTime}` : `${serial}:${phone}`;
+      });
+    return lines.length > 0 ? lines.join('\n') : 'No Users';
+  }
+
+  private statusReport(): string {
+    const { relayOn, accessMode, latchTime, signal, firmware, users } = this.state;
+    return [
+      `Relay: ${relayOn ? 'ON' : 'OFF'}`,
+      `Access: ${accessMode}`,
+      `GOT: ${latchTime}`,
+      `Users: ${Object.keys(users).length}`,
+      `CSQ: ${signal}`,
+      `Ver: ${firmware}`,
+    ].join('\n');
+  }
+}
+
+// SMS transport that delivers every message to a simulated unit and emits its replies.
+// A unit is created with factory settings the first time its number is messaged.
+export class SimulatorSmsTransport implements SmsTransport {
+  public readonly id = 'simulator' as const;
+  public readonly name = 'Simulated gate';
+  public readonly description = 'Commands go to a virtual relay inside the app, which replies like a real unit.';
+  public readonly capabilities: SmsTransportCapabilities = {
+    opensComposer: false,
+    reportsDelivery: true,
+    canReceive: true,
+    simulated: true,
+  };
+  private units = new Map<string, GateSimulator>();
+  private listeners: IncomingSmsListener[] = [];
+  private now: () => Date;
+  private replyDelayMs: number;
+
+  constructor(options: { now?: () => Date; replyDelayMs?: number } = {}) {
+    this.now = options.now || (() => new Date());
+    this.replyDelayMs = options.replyDelayMs ?? 1500;
+  }
+
+  public isAvailable = async (): Promise<boolean> => true;
+
+  public send = async ({ phoneNumber, body }: OutgoingSms): Promise<SmsSendStatus> => {
+    const reply = this.getUnit(phoneNumber).handleMessage(body);
+
+    if (reply !== null) {
+      const message: IncomingSms = { phoneNumber, body: reply, receivedAt: this.now().toISOString() };
+      // Deliver a little later, like a real reply, so the command is recorded before its answer arrives
+      setTimeout(() => this.listeners.forEach(listener => listener(message)), this.replyDelayMs);
+    }
+    return 'sent';
+  };
+
+  public onIncoming = (listener: IncomingSmsListener): (() => void) => {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  };
+
+  public getUnit(phoneNumber: string, model: GateModel = 'Connect4v'): GateSimulator {
+    let unit = this.units.get(phoneNumber);
+    if (!unit) {
+      unit = new GateSimulator({ model, now: this.now });
+      this.units.set(phoneNumber, unit);
+    }
+    return unit;
+  }
+
+  public resetAll(): void {
+    this.units.clear();
+  }
+}
+
+export const simulatorTransport = new SimulatorSmsTransport();
+
+export default GateSimulator;
@@ -0,0 +1,194 @@
+// utils/logExport.ts
+// Activity logs for people outside the app, e.g. a body-corporate manager asking who opened
+// the gate and when: a CSV for spreadsheets and an HTML report that prints cleanly.
+// Passwords are redacted from every exported entry, whatever the entry was logged with.
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type { Device } from './DataStore';
+import type { CommandConfirmation, LogEntry } from './LogManager';
+import { compareLogs, LogQuery, matchesLogQuery } from './logQuery';
+import { redactPasswords } from './gateCommands';
+
+export type LogExportFormat = 'csv' | 'html';
+
+export interface LogExportRow {
+  timestamp: string; // Local time, YYYY-MM-DD HH:MM:SS
+  device: string;
+  action: string;
+  details: string;
+  result: string;
+}
+
+const CSV_COLUMNS: { key: keyof LogExportRow; label: string }[] = [
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'device', label: 'Device' },
+  { key: 'action', label: 'Action' },
+  { key: 'details', label: 'Details' },
+  { key: 'result', label: 'Result' },
+];
+
+const CONFIRMATION_RESULTS: Record<CommandConfirmation, string> = {
+  pending: 'Sent, awaiting device',
+  confirmed: 'Confirmed by device',
+  failed: 'Device reported failure',
+  timed_out: 'Sent, no reply',
+};
+
+// Highlighted in the report
+const FAILED_RESULTS = ['Failed', CONFIRMATION_RESULTS.failed];
+
+const FILE_TYPES: Record<LogExportFormat, { extension: string; mimeType: string; UTI: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  html: { extension: 'html', mimeType: 'text/html', UTI: 'public.html' },
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTimestamp = (iso: string): string => {
+  const date = new Date(iso);
+  return `${formatDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const deviceName = (devices: Device[], deviceId?: string): string =>
+  deviceId ? devices.find(d => d.id === deviceId)?.name || 'Removed gate' : 'System';
+
+// The entries matching the query, newest first, as rows with every known password masked
+export const buildLogExportRows = (entries: LogEntry[], query: LogQuery, devices: Device[]): LogExportRow[] => {
+  const passwords = devices.map(device => device.password);
+  return entries
+    .filter(entry => matchesLogQuery(entry, query))
+    .sort(compareLogs)
+    .map(entry => ({
+      timestamp: formatTimestamp(entry.timestamp),
+      device: deviceName(devices, entry.deviceId),
+      action: redactPasswords(entry.action, passwords),
+      details: redactPasswords(entry.details || '', passwords),
+      result: entry.confirmation ? CONFIRMATION_RESULTS[entry.confirmation] : entry.success ? 'Succeeded' : 'Failed',
+    }));
+};
+
+// Spreadsheet apps run a cell starting with one of these as a formula, and details can carry
+// text from outside the app such as gate replies and imported names
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string): string => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// RFC 4180 with a byte order mark so spreadsheet apps read the file as UTF-8
+export const toLogCsv = (rows: LogExportRow[]): string => {
+  const lines = [
+    CSV_COLUMNS.map(column => column.label),
+    ...rows.map(row => CSV_COLUMNS.map(column => row[column.key])),
+  ].map(cells => cells.map(escapeCsv).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Human-readable period of a query, e.g. "2024-05-01 to 2024-05-31"
+export const describeExportPeriod = (query: LogQuery): string => {
+  const from = query.from ? formatDate(new Date(query.from)) : null;
+  const to = query.to ? formatDate(new Date(query.to)) : null;
+  if (from && to) return `${from} to ${to}`;
+  if (from) return `Since ${from}`;
+  if (to) return `Up to ${to}`;
+  return 'All time';
+};
+
+export const toLogReportHtml = (
+  rows: LogExportRow[],
+  query: LogQuery,
+  devices: Device[],
+  generatedAt: Date = new Date()
+): string => {
+  const scope = query.deviceId ? deviceName(devices, query.deviceId) : 'All gates';
+  const body = rows.length > 0
+    ? rows.map(row => `
+        <tr class="${FAILED_RESULTS.includes(row.result) ? 'failed' : ''}">
+          ${CSV_COLUMNS.map(column => `<td>${escapeHtml(row[column.key])}</td>`).join('')}
+        </tr>`).join('')
+    : `<tr><td colspan="${CSV_COLUMNS.length}">No activity in this period</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Gate activity report - ${escapeHtml(scope)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #212121; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .meta { color: #616161; font-size: 13px; margin: 0 0 16px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e0e0e0; }
+    th { background: #f5f5f5; }
+    td:first-child { white-space: nowrap; }
+    tr.failed td { color: #c62828; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>Gate activity report</h1>
+  <p class="meta">
+    ${escapeHtml(scope)} &middot; ${escapeHtml(describeExportPeriod(query))} &middot; ${rows.length} entries<br>
+    Generated ${escapeHtml(formatTimestamp(generatedAt.toISOString()))}. Passwords are redacted.
+  </p>
+  <table>
+    <thead>
+      <tr>${CSV_COLUMNS.map(column => `<th>${column.label}</th>`).join('')}</tr>
+    </thead>
+    <tbody>${body}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+};
+
+// Write the export to a file and open the share sheet. Returns the number of entries exported.
+export const shareLogExport = async (
+  format: LogExportFormat,
+  entries: LogEntry[],
+  query: LogQuery,
+  devices: Device[]
+): Promise<number> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const rows = buildLogExportRows(entries, query, devices);
+  const content = format === 'csv' ? toLogCsv(rows) : toLogReportHtml(rows, query, devices);
+
+  const { extension, mimeType, UTI } = FILE_TYPES[format];
+  const scope = query.deviceId ? deviceName(devices, query.deviceId) : 'all-gates';
+  const slug = scope.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'gate';
+  const filePath = `${FileSystem.cacheDirectory}gate-activity-${slug}-${formatDate(new Date())}.${extension}`;
+
+  await FileSystem.writeAsStringAsync(filePath, content);
+  await Sharing.shareAsync(filePath, {
+    mimeType,
+    dialogTitle: format === 'csv' ? 'Export Activity Log' : 'Share Activity Report',
+    UTI, // For iOS
+  });
+  return rows.length;
+};
+
+export default {
+  buildLogExportRows,
+  toLogCsv,
+  toLogReportHtml,
+  describeExportPeriod,
+  shareLogExport,
+};
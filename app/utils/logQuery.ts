@@ -0,0 +1,79 @@
+// utils/logQuery.ts
+// Filtering and cursor pagination over activity log entries. Pages are cut at a
+// (timestamp, id) position rather than an offset, so entries logged while the user
+// scrolls do not shift or repeat the pages that follow.
+import type { LogCategory, LogEntry } from './LogManager';
+
+export type LogResultFilter = 'all' | 'success' | 'failure';
+
+export interface LogQuery {
+  deviceId?: string;          // Every device when omitted; a device's logs include system entries
+  categories?: LogCategory[]; // Any category when empty
+  result?: LogResultFilter;
+  from?: string;              // ISO timestamps, both inclusive
+  to?: string;
+  search?: string;            // Case-insensitive, matched against action and details
+}
+
+export interface LogPageRequest {
+  cursor?: string | null;     // nextCursor of the previous page, omitted for the first
+  limit?: number;
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  nextCursor: string | null;  // null on the last page
+  total: number;              // Entries matching the query across all pages
+}
+
+export const DEFAULT_LOG_PAGE_SIZE = 50;
+
+type LogPosition = Pick<LogEntry, 'timestamp' | 'id'>;
+
+// Newest first, with the id as a tie-break so entries logged in the same millisecond keep their order
+export const compareLogs = (a: LogPosition, b: LogPosition): number =>
+  b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id);
+
+const encodeCursor = (entry: LogEntry): string => `${entry.timestamp}|${entry.id}`;
+
+const decodeCursor = (cursor: string): LogPosition | null => {
+  const separator = cursor.indexOf('|');
+  if (separator === -1) return null;
+  return { timestamp: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+};
+
+export const matchesLogQuery = (entry: LogEntry, query: LogQuery): boolean => {
+  if (query.categories && query.categories.length > 0 && !query.categories.includes(entry.category)) return false;
+  if (query.result === 'success' && !entry.success) return false;
+  if (query.result === 'failure' && entry.success) return false;
+  if (query.from && entry.timestamp < query.from) return false;
+  if (query.to && entry.timestamp > query.to) return false;
+
+  const search = query.search?.trim().toLowerCase();
+  if (search && !`${entry.action}\n${entry.details}`.toLowerCase().includes(search)) return false;
+  return true;
+};
+
+// Filter entries already scoped to the query's device and return the requested page
+export const queryLogs = (entries: LogEntry[], query: LogQuery, page: LogPageRequest = {}): LogPage => {
+  const matching = entries.filter(entry => matchesLogQuery(entry, query)).sort(compareLogs);
+  const limit = Math.max(1, page.limit || DEFAULT_LOG_PAGE_SIZE);
+
+  const after = page.cursor ? decodeCursor(page.cursor) : null;
+  const start = after ? matching.findIndex(entry => compareLogs(entry, after) > 0) : 0;
+  if (start === -1) return { entries: [], nextCursor: null, total: matching.length };
+
+  const slice = matching.slice(start, start + limit);
+  const hasMore = start + limit < matching.length;
+  return {
+    entries: slice,
+    nextCursor: hasMore ? encodeCursor(slice[slice.length - 1]) : null,
+    total: matching.length,
+  };
+};
+
+export default {
+  compareLogs,
+  matchesLogQuery,
+  queryLogs,
+};
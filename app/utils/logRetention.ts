@@ -0,0 +1,82 @@
+// utils/logRetention.ts
+// How many activity log entries are kept per gate, and for how long. A category can
+// override either limit, e.g. to keep gate openings for a year but system noise for a month.
+import type { LogCategory, LogEntry } from './LogManager';
+
+// null means no limit
+export interface LogRetentionRule {
+  maxEntries: number | null;
+  maxAgeDays: number | null;
+}
+
+export interface LogRetentionPolicy extends LogRetentionRule {
+  // A category with its own maxEntries is counted separately from the shared limit
+  categories?: Partial<Record<LogCategory, Partial<LogRetentionRule>>>;
+}
+
+export const DEFAULT_LOG_RETENTION: LogRetentionPolicy = {
+  maxEntries: 1000,
+  maxAgeDays: 365,
+  categories: {
+    system: { maxAgeDays: 90 },
+  },
+};
+
+// Choosing no entry limit still stops here: every new entry rewrites its gate's whole list in storage,
+// so an unbounded list would make each gate opening slower to log than the last
+export const MAX_ENTRIES_CAP = 10000;
+
+// Choices offered in settings
+export const MAX_ENTRY_OPTIONS: (number | null)[] = [200, 1000, 5000, null];
+export const MAX_AGE_OPTIONS: (number | null)[] = [30, 90, 365, null];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getRetentionRule = (policy: LogRetentionPolicy, category: LogCategory): LogRetentionRule => ({
+  maxEntries: policy.maxEntries,
+  maxAgeDays: policy.maxAgeDays,
+  ...policy.categories?.[category],
+});
+
+// Keep the entries of one gate that the policy allows; entries must be newest first
+export const applyRetention = (
+  entries: LogEntry[],
+  policy: LogRetentionPolicy,
+  now: Date = new Date()
+): LogEntry[] => {
+  let sharedCount = 0;
+  const perCategory: Partial<Record<LogCategory, number>> = {};
+
+  const kept = entries.filter(entry => {
+    const rule = getRetentionRule(policy, entry.category);
+    if (rule.maxAgeDays !== null && now.getTime() - new Date(entry.timestamp).getTime() > rule.maxAgeDays * DAY_MS) {
+      return false;
+    }
+
+    const ownLimit = policy.categories?.[entry.category]?.maxEntries;
+    if (ownLimit !== undefined) {
+      perCategory[entry.category] = (perCategory[entry.category] || 0) + 1;
+      return ownLimit === null || perCategory[entry.category]! <= ownLimit;
+    }
+    sharedCount++;
+    return policy.maxEntries === null || sharedCount <= policy.maxEntries;
+  });
+  return kept.length > MAX_ENTRIES_CAP ? kept.slice(0, MAX_ENTRIES_CAP) : kept;
+};
+
+export const formatMaxEntries = (value: number | null): string =>
+  value === null ? `Up to ${MAX_ENTRIES_CAP.toLocaleString()}` : `${value.toLocaleString()} entries`;
+
+export const formatMaxAge = (value: number | null): string => {
+  if (value === null) return 'Forever';
+  if (value % 365 === 0) return value === 365 ? '1 year' : `${value / 365} years`;
+  return `${value} days`;
+};
+
+export default {
+  DEFAULT_LOG_RETENTION,
+  getRetentionRule,
+  applyRetention,
+  formatMaxEntries,
+  formatMaxAge,
+};
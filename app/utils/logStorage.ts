@@ -0,0 +1,175 @@
+// utils/logStorage.ts
+// Activity logs are kept out of the app_data document, one AsyncStorage key per gate
+// (plus one for system entries), so logging a gate opening rewrites only that gate's list.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LogEntry } from './LogManager';
+import { compareLogs } from './logQuery';
+import { RepairReport, validateLogEntry } from './dataValidation';
+import { applyRetention, DEFAULT_LOG_RETENTION, LogRetentionPolicy } from './logRetention';
+import { safeMultiRemove } from './storageUtils';
+
+// Entries that belong to no device
+export const SYSTEM_LOGS = 'system';
+
+const LOG_KEY_PREFIX = 'activity_logs_';
+
+export type LogBuckets = Record<string, LogEntry[]>;
+
+const bucketOf = (entry: Pick<LogEntry, 'deviceId'>): string => entry.deviceId || SYSTEM_LOGS;
+
+export class LogStorage {
+  private buckets: LogBuckets = {};
+  private policy: LogRetentionPolicy = DEFAULT_LOG_RETENTION;
+  private writes: Promise<void> = Promise.resolve();
+  private locked = false;
+
+  // Read every stored bucket; unreadable ones are skipped and left for the next write to replace.
+  // Entries are checked like the rest of the store; a bucket that needed repairs is written back repaired.
+  public async load(report: RepairReport): Promise<void> {
+    this.buckets = {};
+    const repaired: string[] = [];
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(LOG_KEY_PREFIX));
+    for (const [key, json] of await AsyncStorage.multiGet(keys)) {
+      try {
+        const entries: unknown = JSON.parse(json || '[]');
+        if (!Array.isArray(entries)) continue;
+
+        const bucket = key.slice(LOG_KEY_PREFIX.length);
+        const issues = report.repaired.length + report.dropped.length;
+        const valid = entries
+          .map((entry, index) => validateLogEntry(entry, `${key}[${index}]`, report))
+          .filter((entry): entry is LogEntry => entry !== null);
+        this.buckets[bucket] = valid;
+        if (report.repaired.length + report.dropped.length > issues) repaired.push(bucket);
+      } catch (error) {
+        console.error(`Could not parse logs in ${key}:`, error);
+      }
+    }
+    await this.save(repaired);
+  }
+
+  // While locked, changes are kept in memory only; used when the stored logs could not be loaded,
+  // since a write would replace whole buckets with the few entries logged since
+  public setLocked(locked: boolean): void {
+    this.locked = locked;
+  }
+
+  public setPolicy(policy: LogRetentionPolicy): void {
+    this.policy = policy;
+  }
+
+  public getBuckets(): LogBuckets {
+    return JSON.parse(JSON.stringify(this.buckets));
+  }
+
+  public getEntries(buckets: string[] = Object.keys(this.buckets)): LogEntry[] {
+    return buckets.flatMap(bucket => this.buckets[bucket] || []);
+  }
+
+  // Rewrites the gate's whole list, so the cost grows with the list; MAX_ENTRIES_CAP bounds it
+  public async append(entry: LogEntry): Promise<void> {
+    const bucket = bucketOf(entry);
+    this.buckets[bucket] = applyRetention([entry, ...(this.buckets[bucket] || [])], this.policy);
+    await this.save([bucket]);
+  }
+
+  public async update(logId: string, updates: Partial<Omit<LogEntry, 'id'>>): Promise<LogEntry | null> {
+    for (const bucket of Object.keys(this.buckets)) {
+      const index = this.buckets[bucket].findIndex(log => log.id === logId);
+      if (index === -1) continue;
+
+      const updatedLog = { ...this.buckets[bucket][index], ...updates };
+      this.buckets[bucket][index] = updatedLog;
+      await this.save([bucket]);
+      return updatedLog;
+    }
+    return null;
+  }
+
+  // Add entries from elsewhere (an older app_data document, legacy keys), skipping ids already stored
+  public async merge(incoming: LogBuckets): Promise<number> {
+    const seen = new Set(this.getEntries().map(log => log.id));
+    const touched = new Set<string>();
+    let added = 0;
+    for (const [bucket, entries] of Object.entries(incoming)) {
+      for (const entry of entries) {
+        if (seen.has(entry.id)) continue;
+        seen.add(entry.id);
+        (this.buckets[bucket] = this.buckets[bucket] || []).push(entry);
+        touched.add(bucket);
+        added++;
+      }
+    }
+    for (const bucket of touched) {
+      this.buckets[bucket] = applyRetention(this.buckets[bucket].sort(compareLogs), this.policy);
+    }
+    await this.save([...touched]);
+    return added;
+  }
+
+  // Swap in the logs of a restored backup
+  public async replace(incoming: LogBuckets): Promise<void> {
+    const removed = Object.keys(this.buckets).filter(bucket => !incoming[bucket]);
+    this.buckets = {};
+    await this.save(removed);
+    await this.merge(incoming);
+  }
+
+  public async clear(bucket?: string): Promise<boolean> {
+    const cleared = bucket ? (this.buckets[bucket] ? [bucket] : []) : Object.keys(this.buckets);
+    if (cleared.length === 0) return false;
+    cleared.forEach(b => delete this.buckets[b]);
+    await this.save(cleared);
+    return true;
+  }
+
+  // How many stored entries a policy would remove, so a tighter one can be confirmed first
+  public countRemovedBy(policy: LogRetentionPolicy, now: Date = new Date()): number {
+    return Object.values(this.buckets).reduce(
+      (removed, entries) => removed + entries.length - applyRetention(entries, policy, now).length,
+      0
+    );
+  }
+
+  // Apply the current policy to every bucket, e.g. after it was tightened in settings
+  public async prune(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    const changed: string[] = [];
+    for (const bucket of Object.keys(this.buckets)) {
+      const kept = applyRetention(this.buckets[bucket], this.policy, now);
+      if (kept.length === this.buckets[bucket].length) continue;
+      removed += this.buckets[bucket].length - kept.length;
+      this.buckets[bucket] = kept;
+      changed.push(bucket);
+    }
+    await this.save(changed);
+    return removed;
+  }
+
+  // Writes run one after another so an older list never lands after a newer one
+  private save(buckets: string[]): Promise<void> {
+    if (buckets.length === 0 || this.locked) return this.writes;
+
+    const write = async () => {
+      try {
+        const empty = buckets.filter(bucket => !this.buckets[bucket]?.length);
+        const filled = buckets.filter(bucket => this.buckets[bucket]?.length);
+        if (filled.length > 0) {
+          await AsyncStorage.multiSet(
+            filled.map(bucket => [`${LOG_KEY_PREFIX}${bucket}`, JSON.stringify(this.buckets[bucket])])
+          );
+        }
+        if (empty.length > 0) {
+          await safeMultiRemove(empty.map(bucket => `${LOG_KEY_PREFIX}${bucket}`));
+        }
+      } catch (error) {
+        console.error('Failed to save logs:', error);
+      }
+    };
+
+    this.writes = this.writes.then(write);
+    return this.writes;
+  }
+}
+
+export default LogStorage;
@@ -0,0 +1,182 @@
+// utils/phoneNumbers.ts
+// One place to read phone numbers in any of the forms people type them (0412 345 678,
+// +61 412 345 678, 0061412345678) and write them back in the form each consumer needs.
+export type PhoneCountryId = 'AU' | 'NZ' | 'GB' | 'US';
+
+export interface PhoneCountry {
+  id: PhoneCountryId;
+  name: string;
+  dialCode: string;                 // Without + or 00
+  trunkPrefix: string;              // Dialled before local numbers, '' if none
+  internationalPrefixes: string[];  // Dialled before a country code, longest first
+  nationalLengths: [number, number]; // Digits after the trunk prefix, min and max
+  groups: (national: string) => number[]; // Digit groups for display
+}
+
+export interface ParsedPhoneNumber {
+  international: string;   // Country code and national number, digits only
+  country?: PhoneCountryId; // Undefined for country codes not in the table
+  national: string;        // Without the trunk prefix, '' when the country is unknown
+}
+
+export const PHONE_COUNTRIES: Record<PhoneCountryId, PhoneCountry> = {
+  AU: {
+    id: 'AU',
+    name: 'Australia',
+    dialCode: '61',
+    trunkPrefix: '0',
+    internationalPrefixes: ['0011', '00'],
+    nationalLengths: [9, 9],
+    groups: national => (/^[45]/.test(national) ? [3, 3, 3] : [1, 4, 4]),
+  },
+  NZ: {
+    id: 'NZ',
+    name: 'New Zealand',
+    dialCode: '64',
+    trunkPrefix: '0',
+    internationalPrefixes: ['00'],
+    nationalLengths: [8, 10],
+    groups: national => (national.startsWith('2') ? [2, 3, 4] : [1, 3, 4]),
+  },
+  GB: {
+    id: 'GB',
+    name: 'United Kingdom',
+    dialCode: '44',
+    trunkPrefix: '0',
+    internationalPrefixes: ['00'],
+    nationalLengths: [9, 10],
+    groups: () => [4, 6],
+  },
+  US: {
+    id: 'US',
+    name: 'United States',
+    dialCode: '1',
+    trunkPrefix: '',
+    internationalPrefixes: ['011'],
+    nationalLengths: [10, 10],
+    groups: () => [3, 3, 4],
+  },
+};
+
+// E.164 allows at most 15 digits after the +
+const MIN_INTERNATIONAL_LENGTH = 8;
+const MAX_INTERNATIONAL_LENGTH = 15;
+
+let defaultCountry: PhoneCountryId = 'AU';
+
+export const setDefaultPhoneCountry = (id: PhoneCountryId): void => {
+  if (!PHONE_COUNTRIES[id]) {
+    console.error('Unknown phone country:', id);
+    return;
+  }
+  defaultCountry = id;
+};
+
+export const getDefaultPhoneCountry = (): PhoneCountryId => defaultCountry;
+
+const fitsCountry = (national: string, country: PhoneCountry): boolean =>
+  national.length >= country.nationalLengths[0] && national.length <= country.nationalLengths[1];
+
+const fromInternational = (international: string): ParsedPhoneNumber | null => {
+  if (international.length < MIN_INTERNATIONAL_LENGTH || international.length > MAX_INTERNATIONAL_LENGTH) return null;
+
+  const country = Object.values(PHONE_COUNTRIES).find(c => international.startsWith(c.dialCode));
+  if (!country) return { international, national: '' };
+
+  const national = international.slice(country.dialCode.length);
+  return fitsCountry(national, country) ? { international, country: country.id, national } : null;
+};
+
+// Spaces, dashes, dots and brackets are formatting; anything else makes the number unreadable
+export const parsePhoneNumber = (raw: string, countryId: PhoneCountryId = defaultCountry): ParsedPhoneNumber | null => {
+  const cleaned = (raw || '').trim().replace(/[\s\-().]/g, '');
+  if (!/^\+?\d+$/.test(cleaned)) return null;
+  if (cleaned.startsWith('+')) return fromInternational(cleaned.slice(1));
+
+  const country = PHONE_COUNTRIES[countryId];
+  // 00 is also the form stored for the device, whatever the country
+  const prefix = [...country.internationalPrefixes, '00'].find(p => cleaned.startsWith(p));
+  if (prefix) return fromInternational(cleaned.slice(prefix.length));
+
+  const national = country.trunkPrefix && cleaned.startsWith(country.trunkPrefix)
+    ? cleaned.slice(country.trunkPrefix.length)
+    : cleaned;
+  if (fitsCountry(national, country)) {
+    return { international: country.dialCode + national, country: country.id, national };
+  }
+
+  // Spreadsheets drop the leading +, leaving 61412345678
+  if (cleaned.startsWith(country.dialCode)) {
+    const parsed = fromInternational(cleaned);
+    if (parsed?.country === country.id) return parsed;
+  }
+  return null;
+};
+
+// Error message for a number that cannot be used, null if it is fine
+export const validatePhoneNumber = (raw: string, countryId: PhoneCountryId = defaultCountry): string | null => {
+  if (!raw || !raw.trim()) return 'Please enter a phone number';
+  if (parsePhoneNumber(raw, countryId)) return null;
+  const country = PHONE_COUNTRIES[countryId];
+  return `Not a valid ${country.name} number. Numbers from other countries need their country code, e.g. +${country.dialCode}`;
+};
+
+// The form gate devices store and dial back, e.g. 0061412345678
+export const toDevicePhoneNumber = (raw: string, countryId: PhoneCountryId = defaultCountry): string | null => {
+  const parsed = parsePhoneNumber(raw, countryId);
+  return parsed ? `00${parsed.international}` : null;
+};
+
+// The form used as the recipient of an sms: link or the native composer, e.g. +61412345678
+export const toSmsAddress = (raw: string, countryId: PhoneCountryId = defaultCountry): string => {
+  const parsed = parsePhoneNumber(raw, countryId);
+  return parsed ? `+${parsed.international}` : (raw || '').replace(/[^0-9+]/g, '');
+};
+
+const group = (digits: string, sizes: number[]): string => {
+  const parts: string[] = [];
+  let index = 0;
+  for (const size of sizes) {
+    if (index >= digits.length) break;
+    parts.push(digits.slice(index, index + size));
+    index += size;
+  }
+  if (index < digits.length) parts.push(digits.slice(index));
+  return parts.join(' ');
+};
+
+// Local numbers as they are written at home (0412 345 678), others with their country code
+export const formatPhoneForDisplay = (raw: string, countryId: PhoneCountryId = defaultCountry): string => {
+  const parsed = parsePhoneNumber(raw, countryId);
+  if (!parsed) return raw;
+  if (!parsed.country) return `+${parsed.international}`;
+
+  const country = PHONE_COUNTRIES[parsed.country];
+  const national = group(parsed.national, country.groups(parsed.national));
+  if (parsed.country === countryId) return `${country.trunkPrefix}${national}`;
+  return `+${country.dialCode} ${national}`;
+};
+
+// Key for duplicate detection: every form of the same number gives the same key
+export const phoneMatchKey = (raw: string, countryId: PhoneCountryId = defaultCountry): string => {
+  const parsed = parsePhoneNumber(raw, countryId);
+  return parsed ? parsed.international : (raw || '').replace(/\D/g, '');
+};
+
+export const isSamePhoneNumber = (a: string, b: string, countryId: PhoneCountryId = defaultCountry): boolean => {
+  const key = phoneMatchKey(a, countryId);
+  return key !== '' && key === phoneMatchKey(b, countryId);
+};
+
+export default {
+  PHONE_COUNTRIES,
+  setDefaultPhoneCountry,
+  getDefaultPhoneCountry,
+  parsePhoneNumber,
+  validatePhoneNumber,
+  toDevicePhoneNumber,
+  toSmsAddress,
+  formatPhoneForDisplay,
+  phoneMatchKey,
+  isSamePhoneNumber,
+};
@@ -0,0 +1,213 @@
+// utils/replyParser.ts
+// Parses the SMS replies sent back by G-APC units (status reports, acknowledgements, errors).
+import { AccessType, GateCommandType } from './gateCommands';
+
+export type ReplyKind = 'status' | 'ack' | 'error' | 'unknown';
+
+// Everything a reply can tell us about the unit. Fields are only present when reported.
+export interface DeviceStatus {
+  relayOn?: boolean;
+  accessMode?: AccessType;
+  latchTime?: string;
+  signal?: number;   // GSM signal quality, 0-31
+  userCount?: number;
+  firmware?: string;
+  confirmedAt: string;
+}
+
+// One position from a user list reply, e.g. "002:0400333444:2401010800:2412312359"
+export interface DeviceUserEntry {
+  serialNumber: string;
+  phoneNumber: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface ParsedReply {
+  kind: ReplyKind;
+  confirms: GateCommandType[]; // Command kinds this reply answers; empty when it could answer any
+  status: Omit<DeviceStatus, 'confirmedAt'>;
+  serial?: string;             // User slot mentioned in a user add/delete acknowledgement
+  users?: DeviceUserEntry[];   // Positions listed in answer to LIST_USERS
+  summary: string;             // Short human-readable description for logs
+  raw: string;
+}
+
+const ERROR_PATTERN = /\b(error|fail(ed|ure)?|wrong|invalid|denied)\b/i;
+const SUCCESS_PATTERN = /\b(success(ful)?|ok|done)\b/i;
+
+// Acknowledgement formats, checked in order. Each maps to the command it confirms.
+const ACK_RULES: {
+  pattern: RegExp;
+  confirms: GateCommandType;
+  apply: (match: RegExpMatchArray, reply: ParsedReply) => void;
+}[] = [
+  {
+    pattern: /^relay\s*\d?\s*(?:is\s*)?(on|off)$/i,
+    confirms: 'OPEN',
+    apply: (match, reply) => {
+      reply.status.relayOn = match[1].toUpperCase() === 'ON';
+      reply.confirms = [reply.status.relayOn ? 'OPEN' : 'CLOSE'];
+      reply.summary = `Relay switched ${reply.status.relayOn ? 'ON' : 'OFF'}`;
+    },
+  },
+  {
+    pattern: /^user\s*(\d{3})\s*(?:set\s*)?success/i,
+    confirms: 'ADD_USER',
+    apply: (match, reply) => {
+      reply.serial = match[1];
+      reply.summary = `User ${match[1]} stored on device`;
+    },
+  },
+  {
+    pattern: /^user\s*(\d{3})\s*deleted/i,
+    confirms: 'DELETE_USER',
+    apply: (match, reply) => {
+      reply.serial = match[1];
+      reply.summary = `User ${match[1]} removed from device`;
+    },
+  },
+  {
+    pattern: /^access\s*(AUT|ALL)\s*(?:set\s*)?success/i,
+    confirms: 'SET_ACCESS',
+    apply: (match, reply) => {
+      reply.status.accessMode = match[1].toUpperCase() as AccessType;
+      reply.summary = `Access mode set to ${reply.status.accessMode}`;
+    },
+  },
+  {
+    pattern: /^GOT\s*(\d{1,3})\s*(?:set\s*)?success/i,
+    confirms: 'SET_LATCH',
+    apply: (match, reply) => {
+      reply.status.latchTime = match[1].padStart(3, '0');
+      reply.summary = `Latch time set to ${reply.status.latchTime}`;
+    },
+  },
+  {
+    pattern: /^TEL\s*(\d+)\s*(?:set\s*)?success/i,
+    confirms: 'REGISTER_ADMIN',
+    apply: (match, reply) => {
+      reply.summary = `Admin number ${match[1]} registered`;
+    },
+  },
+  {
+    pattern: /^password\s*(?:set\s*)?success/i,
+    confirms: 'CHANGE_PASSWORD',
+    apply: (_match, reply) => {
+      reply.summary = 'Password changed on device';
+    },
+  },
+];
+
+const USER_LINE_PATTERN = /^(\d{3})\s*[:=#]\s*(\d{6,20})(?:\s*[:#]\s*(\d{10})\s*[:#]\s*(\d{10}))?$/;
+
+// Positions listed in a user list reply. Long lists arrive as several SMS, which can be
+// pasted together; lines that are not a position are ignored.
+export const parseUserList = (body: string): DeviceUserEntry[] =>
+  body.split(/[\n;]+/).flatMap(line => {
+    const match = line.trim().match(USER_LINE_PATTERN);
+    if (!match) return [];
+    const [, serialNumber, phoneNumber, startTime, endTime] = match;
+    return [{ serialNumber, phoneNumber, ...(startTime ? { startTime, endTime } : {}) }];
+  });
+
+// Extract "key: value" pairs from a multi-line or comma separated status report
+const parseStatusFields = (body: string): Omit<DeviceStatus, 'confirmedAt'> => {
+  const status: Omit<DeviceStatus, 'confirmedAt'> = {};
+
+  body.split(/[\n,;]+/).forEach(part => {
+    const match = part.trim().match(/^([A-Za-z ]+?)\s*[:=]\s*(.+)$/);
+    if (!match) return;
+
+    const key = match[1].trim().toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'relay' || key === 'relay state' || key === 'output') {
+      status.relayOn = /^(on|1|closed)$/i.test(value);
+    } else if (key === 'access' || key === 'mode' || key === 'access mode') {
+      const mode = value.toUpperCase();
+      if (mode === 'AUT' || mode === 'ALL') status.accessMode = mode;
+    } else if (key === 'got' || key === 'latch' || key === 'latch time') {
+      const digits = value.match(/\d{1,3}/)?.[0];
+      if (digits) status.latchTime = digits.padStart(3, '0');
+    } else if (key === 'csq' || key === 'signal' || key === 'gsm signal') {
+      const signal = parseInt(value, 10);
+      if (!isNaN(signal)) status.signal = signal;
+    } else if (key === 'users' || key === 'user count') {
+      const count = parseInt(value, 10);
+      if (!isNaN(count)) status.userCount = count;
+    } else if (key === 'ver' || key === 'version' || key === 'firmware') {
+      status.firmware = value;
+    }
+  });
+
+  return status;
+};
+
+// Parse any reply text received from (or pasted for) a unit
+export const parseReply = (body: string): ParsedReply => {
+  const raw = body.trim();
+  const reply: ParsedReply = { kind: 'unknown', confirms: [], status: {}, summary: raw, raw };
+
+  if (!raw) {
+    return reply;
+  }
+
+  if (ERROR_PATTERN.test(raw)) {
+    return { ...reply, kind: 'error', summary: `Device reported an error: ${raw}` };
+  }
+
+  const users = parseUserList(raw);
+  if (users.length > 0 || /^no\s*users/i.test(raw)) {
+    return {
+      ...reply,
+      kind: 'ack',
+      confirms: ['LIST_USERS'],
+      users,
+      summary: `${users.length} user${users.length === 1 ? '' : 's'} listed by device`,
+    };
+  }
+
+  for (const rule of ACK_RULES) {
+    const match = raw.match(rule.pattern);
+    if (match) {
+      reply.kind = 'ack';
+      reply.confirms = [rule.confirms];
+      rule.apply(match, reply);
+      return reply;
+    }
+  }
+
+  const status = parseStatusFields(raw);
+  if (Object.keys(status).length > 0) {
+    const parts: string[] = [];
+    if (status.relayOn !== undefined) parts.push(`Relay ${status.relayOn ? 'ON' : 'OFF'}`);
+    if (status.accessMode) parts.push(`Access ${status.accessMode}`);
+    if (status.latchTime) parts.push(`Latch ${status.latchTime}`);
+    if (status.signal !== undefined) parts.push(`Signal ${status.signal}`);
+    return { ...reply, kind: 'status', confirms: ['STATUS'], status, summary: parts.join(', ') || 'Status received' };
+  }
+
+  if (SUCCESS_PATTERN.test(raw)) {
+    return { ...reply, kind: 'ack', summary: 'Device acknowledged command' };
+  }
+
+  return reply;
+};
+
+// Merge whatever a reply reported into the last known status
+export const mergeDeviceStatus = (
+  previous: DeviceStatus | undefined,
+  reply: ParsedReply,
+  confirmedAt: string = new Date().toISOString()
+): DeviceStatus => ({
+  ...previous,
+  ...reply.status,
+  confirmedAt,
+});
+
+export default {
+  parseReply,
+  parseUserList,
+  mergeDeviceStatus,
+};
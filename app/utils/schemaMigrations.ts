@@ -0,0 +1,175 @@
+// utils/schemaMigrations.ts
+// Ordered, pure migrations for the persisted `app_data` document.
+// Every stored or backed-up shape is upgraded step by step to CURRENT_SCHEMA_VERSION on load.
+import { getCapabilities } from './deviceModels';
+import { findNextFreeSlot, isValidSlot } from './userSlots';
+
+// A parsed app_data document of any version. Only validateAppData turns it into AppData.
+export type AppDataDocument = Record<string, unknown>;
+
+export interface SchemaMigration {
+  version: number;     // Schema version the data has after this migration
+  description: string;
+  migrate: (data: AppDataDocument) => AppDataDocument;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// The records of a collection, skipping anything that is not one
+const asRecords = (value: unknown): Record<string, unknown>[] => asArray(value).filter(isObject);
+
+export const MIGRATIONS: SchemaMigration[] = [
+  {
+    // Documents written before versioning, including partial ones from early builds and backups
+    version: 1,
+    description: 'Ensure the top-level collections and global settings exist',
+    migrate: (data) => {
+      const globalSettings = isObject(data.globalSettings) ? data.globalSettings : {};
+      return {
+        ...data,
+        devices: asArray(data.devices),
+        users: asArray(data.users),
+        logs: isObject(data.logs) ? data.logs : {},
+        globalSettings: {
+          ...globalSettings,
+          adminNumber: typeof globalSettings.adminNumber === 'string' ? globalSettings.adminNumber : '',
+          activeDeviceId: typeof globalSettings.activeDeviceId === 'string' ? globalSettings.activeDeviceId : null,
+          completedSteps: asArray(globalSettings.completedSteps),
+        },
+      };
+    },
+  },
+  {
+    // Devices created before model selection and relay settings were stored
+    version: 2,
+    description: 'Default device model, authorized users and relay settings',
+    migrate: (data) => ({
+      ...data,
+      devices: asRecords(data.devices).map(device => ({
+        ...device,
+        type: device.type === 'Phonic4v' ? 'Phonic4v' : 'Connect4v',
+        authorizedUsers: asArray(device.authorizedUsers),
+        relaySettings: isObject(device.relaySettings)
+          ? device.relaySettings
+          : { accessControl: 'AUT', latchTime: '000' },
+      })),
+    }),
+  },
+  {
+    // Users saved by the legacy screens with unpadded serials and empty time strings
+    version: 3,
+    description: 'Pad user serials to three digits and drop empty access times',
+    migrate: (data) => ({
+      ...data,
+      users: asRecords(data.users).map(user => {
+        const { startTime, endTime, ...rest } = user;
+        const serial = String(user.serialNumber ?? '');
+        return {
+          ...rest,
+          name: user.name || 'Unnamed User',
+          phoneNumber: String(user.phoneNumber ?? ''),
+          serialNumber: /^\d{1,3}$/.test(serial) ? serial.padStart(3, '0') : serial,
+          ...(startTime ? { startTime } : {}),
+          ...(endTime ? { endTime } : {}),
+        };
+      }),
+    }),
+  },
+  {
+    // Users carried one global serial and devices listed user ids, so a person had the
+    // same position on every gate. Split them into people and per-device slots.
+    version: 4,
+    description: 'Move serials and access windows from users to per-device slots',
+    migrate: (data) => {
+      const users = asRecords(data.users);
+      const slots: Record<string, unknown>[] = [];
+      const now = new Date().toISOString();
+
+      const devices = asRecords(data.devices).map(device => {
+        const { authorizedUsers, ...rest } = device;
+        const maxUsers = getCapabilities(typeof device.type === 'string' ? device.type : undefined).maxUsers;
+        const used: string[] = [];
+
+        for (const userId of asArray(authorizedUsers)) {
+          const user = users.find(u => u.id === userId);
+          if (!user || used.length >= maxUsers) continue;
+
+          // Keep the old position unless another user on this device already holds it
+          const oldSerial = user.serialNumber === undefined || user.serialNumber === null ? undefined : String(user.serialNumber);
+          let serial = isValidSlot(oldSerial, maxUsers) ? oldSerial.padStart(3, '0') : null;
+          if (!serial || used.includes(serial)) {
+            serial = findNextFreeSlot(used, maxUsers);
+          }
+          used.push(serial);
+          slots.push({
+            deviceId: device.id,
+            serialNumber: serial,
+            userId: user.id,
+            ...(user.startTime ? { startTime: user.startTime } : {}),
+            ...(user.endTime ? { endTime: user.endTime } : {}),
+            // A moved user is not at the new position on the device yet
+            status: serial === user.serialNumber ? 'active' : 'pending',
+            updatedAt: now,
+          });
+        }
+        return rest;
+      });
+
+      return {
+        ...data,
+        devices,
+        users: users.map(({ serialNumber, startTime, endTime, ...person }) => person),
+        slots,
+      };
+    },
+  },
+  {
+    // Command batches are queued per device and persisted so they survive a restart
+    version: 5,
+    description: 'Add the command queue',
+    migrate: (data) => ({
+      ...data,
+      batches: asArray(data.batches),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationResult {
+  data: AppDataDocument;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[]; // Descriptions of the migrations that ran
+}
+
+// Upgrade a parsed app_data document. Unversioned documents are treated as version 0.
+// Data from a newer app version is returned unchanged rather than downgraded.
+export const migrateAppData = (raw: unknown): MigrationResult => {
+  const input = isObject(raw) ? raw : {};
+  const fromVersion = typeof input.schemaVersion === 'number' ? input.schemaVersion : 0;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`app_data schema ${fromVersion} is newer than this app (${CURRENT_SCHEMA_VERSION})`);
+    return { data: input, fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  let data: AppDataDocument = input;
+  const applied: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    data = { ...migration.migrate(data), schemaVersion: migration.version };
+    applied.push(migration.description);
+  }
+
+  return { data, fromVersion, toVersion: CURRENT_SCHEMA_VERSION, applied };
+};
+
+export default {
+  MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  migrateAppData,
+};
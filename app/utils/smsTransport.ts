@@ -0,0 +1,181 @@
+// utils/smsTransport.ts
+// Pluggable transports used to deliver SMS commands to a gate.
+import { Linking, Platform } from 'react-native';
+import * as SMS from 'expo-sms';
+import { simulatorTransport } from './gateSimulator';
+import { toSmsAddress } from './phoneNumbers';
+
+export type SmsTransportId = 'linking' | 'expo-sms' | 'memory' | 'simulator';
+
+export interface SmsTransportCapabilities {
+  opensComposer: boolean;   // User has to press send in the messaging app
+  reportsDelivery: boolean; // Send result says whether the message actually went out
+  canReceive: boolean;      // Inbound replies can be observed by the app
+  simulated: boolean;       // Messages stay inside the app and never reach a real gate
+}
+
+export interface OutgoingSms {
+  phoneNumber: string;
+  body: string;
+}
+
+export interface IncomingSms {
+  phoneNumber: string;
+  body: string;
+  receivedAt: string;
+}
+
+// 'composed' means the messaging app was opened but the outcome is unknown
+export type SmsSendStatus = 'sent' | 'composed' | 'cancelled';
+
+export type IncomingSmsListener = (message: IncomingSms) => void;
+
+export interface SmsTransport {
+  id: SmsTransportId;
+  name: string;
+  description: string;
+  capabilities: SmsTransportCapabilities;
+  isAvailable: () => Promise<boolean>;
+  send: (message: OutgoingSms) => Promise<SmsSendStatus>;
+  // Returns an unsubscribe function
+  onIncoming?: (listener: IncomingSmsListener) => () => void;
+}
+
+const buildSmsUrl = ({ phoneNumber, body }: OutgoingSms): string => {
+  const formattedPhoneNumber = toSmsAddress(phoneNumber);
+  return Platform.select({
+    ios: `sms:${formattedPhoneNumber}&body=${encodeURIComponent(body)}`,
+    android: `sms:${formattedPhoneNumber}?body=${encodeURIComponent(body)}`,
+    default: `sms:${formattedPhoneNumber}?body=${encodeURIComponent(body)}`,
+  });
+};
+
+// Opens the platform messaging app through an sms: deep link
+export const linkingTransport: SmsTransport = {
+  id: 'linking',
+  name: 'Messaging app (link)',
+  description: 'Opens your messaging app with the command pre-filled. You press send.',
+  capabilities: { opensComposer: true, reportsDelivery: false, canReceive: false, simulated: false },
+  isAvailable: async () => Linking.canOpenURL(buildSmsUrl({ phoneNumber: '0', body: '' })),
+  send: async (message) => {
+    const smsUrl = buildSmsUrl(message);
+
+    // Check if SMS is supported on this device
+    const supported = await Linking.canOpenURL(smsUrl);
+    if (!supported) {
+      throw new Error('SMS is not available on this device');
+    }
+
+    await Linking.openURL(smsUrl);
+    return 'composed';
+  },
+};
+
+// Uses the native composer from expo-sms, which reports whether the user sent the message (iOS only)
+export const expoSmsTransport: SmsTransport = {
+  id: 'expo-sms',
+  name: 'Native SMS composer',
+  description: 'Opens the built-in SMS composer and reports whether the message was sent.',
+  capabilities: { opensComposer: true, reportsDelivery: Platform.OS === 'ios', canReceive: false, simulated: false },
+  isAvailable: () => SMS.isAvailableAsync(),
+  send: async ({ phoneNumber, body }) => {
+    if (!(await SMS.isAvailableAsync())) {
+      throw new Error('SMS is not available on this device');
+    }
+
+    const { result } = await SMS.sendSMSAsync([toSmsAddress(phoneNumber)], body);
+    if (result === 'sent') return 'sent';
+    if (result === 'cancelled') return 'cancelled';
+    return 'composed';
+  },
+};
+
+export interface RecordedSms extends OutgoingSms {
+  sentAt: string;
+}
+
+// Deterministic transport that records outgoing messages instead of sending them.
+// Used for development builds and for driving screens without a phone.
+export class InMemorySmsTransport implements SmsTransport {
+  public readonly id: SmsTransportId = 'memory';
+  public readonly name: string;
+  public readonly description = 'Commands are recorded inside the app only. Nothing is sent to the gate.';
+  public readonly capabilities: SmsTransportCapabilities = {
+    opensComposer: false,
+    reportsDelivery: true,
+    canReceive: true,
+    simulated: true,
+  };
+  public readonly sent: RecordedSms[] = [];
+  private listeners: IncomingSmsListener[] = [];
+  private now: () => Date;
+
+  constructor(options: { name?: string; now?: () => Date } = {}) {
+    this.name = options.name || 'In-memory (no SMS sent)';
+    this.now = options.now || (() => new Date());
+  }
+
+  public isAvailable = async (): Promise<boolean> => true;
+
+  public send = async (message: OutgoingSms): Promise<SmsSendStatus> => {
+    this.sent.push({ ...message, sentAt: this.now().toISOString() });
+    return 'sent';
+  };
+
+  public onIncoming = (listener: IncomingSmsListener): (() => void) => {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  };
+
+  // Deliver an inbound message to every listener, as if the gate had replied
+  public receive(phoneNumber: string, body: string): IncomingSms {
+    const message: IncomingSms = { phoneNumber, body, receivedAt: this.now().toISOString() };
+    this.listeners.forEach(listener => listener(message));
+    return message;
+  }
+
+  public lastSent(): RecordedSms | undefined {
+    return this.sent[this.sent.length - 1];
+  }
+
+  public clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+export const memoryTransport = new InMemorySmsTransport();
+
+const transports: Record<SmsTransportId, SmsTransport> = {
+  'linking': linkingTransport,
+  'expo-sms': expoSmsTransport,
+  'memory': memoryTransport,
+  'simulator': simulatorTransport,
+};
+
+let activeTransportId: SmsTransportId = 'linking';
+
+// Replace the implementation behind an id (e.g. a simulator with a fixed clock)
+export const registerSmsTransport = (transport: SmsTransport): void => {
+  transports[transport.id] = transport;
+};
+
+export const getAvailableSmsTransports = (): SmsTransport[] => Object.values(transports);
+
+export const setActiveSmsTransport = (id: SmsTransportId): void => {
+  if (!transports[id]) {
+    console.error('Unknown SMS transport:', id);
+    return;
+  }
+  activeTransportId = id;
+};
+
+export const getSmsTransport = (): SmsTransport => transports[activeTransportId];
+
+export default {
+  getSmsTransport,
+  setActiveSmsTransport,
+  registerSmsTransport,
+  getAvailableSmsTransports,
+};
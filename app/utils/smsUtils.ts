@@ -1,37 +1,11 @@
 // utils/smsUtils.ts
-import { Linking, Alert, Platform } from 'react-native';
-import { addLog } from './LogManager'; // Import from the consolidated logger
+import { Alert } from 'react-native';
+import LogManager from './LogManager'; // Import from the consolidated logger
 import { safeExecute } from './errorUtils'; // Import safe execution utility
-
-// Formats the phone number for use in SMS URI
-const formatPhoneNumber = (phoneNumber: string): string => {
-  return Platform.OS === 'ios' ? phoneNumber.replace(/[^0-9+]/g, '') : phoneNumber;
-};
-
-// Centralized command formatting
-export const formatSMSCommand = (password: string, commandType: string, options: any = {}): string => {
-    switch (commandType) {
-        case 'OPEN':
-            return `${password}CC`;
-        case 'CLOSE':
-            return `${password}DD`;
-        case 'STATUS':
-            return `${password}EE`;
-        case 'ADD_USER':
-            return `${password}A${options.serial}#${options.phone}#${options.startTime || ''}#${options.endTime || ''}#`;
-        case 'DELETE_USER':
-            return `${password}A${options.serial}##`;
-        case 'SET_ACCESS':
-            return `${password}${options.accessType}#`;
-        case 'SET_LATCH':
-            return `${password}GOT${options.latchTime.padStart(3, '0')}#`;
-        case 'REGISTER_ADMIN':
-            return `${password}TEL${options.adminNumber}#`;
-        default:
-            return command; // Raw command as fallback
-    }
-};
-
+import { GateCommand, encodeCommand, describeValidationErrors, UNDOCUMENTED_COMMANDS } from './gateCommands';
+import { getSmsTransport } from './smsTransport';
+import CommandLedger from './commandLedger';
+import { getCapabilities } from './deviceModels';
 
 // Open SMS app (now uses sendSMSCommand internally for consistency)
 export const openSMSApp = async (phoneNumber: string, message: string): Promise<boolean> => {
@@ -41,13 +15,15 @@ export const openSMSApp = async (phoneNumber: string, message: string): Promise<
 export const sendSMSCommand = async (options: {
   phoneNumber: string;
   command: string;
+  parts?: string[]; // The individual commands when several are joined into one message
   deviceId?: string;
+  model?: string; // Device model, selects the expected reply format
   setLoading?: (loading: boolean) => void;
   onSuccess?: () => void;
   errorTitle?: string;
   errorMessage?: string;
 }): Promise<boolean> => {
-    const {phoneNumber, command, deviceId, setLoading, onSuccess, errorTitle, errorMessage} = options;
+    const {phoneNumber, command, parts, deviceId, model, setLoading, onSuccess, errorTitle, errorMessage} = options;
     
   if (!phoneNumber) {
     Alert.alert('Error', 'Device phone number not available');
@@ -56,28 +32,20 @@ export const sendSMSCommand = async (options: {
 
   return safeExecute(
     async () => {
-      // Format the phone number based on platform
-      const formattedPhoneNumber = formatPhoneNumber(phoneNumber);
-      
-      // Create the SMS URL based on platform
-      const smsUrl = Platform.select({
-        ios: `sms:${formattedPhoneNumber}&body=${encodeURIComponent(command)}`,
-        android: `sms:${formattedPhoneNumber}?body=${encodeURIComponent(command)}`,
-        default: `sms:${formattedPhoneNumber}?body=${encodeURIComponent(command)}`,
-      });
-      
-      // Check if SMS is supported on this device
-      const supported = await Linking.canOpenURL(smsUrl);
-      if (!supported) {
-        throw new Error('SMS is not available on this device');
+      // Hand the message to the active transport (messaging app, native composer or in-memory)
+      const status = await getSmsTransport().send({ phoneNumber, body: command });
+
+      // The user backed out of the composer - nothing was sent
+      if (status === 'cancelled') {
+        return false;
       }
       
-      // Open the SMS app
-      await Linking.openURL(smsUrl);
-      
-      // Log the SMS operation if we have a device ID
+      // Log the SMS operation and start waiting for the device's reply, once per joined command
       if (deviceId) {
-        await LogManager.logSMSOperation(deviceId, command, true);
+        for (const part of parts || [command]) {
+          const log = await LogManager.logSMSOperation(deviceId, part, true);
+          await CommandLedger.record(deviceId, part, status, log.id, model);
+        }
       }
       
       return true;
@@ -94,8 +62,44 @@ export const sendSMSCommand = async (options: {
     }
   );
 };
+
+// Encode a typed command and send it, refusing to open the composer for an invalid command
+// Why a command must not go out over the active transport, or null when it may.
+// Checked by every path that sends typed commands, single ones and queued batches alike.
+export const getSendBlockReason = (command: GateCommand): string | null =>
+  UNDOCUMENTED_COMMANDS.includes(command.type) && !getSmsTransport().capabilities.simulated
+    ? 'This command is not in the gate manual, so it is only sent to the simulated gate.'
+    : null;
+
+export const sendGateCommand = async (options: {
+  phoneNumber: string;
+  command: GateCommand;
+  deviceId?: string;
+  model?: string; // Device model, checked before anything is sent
+  setLoading?: (loading: boolean) => void;
+  onSuccess?: () => void;
+  errorTitle?: string;
+  errorMessage?: string;
+}): Promise<boolean> => {
+  const { command, ...sendOptions } = options;
+  const blocked = getSendBlockReason(command);
+  if (blocked) {
+    Alert.alert(options.errorTitle || 'Not Available', `${blocked} Nothing was sent.`);
+    return false;
+  }
+
+  const encoded = encodeCommand(command, getCapabilities(options.model));
+
+  if (encoded.ok === false) {
+    Alert.alert(options.errorTitle || 'Invalid Command', describeValidationErrors(encoded.errors));
+    return false;
+  }
+
+  return sendSMSCommand({ ...sendOptions, command: encoded.body });
+};
+
 export default {
   sendSMSCommand,
+  sendGateCommand,
   openSMSApp, // Add this line
-  formatSMSCommand
 };
\ No newline at end of file
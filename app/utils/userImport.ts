@@ -0,0 +1,206 @@
+// utils/userImport.ts
+// Turns a CSV of residents (name, phone, optional slot, optional start/end) into a checked
+// import plan for one device: every row is validated, given a free slot and compared with
+// the users the device already has before anything is sent.
+import type { DeviceUser } from './DataStore';
+import { CommandLimits } from './gateCommands';
+import { phoneMatchKey, toDevicePhoneNumber, validatePhoneNumber } from './phoneNumbers';
+import { decodeDeviceTime, encodeAccessWindow, validateAccessWindow } from './accessWindow';
+import { findNextFreeSlot, formatSlot, isValidSlot } from './userSlots';
+
+export type ImportRowStatus = 'ready' | 'skipped' | 'invalid';
+
+export interface ImportRow {
+  line: number;            // Line in the file, for messages
+  name: string;
+  phoneNumber: string;     // Digits as the device expects them
+  serialNumber: string;    // Requested or auto-assigned slot
+  startTime?: string;
+  endTime?: string;
+  status: ImportRowStatus;
+  messages: string[];      // Why a row is skipped or invalid, or what was changed
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  ready: ImportRow[];
+}
+
+type Column = 'name' | 'phone' | 'slot' | 'start' | 'end';
+
+const HEADER_ALIASES: Record<Column, string[]> = {
+  name: ['name', 'resident', 'user'],
+  phone: ['phone', 'phone number', 'mobile', 'number'],
+  slot: ['slot', 'serial', 'position', 'serial number'],
+  start: ['start', 'start time', 'from'],
+  end: ['end', 'end time', 'to', 'until'],
+};
+
+// Files without a header row are read in this order
+const DEFAULT_COLUMNS: Column[] = ['name', 'phone', 'slot', 'start', 'end'];
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and CRLF line endings
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.map(cells => cells.map(cell => cell.trim()));
+};
+
+// Accepts the device format or a spreadsheet date such as 2024-08-05 08:00
+const parseImportTime = (value: string): string | null => {
+  if (!value) return null;
+  if (decodeDeviceTime(value)) return value;
+
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0'] = match;
+  const date = new Date(+year, +month - 1, +day, +hour, +minute);
+  return encodeAccessWindow({ start: date, end: date }).startTime;
+};
+
+const detectColumns = (firstRow: string[]): { columns: Column[]; hasHeader: boolean } => {
+  const columns = firstRow.map(cell =>
+    (Object.keys(HEADER_ALIASES) as Column[]).find(column => HEADER_ALIASES[column].includes(cell.toLowerCase()))
+  );
+  return columns.includes('phone')
+    ? { columns, hasHeader: true }
+    : { columns: DEFAULT_COLUMNS, hasHeader: false };
+};
+
+// Normalise each row, assign slots and mark conflicts against the device's current users
+export const planUserImport = (
+  text: string,
+  existingUsers: DeviceUser[],
+  limits: Pick<CommandLimits, 'model' | 'maxUsers' | 'supportsTimeWindows'>,
+  now: Date = new Date()
+): ImportPlan => {
+  const csvRows = parseCsv(text).filter(cells => cells.some(cell => cell));
+  if (csvRows.length === 0) return { rows: [], ready: [] };
+
+  const { columns, hasHeader } = detectColumns(csvRows[0]);
+  const cell = (cells: string[], column: Column) => cells[columns.indexOf(column)] || '';
+  const existingByPhone = new Map(existingUsers.map(user => [phoneMatchKey(user.phoneNumber), user]));
+  const existingSerials = existingUsers.map(user => user.serialNumber);
+  const seenPhones = new Set<string>();
+
+  // First pass: validate and honour requested slots
+  const rows: ImportRow[] = csvRows.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const messages: string[] = [];
+    const rawPhone = cell(cells, 'phone');
+    const phoneNumber = toDevicePhoneNumber(rawPhone) || rawPhone;
+    const requestedSlot = cell(cells, 'slot');
+    const row: ImportRow = {
+      line: index + (hasHeader ? 2 : 1),
+      name: cell(cells, 'name') || 'Unnamed User',
+      phoneNumber,
+      serialNumber: '',
+      status: 'ready',
+      messages,
+    };
+
+    const phoneError = validatePhoneNumber(rawPhone);
+    if (phoneError) {
+      messages.push(phoneError);
+    }
+    if (requestedSlot && !isValidSlot(requestedSlot, limits.maxUsers)) {
+      messages.push(`Slot must be between 001 and ${formatSlot(limits.maxUsers)}`);
+    }
+
+    const rawStart = cell(cells, 'start');
+    const rawEnd = cell(cells, 'end');
+    if (rawStart || rawEnd) {
+      const startTime = parseImportTime(rawStart);
+      const endTime = parseImportTime(rawEnd);
+      const window = startTime && endTime
+        ? { start: decodeDeviceTime(startTime), end: decodeDeviceTime(endTime) }
+        : null;
+      if (!window) {
+        messages.push('Start and end must both be valid times (YYMMDDHHmm or YYYY-MM-DD HH:mm)');
+      } else {
+        messages.push(...validateAccessWindow(window, limits, now));
+        row.startTime = startTime;
+        row.endTime = endTime;
+      }
+    }
+    if (messages.length > 0) {
+      row.status = 'invalid';
+      return row;
+    }
+
+    const phoneKey = phoneMatchKey(phoneNumber);
+    const existing = existingByPhone.get(phoneKey);
+    if (existing) {
+      row.status = 'skipped';
+      messages.push(`Already on this device as ${existing.name} (slot ${existing.serialNumber})`);
+    } else if (seenPhones.has(phoneKey)) {
+      row.status = 'skipped';
+      messages.push('Same number appears earlier in the file');
+    }
+    seenPhones.add(phoneKey);
+
+    if (requestedSlot && row.status === 'ready') row.serialNumber = formatSlot(parseInt(requestedSlot, 10));
+    return row;
+  });
+
+  // Second pass: requested slots that clash are reassigned, then everyone else gets the next free one
+  const used = [...existingSerials];
+  const ready = rows.filter(row => row.status === 'ready');
+  for (const row of ready) {
+    if (row.serialNumber && used.includes(row.serialNumber)) {
+      row.messages.push(`Slot ${row.serialNumber} is taken, a free slot was used instead`);
+      row.serialNumber = '';
+    }
+    if (row.serialNumber) used.push(row.serialNumber);
+  }
+  for (const row of ready) {
+    if (row.serialNumber) continue;
+    const serial = findNextFreeSlot(used, limits.maxUsers);
+    if (!serial) {
+      row.status = 'invalid';
+      row.messages.push('No free slots left on this device');
+      continue;
+    }
+    row.serialNumber = serial;
+    used.push(serial);
+  }
+
+  return { rows, ready: rows.filter(row => row.status === 'ready') };
+};
+
+export default {
+  parseCsv,
+  planUserImport,
+};
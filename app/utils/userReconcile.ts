@@ -0,0 +1,143 @@
+// utils/userReconcile.ts
+// Compares the user table a device reports with the slots the app holds for it, and
+// works out what to change on either side once the user picks a winner for each row.
+import type { Device, DeviceUser } from './DataStore';
+import type { DeviceUserEntry } from './replyParser';
+import type { QueuedCommandInput } from './commandQueue';
+import { formatAccessWindow } from './accessWindow';
+import { formatSlot, isValidSlot } from './userSlots';
+import { formatPhoneForDisplay, isSamePhoneNumber } from './phoneNumbers';
+
+// missing_locally: only the device has the position
+// missing_on_device: only the app has it
+// different: both have it with another number or access window
+export type ReconcileKind = 'missing_locally' | 'missing_on_device' | 'different';
+
+export type ReconcileWinner = 'device' | 'app';
+
+export interface ReconcileRow {
+  serialNumber: string;
+  kind: ReconcileKind;
+  app?: DeviceUser;
+  device?: DeviceUserEntry;
+  differences: string[];          // What differs, for display
+  suggested: ReconcileWinner;
+}
+
+export interface ReconcileResult {
+  rows: ReconcileRow[];
+  confirmed: DeviceUser[];        // App slots the device holds exactly, whatever their status
+  unchecked: DeviceUser[];        // App slots outside the positions the reply covers
+}
+
+// Positions a user list answers for, inclusive, e.g. { from: '001', to: '200' }
+export interface SlotRange {
+  from: string;
+  to: string;
+}
+
+// The positions requested by a LIST_USERS body, e.g. "****AL001#200#"
+export const requestedRange = (body: string): SlotRange | null => {
+  const match = body.match(/AL(\d{3})#(\d{3})#$/);
+  return match ? { from: match[1], to: match[2] } : null;
+};
+
+// Where a reply is known to speak for every position: all of the request when the device has no
+// users, otherwise only up to the last position it listed, since a list split over several SMS
+// may not have arrived or been pasted in full
+export const coveredRange = (deviceEntries: DeviceUserEntry[], requested: SlotRange): SlotRange => {
+  if (deviceEntries.length === 0) return requested;
+  const last = Math.max(...deviceEntries.map(entry => parseInt(entry.serialNumber, 10)));
+  return { from: requested.from, to: formatSlot(Math.min(last, parseInt(requested.to, 10))) };
+};
+
+const isInRange = (serialNumber: string, range: SlotRange): boolean => {
+  const position = parseInt(serialNumber, 10);
+  return position >= parseInt(range.from, 10) && position <= parseInt(range.to, 10);
+};
+
+// An app slot the device did not list only counts as missing when its position is within
+// covered (see coveredRange); the others are returned as unchecked
+export const diffUserTable = (
+  deviceEntries: DeviceUserEntry[],
+  appUsers: DeviceUser[],
+  covered: SlotRange,
+  maxUsers: number
+): ReconcileResult => {
+  const onDevice = new Map(
+    deviceEntries
+      .filter(entry => isValidSlot(entry.serialNumber, maxUsers))
+      .map(entry => [formatSlot(parseInt(entry.serialNumber, 10)), entry])
+  );
+  const unchecked = appUsers.filter(user => !onDevice.has(user.serialNumber) && !isInRange(user.serialNumber, covered));
+  const inApp = new Map(
+    appUsers.filter(user => !unchecked.includes(user)).map(user => [user.serialNumber, user])
+  );
+  const serials = [...new Set([...onDevice.keys(), ...inApp.keys()])].sort();
+
+  const rows: ReconcileRow[] = [];
+  const confirmed: DeviceUser[] = [];
+  for (const serialNumber of serials) {
+    const device = onDevice.get(serialNumber);
+    const app = inApp.get(serialNumber);
+
+    if (device && !app) {
+      rows.push({ serialNumber, kind: 'missing_locally', device, differences: [], suggested: 'device' });
+      continue;
+    }
+    if (app && !device) {
+      // Resending is suggested over forgetting the user, which the app could not undo
+      rows.push({ serialNumber, kind: 'missing_on_device', app, differences: [], suggested: 'app' });
+      continue;
+    }
+    if (!app || !device) continue;
+
+    const differences: string[] = [];
+    // 04xx and 00614xx are the same number written two ways
+    if (!isSamePhoneNumber(app.phoneNumber, device.phoneNumber)) {
+      differences.push(`Number: app ${formatPhoneForDisplay(app.phoneNumber)}, device ${formatPhoneForDisplay(device.phoneNumber)}`);
+    }
+    if ((app.startTime || '') !== (device.startTime || '') || (app.endTime || '') !== (device.endTime || '')) {
+      differences.push(
+        `Access: app ${formatAccessWindow(app.startTime, app.endTime)}, device ${formatAccessWindow(device.startTime, device.endTime)}`
+      );
+    }
+    if (differences.length === 0) {
+      confirmed.push(app);
+    } else {
+      rows.push({ serialNumber, kind: 'different', app, device, differences, suggested: app.status === 'pending' ? 'app' : 'device' });
+    }
+  }
+
+  return { rows, confirmed, unchecked };
+};
+
+// The command that makes the device match the app for a row the app wins
+export const commandForAppWins = (row: ReconcileRow, device: Pick<Device, 'password'>): QueuedCommandInput => {
+  if (row.kind === 'missing_locally') {
+    return {
+      label: `Remove ${formatPhoneForDisplay(row.device?.phoneNumber || '')} (#${row.serialNumber})`,
+      command: { type: 'DELETE_USER', password: device.password, serial: row.serialNumber },
+    };
+  }
+
+  const user = row.app!;
+  return {
+    label: `Add ${user.name} (#${row.serialNumber})`,
+    command: {
+      type: 'ADD_USER',
+      password: device.password,
+      serial: row.serialNumber,
+      phone: user.phoneNumber,
+      startTime: user.startTime,
+      endTime: user.endTime,
+    },
+  };
+};
+
+export default {
+  requestedRange,
+  coveredRange,
+  diffUserTable,
+  commandForAppWins,
+};
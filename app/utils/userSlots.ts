@@ -0,0 +1,51 @@
+// utils/userSlots.ts
+// Helpers for the numbered user table on each device. Positions run from 001 up to the
+// model's maxUsers and are stored as three-digit strings, as the device expects them.
+import type { SlotStatus } from './DataStore';
+import { isOpenCommand, LedgerEntry } from './commandLedger';
+
+// synced: the device holds what the app shows
+// awaiting: an add or delete for the slot is waiting for the device's reply
+// queued: the add or delete is in a command batch that has not sent it yet
+// out_of_sync: the last change was never confirmed, so app and device may differ
+export type SlotSyncState = 'synced' | 'awaiting' | 'queued' | 'out_of_sync';
+
+export const formatSlot = (position: number): string => position.toString().padStart(3, '0');
+
+// A position the device accepts, e.g. "7" or "007" for a 200-user model
+export const isValidSlot = (serial: string | undefined, maxUsers: number): boolean => {
+  if (!serial || !/^\d{1,3}$/.test(serial)) return false;
+  const position = parseInt(serial, 10);
+  return position >= 1 && position <= maxUsers;
+};
+
+// Lowest position not already taken, or null when the table is full
+export const findNextFreeSlot = (usedSerials: string[], maxUsers: number): string | null => {
+  const used = new Set(usedSerials.map(serial => parseInt(serial, 10)).filter(num => !isNaN(num)));
+  for (let position = 1; position <= maxUsers; position++) {
+    if (!used.has(position)) return formatSlot(position);
+  }
+  return null;
+};
+
+export const getSlotSyncState = (
+  slot: { serialNumber: string; status: SlotStatus },
+  deviceCommands: LedgerEntry[],
+  queuedSerials: string[] = [] // See getQueuedSerials in commandQueue.ts
+): SlotSyncState => {
+  if (slot.status === 'active') return 'synced';
+  const waiting = deviceCommands.some(command =>
+    isOpenCommand(command) &&
+    command.serial === slot.serialNumber &&
+    (command.kind === 'ADD_USER' || command.kind === 'DELETE_USER')
+  );
+  if (waiting) return 'awaiting';
+  return queuedSerials.includes(slot.serialNumber) ? 'queued' : 'out_of_sync';
+};
+
+export default {
+  formatSlot,
+  isValidSlot,
+  findNextFreeSlot,
+  getSlotSyncState,
+};
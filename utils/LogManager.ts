@@ -2,6 +2,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LogEntry } from '../types'; // Import from types
 import { safeGetItem, safeSetItem } from './storageUtils';
+import { describeCommand } from '../app/utils/gateCommands';
 
 // Unified LogManager class
 class LogManager {
@@ -89,54 +90,9 @@ class LogManager {
     
     // Log SMS operation with details extraction and sanitization
     public static async logSMSOperation(deviceId: string, command: string, success: boolean = true): Promise<LogEntry> {
-        let action = "GSM Command";
-        let details = command.replace(/\d{4}[A-Z]/g, '****'); // Hide password
+        // Classify and redact using the same grammar the command encoder produces
+        const { action, details } = describeCommand(command);
 
-        if (command.includes('CC')) {
-            action = "Gate Open";
-            details = "Opened gate/activated relay (ON)";
-        } else if (command.includes('DD')) {
-            action = "Gate Close";
-            details = "Closed gate/deactivated relay (OFF)";
-        } else if (command.includes('P') && command.length === 8) {
-            action = "Password Change";
-            details = "Changed device password";
-        } else if (command.includes('EE')) {
-            action = "Status Check";
-            details = "Requested device status";
-        } else if (command.includes('TEL')) {
-            action = "Admin Registration";
-            details = "Registered admin phone number";
-        } else if (command.includes('A') && !command.includes('ALL') && !command.includes('AUT')) {
-            action = "User Management";
-            if (command.includes('##')) {
-                const serial = command.match(/\d{4}A(\d{3})##/)?.[1];
-                details = `Removed authorized user from position ${serial || ''}`;
-            } else if (command.match(/\d{4}A\d{3}#[^#]+#/)) {
-                const matches = command.match(/\d{4}A(\d{3})#([^#]+)#/);
-                if (matches) {
-                    const [_, serial, phone] = matches;
-                    details = `Added user ${phone} at position ${serial}`;
-                }
-            }
-        } else if (command.includes('AUT')) {
-            action = "Access Control";
-            details = "Set to authorized users only";
-        } else if (command.includes('ALL')) {
-            action = "Access Control";
-            details = "Set to allow all callers";
-        } else if (command.includes('GOT')) {
-            action = "Relay Timing";
-            const seconds = command.match(/\d{4}GOT(\d{3})#/)?.[1];
-            if (seconds === '000') {
-                details = 'Set relay to momentary mode (pulse)';
-            } else if (seconds === '999') {
-                details = 'Set relay to toggle mode (stays ON until next call)';
-            } else {
-                details = `Set relay to close for ${parseInt(seconds || '0', 10)} seconds`;
-            }
-        }
-        
         return this.addLog(action, details, success, deviceId, 'relay');
     }
 }